@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const BACKEND_URL = 'https://co3pe.onrender.com';
+
+export async function POST(request: NextRequest, { params }: { params: { agentId: string; versionId: string } }) {
+  try {
+    const body = await request.json();
+
+    const response = await fetch(`${BACKEND_URL}/api/agents/${params.agentId}/versions/${params.versionId}/activate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Backend error:', error);
+      return NextResponse.json(
+        { error: error.error || 'Failed to activate version' },
+        { status: response.status }
+      );
+    }
+
+    const data = await response.json();
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error in agent version activation API route:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const BACKEND_URL = 'https://co3pe.onrender.com';
+
+export const dynamic = 'force-dynamic'; // A version is built on first request if it has no build yet
+
+export async function GET(request: NextRequest, { params }: { params: { agentId: string; versionId: string } }) {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/agents/${params.agentId}/versions/${params.versionId}/build`, {
+      cache: 'no-store'
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Backend error:', error);
+      return NextResponse.json(
+        { error: error.error || 'Failed to fetch build' },
+        { status: response.status }
+      );
+    }
+
+    const data = await response.json();
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error in agent build API route:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
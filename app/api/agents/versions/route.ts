@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const BACKEND_URL = 'https://co3pe.onrender.com';
+
+export const dynamic = 'force-dynamic'; // The active version changes on every upload
+
+export async function GET(request: NextRequest) {
+  try {
+    const wallet = request.nextUrl.searchParams.get('wallet');
+    if (!wallet) {
+      return NextResponse.json({ error: 'No wallet provided' }, { status: 400 });
+    }
+
+    const response = await fetch(`${BACKEND_URL}/api/agents/user/${wallet}/versions`, {
+      cache: 'no-store'
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Backend error:', error);
+      return NextResponse.json(
+        { error: error.error || 'Failed to fetch agent versions' },
+        { status: response.status }
+      );
+    }
+
+    const data = await response.json();
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error in agent versions API route:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
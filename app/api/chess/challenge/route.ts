@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const BACKEND_URL = 'https://co3pe.onrender.com';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    console.log('Queueing chess challenge');
+
+    const response = await fetch(`${BACKEND_URL}/api/chess/challenge`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Backend error:', error);
+      return NextResponse.json(
+        { error: error.message || error.error || 'Failed to queue challenge' },
+        { status: response.status }
+      );
+    }
+
+    const data = await response.json();
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error in chess challenge API route:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
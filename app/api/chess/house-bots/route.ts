@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+
+const BACKEND_URL = 'https://co3pe.onrender.com';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/chess/house-bots`, {
+      cache: 'no-store'
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      console.error('Backend error:', data);
+      return NextResponse.json(
+        { error: data.message || data.error || 'Failed to list house bots' },
+        { status: response.status }
+      );
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error in chess house bots API route:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
@@ -7,9 +7,12 @@ export const revalidate = 0; // Disable cache
 
 export async function GET(request: NextRequest) {
   try {
-    console.log('Attempting to fetch leaderboard from:', `${BACKEND_URL}/api/chess/leaderboard`);
+    // rating (default), points or wins
+    const sort = new URL(request.url).searchParams.get('sort');
+    const url = `${BACKEND_URL}/api/chess/leaderboard${sort ? `?sort=${encodeURIComponent(sort)}` : ''}`;
+    console.log('Attempting to fetch leaderboard from:', url);
     
-    const response = await fetch(`${BACKEND_URL}/api/chess/leaderboard`, {
+    const response = await fetch(url, {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
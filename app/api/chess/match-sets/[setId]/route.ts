@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const BACKEND_URL = 'https://co3pe.onrender.com';
+
+export async function GET(request: NextRequest, { params }: { params: { setId: string } }) {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/chess/match-sets/${params.setId}`, {
+      cache: 'no-store'
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      console.error('Backend error:', data);
+      return NextResponse.json(
+        { error: data.message || data.error || 'Failed to get match set' },
+        { status: response.status }
+      );
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error in chess match set API route:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
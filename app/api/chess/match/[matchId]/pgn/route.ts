@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const BACKEND_URL = 'https://co3pe.onrender.com';
+
+export async function GET(request: NextRequest, { params }: { params: { matchId: string } }) {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/chess/match/${params.matchId}/pgn`, {
+      cache: 'no-store'
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Backend error:', error);
+      return NextResponse.json(
+        { error: error.error || 'Failed to export PGN' },
+        { status: response.status }
+      );
+    }
+
+    const pgn = await response.text();
+    return new NextResponse(pgn, {
+      headers: {
+        'Content-Type': 'application/x-chess-pgn; charset=utf-8',
+        'Content-Disposition': response.headers.get('Content-Disposition') || `attachment; filename="match-${params.matchId}.pgn"`
+      }
+    });
+  } catch (error) {
+    console.error('Error in chess match PGN API route:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
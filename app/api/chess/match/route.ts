@@ -20,7 +20,7 @@ export async function POST(request: NextRequest) {
       const error = await response.json();
       console.error('Backend error:', error);
       return NextResponse.json(
-        { error: error.error || 'Failed to start match' },
+        { error: error.message || error.error || 'Failed to start match' },
         { status: response.status }
       );
     }
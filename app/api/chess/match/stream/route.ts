@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const BACKEND_URL = 'https://co3pe.onrender.com';
+
+export const dynamic = 'force-dynamic'; // Never cache a live stream
+
+// Relays the backend's Server-Sent Events stream for a match
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const matchId = searchParams.get('matchId');
+
+    if (!matchId) {
+      return NextResponse.json(
+        { error: 'Match ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const response = await fetch(`${BACKEND_URL}/api/chess/match/${matchId}/stream`, {
+      headers: { Accept: 'text/event-stream' },
+      cache: 'no-store',
+      signal: request.signal
+    });
+
+    if (!response.ok || !response.body) {
+      const error = await response.json().catch(() => ({}));
+      console.error('Backend error:', error);
+      return NextResponse.json(
+        { error: error.error || 'Failed to stream match' },
+        { status: response.status }
+      );
+    }
+
+    return new Response(response.body, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive'
+      }
+    });
+  } catch (error) {
+    console.error('Error in chess match stream API route:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
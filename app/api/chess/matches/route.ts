@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const BACKEND_URL = 'https://co3pe.onrender.com';
+
+export const dynamic = 'force-dynamic'; // Match history changes after every game
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const params = new URLSearchParams();
+    for (const key of ['wallet', 'agentId', 'limit']) {
+      const value = searchParams.get(key);
+      if (value) params.set(key, value);
+    }
+
+    const response = await fetch(`${BACKEND_URL}/api/chess/matches?${params.toString()}`, {
+      cache: 'no-store'
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Backend error:', error);
+      return NextResponse.json(
+        { error: error.error || 'Failed to fetch matches' },
+        { status: response.status }
+      );
+    }
+
+    const data = await response.json();
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error in chess matches API route:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const BACKEND_URL = 'https://co3pe.onrender.com';
+
+export const dynamic = 'force-dynamic'; // Brackets change after every game
+
+export async function GET(request: NextRequest, { params }: { params: { competitionId: string } }) {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/competitions/${params.competitionId}/bracket`, {
+      cache: 'no-store'
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Backend error:', error);
+      return NextResponse.json(
+        { error: error.error || 'Failed to fetch bracket' },
+        { status: response.status }
+      );
+    }
+
+    const data = await response.json();
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error in competition bracket API route:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
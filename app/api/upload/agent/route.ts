@@ -17,7 +17,7 @@ export async function POST(request: NextRequest) {
       const error = await response.json();
       console.error('Backend error:', error);
       return NextResponse.json(
-        { error: error.error || 'Failed to upload file' },
+        { error: error.error || 'Failed to upload file', build: error.build, conformance: error.conformance },
         { status: response.status }
       );
     }
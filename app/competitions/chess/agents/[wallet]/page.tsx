@@ -0,0 +1,155 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, PlayCircle } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+import { Navbar } from "@/components/navbar"
+import Footer from "@/components/footer"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { LoadingState } from "@/components/ui/loading-state"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+interface MatchSummary {
+  _id: string
+  status: string
+  players: { player: 1 | 2; color: "w" | "b"; name: string; walletAddress?: string; agent?: string }[]
+  // Position within the match set, for games played as part of one
+  game?: number
+  // False for practice games against house bots
+  rated?: boolean
+  result?: { winner: number; reason: string }
+  createdAt: string
+}
+
+const formatWalletAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+// The wallet's matches, narrowed to one of its agents by ?agent=<agentId>
+export default function AgentMatchesPage({
+  params,
+  searchParams
+}: {
+  params: { wallet: string }
+  searchParams: { agent?: string }
+}) {
+  const wallet = decodeURIComponent(params.wallet)
+  const agentId = searchParams.agent
+  const [matches, setMatches] = useState<MatchSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function fetchMatches() {
+      try {
+        const query = agentId ? `agentId=${encodeURIComponent(agentId)}` : `wallet=${encodeURIComponent(wallet)}`
+        const res = await fetch(`/api/chess/matches?${query}&limit=50`)
+        const data = await res.json()
+        if (!res.ok) {
+          throw new Error(data.error || "Failed to fetch matches")
+        }
+        setMatches(data)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to fetch matches")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchMatches()
+  }, [wallet, agentId])
+
+  // Outcome from the point of view of the agent whose history this is
+  const outcomeOf = (match: MatchSummary) => {
+    if (!match.result?.reason) return null
+    const self = match.players.find(player => agentId ? player.agent === agentId : player.walletAddress === wallet)
+    if (match.result.winner === 0) return "Draw"
+    return self && match.result.winner === self.player ? "Win" : "Loss"
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      {/* Background gradients */}
+      <div className="pointer-events-none fixed inset-0">
+        <div className="absolute inset-0 bg-gradient-to-b from-background via-background/90 to-background" />
+        <div className="absolute right-0 top-0 h-[500px] w-[500px] bg-blue-500/10 blur-[100px]" />
+        <div className="absolute bottom-0 left-0 h-[500px] w-[500px] bg-purple-500/10 blur-[100px]" />
+      </div>
+      <div className="flex flex-col flex-grow relative z-10">
+        <Navbar />
+        <main className="container mx-auto px-4 py-12 flex-grow">
+          <Link href="/leaderboard" className="mb-6 inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="h-4 w-4" />
+            Back to leaderboard
+          </Link>
+          <Card>
+            <CardHeader>
+              <CardTitle>Match History</CardTitle>
+              <CardDescription className="font-mono">{formatWalletAddress(wallet)}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="flex justify-center py-8">
+                  <LoadingState />
+                </div>
+              ) : error ? (
+                <div className="text-center py-8 text-red-600">{error}</div>
+              ) : matches.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">No matches played yet</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Played</TableHead>
+                      <TableHead>White</TableHead>
+                      <TableHead>Black</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead className="text-right">Replay</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {matches.map(match => {
+                      const outcome = outcomeOf(match)
+                      return (
+                        <TableRow key={match._id}>
+                          <TableCell>
+                            {formatDistanceToNow(new Date(match.createdAt), { addSuffix: true })}
+                            {match.game && <span className="text-muted-foreground"> · game {match.game}</span>}
+                            {match.rated === false && <span className="text-muted-foreground"> · unrated</span>}
+                          </TableCell>
+                          <TableCell>{match.players.find(player => player.color === "w")?.name}</TableCell>
+                          <TableCell>{match.players.find(player => player.color === "b")?.name}</TableCell>
+                          <TableCell>
+                            {outcome ? (
+                              <Badge variant={outcome === "Win" ? "default" : outcome === "Loss" ? "destructive" : "secondary"}>
+                                {outcome}
+                              </Badge>
+                            ) : (
+                              <span className="text-muted-foreground capitalize">{match.status}</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="capitalize">{match.result?.reason?.replace(/_/g, " ")}</TableCell>
+                          <TableCell className="text-right">
+                            <Button asChild variant="ghost" size="sm">
+                              <Link href={`/competitions/chess/matches/${match._id}`}>
+                                <PlayCircle className="mr-2 h-4 w-4" />
+                                Replay
+                              </Link>
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </main>
+        <Footer />
+      </div>
+    </div>
+  )
+}
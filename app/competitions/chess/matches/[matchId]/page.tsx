@@ -0,0 +1,32 @@
+"use client"
+
+import Link from "next/link"
+import { ArrowLeft } from "lucide-react"
+import { Navbar } from "@/components/navbar"
+import Footer from "@/components/footer"
+import { MatchReplay } from "@/components/match-replay"
+
+export default function MatchReplayPage({ params }: { params: { matchId: string } }) {
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      {/* Background gradients */}
+      <div className="pointer-events-none fixed inset-0">
+        <div className="absolute inset-0 bg-gradient-to-b from-background via-background/90 to-background" />
+        <div className="absolute right-0 top-0 h-[500px] w-[500px] bg-blue-500/10 blur-[100px]" />
+        <div className="absolute bottom-0 left-0 h-[500px] w-[500px] bg-purple-500/10 blur-[100px]" />
+      </div>
+      <div className="flex flex-col flex-grow relative z-10">
+        <Navbar />
+        <main className="container mx-auto px-4 py-12 flex-grow">
+          <Link href="/competitions/chess" className="mb-6 inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="h-4 w-4" />
+            Back to Chess AI Arena
+          </Link>
+          <h1 className="text-4xl font-bold mb-8">Match Replay</h1>
+          <MatchReplay matchId={params.matchId} />
+        </main>
+        <Footer />
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 "use client"
 
 import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
 import { useWallet } from "@solana/wallet-adapter-react"
 import { toast } from "react-hot-toast"
 import { Navbar } from "@/components/navbar"
@@ -10,6 +11,8 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { startMatch, fetchUserStats, fetchUser } from '../../lib/api'
 import { LoadingState } from "@/components/ui/loading-state"
 import Footer from "@/components/footer"
+import { AgentVersionsPanel } from "@/components/agent-versions"
+import { formatSearch, useMatchStream, type MatchClock, type MatchStreamMove } from "@/hooks/use-match-stream"
 
 const leaderboardData = [
   { rank: 1, name: "AlphaChess", wins: 150, losses: 20 },
@@ -43,8 +46,17 @@ interface Agent {
   walletAddress: string;
 }
 
+// A built-in practice opponent, from /api/chess/house-bots
+interface HouseBot {
+  id: string;
+  name: string;
+  description: string;
+  style: 'random' | 'greedy' | 'minimax' | 'stockfish' | 'aggressive';
+  available: boolean;
+}
+
 interface MatchResult {
-  winner: number;
+  winner: string;
   reason: string;
   moves?: string[];
 }
@@ -62,7 +74,7 @@ interface User {
 }
 
 interface MatchStatus {
-  status: 'idle' | 'compiling' | 'running' | 'completed' | 'error';
+  status: 'idle' | 'queued' | 'compiling' | 'running' | 'completed' | 'error';
   message?: string;
   result?: MatchResult;
   engineOutput?: string;
@@ -117,12 +129,12 @@ const MatchResultDisplay = ({ status, result, engineOutput, message }: MatchStat
           <div className="flex items-center space-x-2">
             <span className="font-medium">Result:</span>
             <span className={`px-2 py-1 rounded text-sm ${
-              result.winner === 1 ? 'bg-green-100 text-green-800' :
-              result.winner === 2 ? 'bg-red-100 text-red-800' :
+              result.winner === 'user' ? 'bg-green-100 text-green-800' :
+              result.winner === 'bot' ? 'bg-red-100 text-red-800' :
               'bg-yellow-100 text-yellow-800'
             }`}>
-              {result.winner === 1 ? 'You Won!' : 
-               result.winner === 2 ? 'Bot Won' : 
+              {result.winner === 'user' ? 'You Won!' : 
+               result.winner === 'bot' ? 'Bot Won' : 
                'Draw'}
             </span>
           </div>
@@ -222,6 +234,76 @@ const MatchResultDisplay = ({ status, result, engineOutput, message }: MatchStat
   );
 };
 
+const formatClock = (ms: number | null) => {
+  if (ms === null) return '--:--';
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const LiveMatchPanel = ({ moves, clock }: { moves: MatchStreamMove[]; clock: MatchClock | null }) => {
+  const lastMove = moves[moves.length - 1];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold">Live Game</h3>
+        <div className="flex space-x-4 text-sm font-mono text-black">
+          <span className={`px-2 py-1 rounded ${lastMove?.clock?.color === 'b' ? 'bg-blue-100' : 'bg-gray-100'}`}>
+            White {formatClock(clock?.whiteMs ?? null)}
+          </span>
+          <span className={`px-2 py-1 rounded ${lastMove?.clock?.color === 'w' ? 'bg-blue-100' : 'bg-gray-100'}`}>
+            Black {formatClock(clock?.blackMs ?? null)}
+          </span>
+        </div>
+      </div>
+
+      <div className="bg-gray-50 p-3 rounded max-h-60 overflow-y-auto">
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          {Array.from({ length: Math.ceil(moves.length / 2) }).map((_, i) => {
+            const whiteMove = moves[i * 2];
+            const blackMove = moves[i * 2 + 1];
+            return (
+              <div key={i} className="flex items-center space-x-2">
+                <span className="font-mono w-8 text-black">{i + 1}.</span>
+                <div className="flex space-x-4">
+                  <span className="font-mono w-12 text-black">{whiteMove?.move}</span>
+                  {blackMove && (
+                    <span className="font-mono w-12 text-black">{blackMove.move}</span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {lastMove && (
+        <p className="mt-2 text-xs font-mono text-gray-600 break-all">
+          Ply {lastMove.ply}: {lastMove.fen}
+        </p>
+      )}
+      {formatSearch(lastMove?.search) && (
+        <p className="mt-1 text-xs font-mono text-gray-600 break-all">{formatSearch(lastMove?.search)}</p>
+      )}
+    </div>
+  );
+};
+
+// Time the result of a set's game stays up before the next game is followed
+const NEXT_GAME_DELAY_MS = 3000;
+
+// How the opponent picker groups the house bots
+const HOUSE_BOT_GROUPS: { label: string; styles: HouseBot['style'][] }[] = [
+  { label: 'Simple bots', styles: ['random', 'aggressive', 'greedy'] },
+  { label: 'Minimax', styles: ['minimax'] },
+  { label: 'Stockfish', styles: ['stockfish'] }
+];
+
+// Each extension builds with its language's toolchain on the server
+const AGENT_SOURCE_EXTENSIONS = ['.cpp', '.rs', '.go', '.py', '.js', '.ts'];
+
 export default function ChessCompetition() {
   const { publicKey } = useWallet();
   const [user, setUser] = useState<User | null>(null);
@@ -231,12 +313,25 @@ export default function ChessCompetition() {
   const [matchStatus, setMatchStatus] = useState<MatchStatus>({
     status: 'idle'
   });
+  const [activeMatchId, setActiveMatchId] = useState<string | null>(null);
+  // The games of the match set being followed, in playing order
+  const [setMatchIds, setSetMatchIds] = useState<string[]>([]);
+  const liveMatch = useMatchStream(activeMatchId);
+  const gameIndex = activeMatchId ? setMatchIds.indexOf(activeMatchId) : -1;
   const [uploadState, setUploadState] = useState<UploadState>({
     file: null,
     uploading: false,
     error: null,
     success: false
   });
+  const [versionNotes, setVersionNotes] = useState("");
+  // Uploads go to the named agent, which is created on its first upload
+  const [agentName, setAgentName] = useState("");
+  const [versionsKey, setVersionsKey] = useState(0);
+  // Practice matches are unrated games against the chosen house bot
+  const [houseBots, setHouseBots] = useState<HouseBot[]>([]);
+  const [opponent, setOpponent] = useState('');
+  const opponentBot = houseBots.find(bot => bot.id === opponent);
 
   const fetchUserData = useCallback(async () => {
     if (!publicKey) {
@@ -308,6 +403,44 @@ export default function ChessCompetition() {
     }
   };
 
+  useEffect(() => {
+    const fetchHouseBots = async () => {
+      try {
+        const response = await fetch('/api/chess/house-bots');
+        if (!response.ok) throw new Error('Failed to fetch house bots');
+        const data = await response.json();
+        setHouseBots(data.bots);
+        setOpponent(current => current || data.default);
+      } catch (error) {
+        console.error('Failed to fetch house bots:', error);
+      }
+    };
+    fetchHouseBots();
+  }, []);
+
+  // Mirror the live match stream into the status panel
+  useEffect(() => {
+    if (!activeMatchId || liveMatch.status === 'idle') return;
+    const message = liveMatch.error || liveMatch.message;
+    setMatchStatus({
+      status: liveMatch.status === 'initializing' ? 'running' : liveMatch.status as MatchStatus['status'],
+      message: setMatchIds.length > 1 && gameIndex !== -1 && message
+        ? `Game ${gameIndex + 1} of ${setMatchIds.length}: ${message}`
+        : message,
+      result: liveMatch.result ?? undefined,
+      engineOutput: liveMatch.engineOutput
+    });
+  }, [activeMatchId, liveMatch, setMatchIds, gameIndex]);
+
+  // The games of a set are followed one after another
+  useEffect(() => {
+    if (!liveMatch.done || liveMatch.status !== 'completed') return;
+    const nextMatchId = gameIndex !== -1 ? setMatchIds[gameIndex + 1] : undefined;
+    if (!nextMatchId) return;
+    const timer = setTimeout(() => setActiveMatchId(nextMatchId), NEXT_GAME_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [liveMatch.done, liveMatch.status, gameIndex, setMatchIds]);
+
   // Refresh leaderboard after match completion
   useEffect(() => {
     if (matchStatus.status === 'completed') {
@@ -322,8 +455,8 @@ export default function ChessCompetition() {
       return;
     }
 
-    if (!file.name.endsWith('.cpp')) {
-      setUploadState(prev => ({ ...prev, error: 'Only C++ (.cpp) files are allowed' }));
+    if (!AGENT_SOURCE_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension))) {
+      setUploadState(prev => ({ ...prev, error: `Only ${AGENT_SOURCE_EXTENSIONS.join(', ')} files are allowed` }));
       return;
     }
 
@@ -356,6 +489,12 @@ export default function ChessCompetition() {
       const formData = new FormData();
       formData.append('file', uploadState.file);
       formData.append('wallet', publicKey.toString());
+      if (agentName.trim()) {
+        formData.append('name', agentName.trim());
+      }
+      if (versionNotes.trim()) {
+        formData.append('notes', versionNotes.trim());
+      }
 
       console.log('Uploading file:', uploadState.file.name);
 
@@ -367,15 +506,21 @@ export default function ChessCompetition() {
 
       if (!uploadResponse.ok) {
         const errorData = await uploadResponse.json();
+        // A source that did not build or failed the UCI check is still kept as a version, with its report
+        if (errorData.build) {
+          setVersionsKey(key => key + 1);
+        }
         throw new Error(errorData.error || errorData.message || 'Upload failed');
       }
 
       const uploadData = await uploadResponse.json();
       console.log('Upload successful:', uploadData);
+      setVersionNotes("");
+      setVersionsKey(key => key + 1);
 
       setMatchStatus({
         status: 'running',
-        message: 'Starting match against aggressive bot...'
+        message: `Starting practice match against ${opponentBot?.name ?? 'the house bot'}...`
       });
 
       // Use the Next.js API route for match creation
@@ -386,85 +531,21 @@ export default function ChessCompetition() {
         },
         body: JSON.stringify({
           fileId: uploadData.fileId,
-          walletAddress: publicKey.toString()
+          walletAddress: publicKey.toString(),
+          ...(opponent ? { opponent } : {})
         }),
       });
 
       if (!matchResponse.ok) {
         const errorData = await matchResponse.json();
-        throw new Error(errorData.message || 'Failed to start match');
+        throw new Error(errorData.error || errorData.message || 'Failed to start match');
       }
 
       const matchData = await matchResponse.json();
-      
-      // Start polling for match status
-      let pollCount = 0;
-      const maxPolls = 150; // 5 minutes at 2-second intervals
-      const pollInterval = 2000;
-      
-      const pollMatchStatus = async () => {
-        try {
-          console.log(`Polling match status (attempt ${pollCount + 1}/${maxPolls})`);
-          
-          // Use the Next.js API route
-          const resultResponse = await fetch(`/api/chess/match?matchId=${matchData.matchId}`);
-          
-          if (!resultResponse.ok) {
-            const errorData = await resultResponse.json();
-            console.error('Match status error:', errorData);
-            setMatchStatus({
-              status: 'error',
-              message: errorData.error || errorData.message || 'Failed to check match status'
-            });
-            return true; // Stop polling
-          }
-          
-          const resultData = await resultResponse.json();
-          console.log('Match status update:', resultData);
-          
-          setMatchStatus({
-            status: resultData.status,
-            message: resultData.message,
-            result: resultData.result,
-            engineOutput: resultData.engineOutput
-          });
-          
-          return resultData.status === 'completed'; // Stop polling if match is completed
-          
-        } catch (error) {
-          console.error('Error polling match status:', error);
-          pollCount++;
-          if (pollCount >= maxPolls) {
-            setMatchStatus({
-              status: 'error',
-              message: 'Failed to check match status. Please try again.'
-            });
-            return true; // Stop polling
-          }
-          return false; // Continue polling
-        }
-      };
-      
-      // Initial poll
-      let shouldStop = await pollMatchStatus();
-      
-      // Continue polling until we get a completed or error status
-      const intervalId = setInterval(async () => {
-        pollCount++;
-        if (pollCount >= maxPolls) {
-          clearInterval(intervalId);
-          setMatchStatus({
-            status: 'error',
-            message: 'Match timed out. Please try again.'
-          });
-          return;
-        }
-        
-        shouldStop = await pollMatchStatus();
-        if (shouldStop) {
-          clearInterval(intervalId);
-        }
-      }, pollInterval);
+
+      // Follow the set's games live over the event stream, starting with the first
+      setSetMatchIds(matchData.matchIds ?? [matchData.matchId]);
+      setActiveMatchId(matchData.matchId);
 
       setUploadState(prev => ({ 
         ...prev, 
@@ -512,7 +593,8 @@ export default function ChessCompetition() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          walletAddress: publicKey.toString()
+          walletAddress: publicKey.toString(),
+          ...(opponent ? { opponent } : {})
         }),
       });
 
@@ -521,78 +603,13 @@ export default function ChessCompetition() {
       }
 
       const matchData = await response.json();
-      
-      // Start polling for match status
-      let pollCount = 0;
-      const maxPolls = 150; // 5 minutes at 2-second intervals
-      const pollInterval = 2000;
-      
-      const pollMatchStatus = async () => {
-        try {
-          console.log(`Polling match status (attempt ${pollCount + 1}/${maxPolls})`);
-          
-          // Use the matchId from the initial match response
-          if (!matchData.matchId) {
-            throw new Error('No match ID available');
-          }
-          
-          const resultResponse = await fetch(`/api/chess/match?matchId=${matchData.matchId}`);
-          const resultData = await resultResponse.json();
-          
-          console.log('Match status update:', resultData);
-          
-          if (!resultResponse.ok || resultData.status === 'error') {
-            setMatchStatus({
-              status: 'error',
-              message: resultData.message || 'An error occurred during the match'
-            });
-            return true; // Stop polling
-          }
-          
-          setMatchStatus({
-            status: resultData.status,
-            message: resultData.message,
-            result: resultData.result,
-            engineOutput: resultData.engineOutput
-          });
-          
-          return resultData.status === 'completed'; // Stop polling if match is completed
-          
-        } catch (error) {
-          console.error('Error polling match status:', error);
-          pollCount++;
-          if (pollCount >= maxPolls) {
-            setMatchStatus({
-              status: 'error',
-              message: 'Failed to check match status. Please try again.'
-            });
-            return true; // Stop polling
-          }
-          return false; // Continue polling
-        }
-      };
-      
-      // Initial poll
-      let shouldStop = await pollMatchStatus();
-      
-      // Continue polling until we get a completed or error status
-      const intervalId = setInterval(async () => {
-        pollCount++;
-        if (pollCount >= maxPolls) {
-          clearInterval(intervalId);
-          setMatchStatus({
-            status: 'error',
-            message: 'Match timed out. Please try again.'
-          });
-          return;
-        }
-        
-        shouldStop = await pollMatchStatus();
-        if (shouldStop) {
-          clearInterval(intervalId);
-        }
-      }, pollInterval);
+      if (!matchData.matchId) {
+        throw new Error('No match ID available');
+      }
 
+      // Follow the set's games live over the event stream, starting with the first
+      setSetMatchIds(matchData.matchIds ?? [matchData.matchId]);
+      setActiveMatchId(matchData.matchId);
     } catch (error) {
       console.error('Error starting match:', error);
       setMatchStatus({
@@ -624,7 +641,7 @@ export default function ChessCompetition() {
           <div className="space-y-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Upload Agent File (.cpp)
+                Upload Agent Source
               </label>
               <div className="flex items-center space-x-4">
                 <div className="flex-1">
@@ -650,14 +667,14 @@ export default function ChessCompetition() {
                           <input
                             type="file"
                             className="sr-only"
-                            accept=".cpp"
+                            accept={AGENT_SOURCE_EXTENSIONS.join(',')}
                             onChange={handleFileChange}
                           />
                         </label>
                         <p className="pl-1 text-black">or drag and drop</p>
                       </div>
                       <p className="text-xs text-black">
-                        C++ files only (.cpp)
+                        C++, Rust, Go, Python, JavaScript or TypeScript
                       </p>
                     </div>
                   </div>
@@ -674,7 +691,47 @@ export default function ChessCompetition() {
                   {uploadState.uploading ? 'Uploading...' : 'Upload'}
                 </button>
               </div>
+              <Input
+                className="mt-3"
+                placeholder="Agent name (needed once you have several agents)"
+                value={agentName}
+                onChange={event => setAgentName(event.target.value)}
+              />
+              <Input
+                className="mt-3"
+                placeholder="Version notes (optional)"
+                maxLength={500}
+                value={versionNotes}
+                onChange={event => setVersionNotes(event.target.value)}
+              />
             </div>
+
+            {houseBots.length > 0 && (
+              <div>
+                <label htmlFor="practice-opponent" className="block text-sm font-medium text-gray-700 mb-2">
+                  Practice Opponent
+                </label>
+                <select
+                  id="practice-opponent"
+                  value={opponent}
+                  onChange={event => setOpponent(event.target.value)}
+                  className="block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-black focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {HOUSE_BOT_GROUPS.map(group => (
+                    <optgroup key={group.label} label={group.label}>
+                      {houseBots.filter(bot => group.styles.includes(bot.style)).map(bot => (
+                        <option key={bot.id} value={bot.id} disabled={!bot.available}>
+                          {bot.name}{bot.available ? '' : ' (unavailable)'}
+                        </option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  {opponentBot ? `${opponentBot.description}. ` : ''}Practice games are unrated.
+                </p>
+              </div>
+            )}
             
             {/* Status Messages */}
             {uploadState.error && (
@@ -709,7 +766,9 @@ export default function ChessCompetition() {
           </div>
         </div>
 
-        
+
+        {publicKey && <AgentVersionsPanel walletAddress={publicKey.toString()} refreshKey={versionsKey} />}
+
         {/* Engine Status with more detail */}
         <div className="bg-white rounded-lg shadow p-6 mb-8">
           <h2 className="text-2xl font-bold mb-4">Match Status</h2>
@@ -748,8 +807,28 @@ export default function ChessCompetition() {
               </div>
             </div>
 
+            {/* Live moves and clocks while the match is played */}
+            {activeMatchId && !liveMatch.done && liveMatch.moves.length > 0 && (
+              <LiveMatchPanel moves={liveMatch.moves} clock={liveMatch.clock} />
+            )}
+
             {/* Match Result Display */}
             <MatchResultDisplay {...matchStatus} />
+
+            <div className="flex flex-wrap gap-3">
+              {activeMatchId && matchStatus.status === 'completed' && (
+                <Button asChild variant="outline">
+                  <Link href={`/competitions/chess/matches/${activeMatchId}`}>
+                    {setMatchIds.length > 1 ? `Replay game ${gameIndex + 1}` : 'Replay this match'}
+                  </Link>
+                </Button>
+              )}
+              {publicKey && (
+                <Button asChild variant="ghost">
+                  <Link href={`/competitions/chess/agents/${publicKey.toString()}`}>View my match history</Link>
+                </Button>
+              )}
+            </div>
           </div>
         </div>
       </main>
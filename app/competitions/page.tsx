@@ -3,6 +3,7 @@ import { Button } from "@/components/ui/button"
 import CompetitionsNavbar from "@/components/competitions-navbar"
 import Footer from "@/components/footer"
 import { Navbar } from "@/components/navbar"
+import { CompetitionBrackets } from "@/components/tournament-bracket"
 import { Brain, Castle, MessageSquare } from 'lucide-react';
 
 const getIcon = (name: string) => {
@@ -100,6 +101,7 @@ export default function CompetitionsPage() {
             ))}
           </div>
 
+          <CompetitionBrackets />
         </main>
         <Footer />
 
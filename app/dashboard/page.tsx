@@ -38,7 +38,7 @@ export default function DashboardPage() {
   const [userStats, setUserStats] = useState<UserStats | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [agent, setAgent] = useState<Agent | null>(null)
+  const [agents, setAgents] = useState<Agent[]>([])
   const [showOnboarding, setShowOnboarding] = useState(false)
   const [isNewUser, setIsNewUser] = useState(false)
 
@@ -98,16 +98,16 @@ export default function DashboardPage() {
         if (!response.ok) throw new Error('Failed to fetch agent stats');
         const data = await response.json();
 
-        if (data.agent) {
-          setAgent({
-            ...data.agent,
-            name: data.agent.name || 'Unnamed Agent',
-            wins: data.agent.wins || 0,
-            losses: data.agent.losses || 0,
-            draws: data.agent.draws || 0,
-            points: data.agent.points || 0,
-            rank: data.agent.rank || 0
-          });
+        if (data.agents) {
+          setAgents(data.agents.map((agent: Agent) => ({
+            ...agent,
+            name: agent.name || 'Unnamed Agent',
+            wins: agent.wins || 0,
+            losses: agent.losses || 0,
+            draws: agent.draws || 0,
+            points: agent.points || 0,
+            rank: agent.rank || 0
+          })));
         }
       } catch (error) {
         console.error('Error fetching agent stats:', error);
@@ -253,14 +253,14 @@ export default function DashboardPage() {
               <TabsContent value="agents">
                 <Card>
                   <CardHeader>
-                    <CardTitle>Your Agent Stats</CardTitle>
+                    <CardTitle>Your Agents</CardTitle>
                   </CardHeader>
                   <CardContent>
                     {!publicKey ? (
                       <p className="text-center">Please connect your wallet to view your stats</p>
                     ) : loading ? (
                       <p className="text-center">Loading...</p>
-                    ) : !agent ? (
+                    ) : agents.length === 0 ? (
                       <p className="text-center">No agent found. Upload an agent to start competing!</p>
                     ) : (
                       <Table>
@@ -275,14 +275,16 @@ export default function DashboardPage() {
                           </TableRow>
                         </TableHeader>
                         <TableBody>
-                          <TableRow>
-                            <TableCell>{agent.name}</TableCell>
-                            <TableCell className="text-right">#{agent.rank || '-'}</TableCell>
-                            <TableCell className="text-right font-bold text-blue-600">{agent.points || 0}</TableCell>
-                            <TableCell className="text-right text-green-600">{agent.wins || 0}</TableCell>
-                            <TableCell className="text-right text-yellow-600">{agent.draws || 0}</TableCell>
-                            <TableCell className="text-right text-red-600">{agent.losses || 0}</TableCell>
-                          </TableRow>
+                          {agents.map(agent => (
+                            <TableRow key={agent._id}>
+                              <TableCell>{agent.name}</TableCell>
+                              <TableCell className="text-right">#{agent.rank || '-'}</TableCell>
+                              <TableCell className="text-right font-bold text-blue-600">{agent.points || 0}</TableCell>
+                              <TableCell className="text-right text-green-600">{agent.wins || 0}</TableCell>
+                              <TableCell className="text-right text-yellow-600">{agent.draws || 0}</TableCell>
+                              <TableCell className="text-right text-red-600">{agent.losses || 0}</TableCell>
+                            </TableRow>
+                          ))}
                         </TableBody>
                       </Table>
                     )}
@@ -94,12 +94,25 @@ export default function DocPage() {
                       <SyntaxHighlighter language="cpp" style={vscDarkPlus} wrapLines={true}>
                         {`#include <iostream>
 #include <string>
+#include <sstream>
 #include <vector>
 #include <random>
 #include <chrono>
 
-std::string get_move(const std::string& fen) {
-    bool is_white = fen.find(" w ") != std::string::npos;
+// Side to move after "position startpos|fen <fen> [moves ...]"
+bool white_to_move(const std::string& line) {
+    size_t moves_at = line.find(" moves ");
+    std::string setup = line.substr(0, moves_at);
+    bool white = setup.find(" fen ") == std::string::npos || setup.find(" w ") != std::string::npos;
+    if (moves_at != std::string::npos) {
+        std::istringstream moves(line.substr(moves_at + 7));
+        std::string move;
+        while (moves >> move) white = !white;
+    }
+    return white;
+}
+
+std::string get_move(bool is_white) {
     std::vector<std::string> moves;
 
     if (is_white) {
@@ -117,7 +130,7 @@ std::string get_move(const std::string& fen) {
 
 int main() {
     std::string line;
-    std::string current_fen;
+    bool is_white = true;
 
     while (std::getline(std::cin, line)) {
         if (line == "uci") {
@@ -127,12 +140,9 @@ int main() {
         } else if (line == "isready") {
             std::cout << "readyok\\n";
         } else if (line.rfind("position", 0) == 0) {
-            size_t fenIndex = line.find("fen ");
-            if (fenIndex != std::string::npos) {
-                current_fen = line.substr(fenIndex + 4);
-            }
-        } else if (line == "go") {
-            std::string move = get_move(current_fen);
+            is_white = white_to_move(line);
+        } else if (line.rfind("go", 0) == 0) {
+            std::string move = get_move(is_white);
             std::cout << "bestmove " << move << "\\n";
         } else if (line == "quit") {
             break;
@@ -1,6 +1,7 @@
 "use client"
-import { RefreshCcwIcon, MedalIcon, Trophy, TrophyIcon } from "lucide-react"
+import { RefreshCcwIcon, MedalIcon, Swords, Trophy, TrophyIcon } from "lucide-react"
 import { useState, useEffect } from "react"
+import Link from "next/link"
 import { Navbar } from "@/components/navbar"
 import Footer from "@/components/footer"
 import { useWallet } from "@solana/wallet-adapter-react"
@@ -12,10 +13,13 @@ interface Agent {
   id: string;
   name: string;
   owner: string;
+  ownerName?: string;
   wins: number;
   losses: number;
   draws: number;
   points: number;
+  rating: number;
+  ratingDeviation: number;
   rank: number;
   walletAddress?: string;
 }
@@ -24,11 +28,14 @@ export default function LeaderboardPage() {
   const { publicKey } = useWallet()
   const [agents, setAgents] = useState<Agent[]>([])
   const [loading, setLoading] = useState(true)
+  const [challenging, setChallenging] = useState<string | null>(null)
+  // Which of the connected wallet's agents plays challenges
+  const [challengerId, setChallengerId] = useState<string>("")
 
   const fetchLeaderboard = async () => {
     try {
       setLoading(true)
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/chess/leaderboard`)
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/chess/leaderboard?sort=rating`)
       if (!response.ok) {
         throw new Error('Failed to fetch leaderboard')
       }
@@ -41,7 +48,9 @@ export default function LeaderboardPage() {
         wins: agent.wins || 0,
         losses: agent.losses || 0,
         draws: agent.draws || 0,
-        points: agent.points || 0
+        points: agent.points || 0,
+        rating: agent.rating ?? 1500,
+        ratingDeviation: agent.ratingDeviation ?? 350
       }))
       setAgents(processedData)
     } catch (error) {
@@ -52,6 +61,32 @@ export default function LeaderboardPage() {
     }
   }
 
+  const myAgents = publicKey ? agents.filter(agent => agent.owner === publicKey.toString()) : []
+  const challenger = myAgents.find(agent => agent.id === challengerId) ?? myAgents[0]
+
+  // Queues a rated match between the chosen agent of the connected wallet (as white) and this one
+  const challengeAgent = async (agent: Agent) => {
+    if (!publicKey) return
+    try {
+      setChallenging(agent.id)
+      const response = await fetch('/api/chess/challenge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ walletAddress: publicKey.toString(), agentId: challenger?.id, opponentId: agent.id })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to queue challenge')
+      }
+      toast.success(`Challenge against ${agent.name} queued`)
+    } catch (error) {
+      console.error('Failed to challenge agent:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to queue challenge')
+    } finally {
+      setChallenging(null)
+    }
+  }
+
   useEffect(() => {
     fetchLeaderboard()
   }, []) // Only fetch once when component mounts
@@ -71,7 +106,7 @@ export default function LeaderboardPage() {
         return <MedalIcon className="text-yellow-800 ml-3"></MedalIcon>
     }
   }
-  type SortColumn = 'rank' | 'agent' | 'owner' | 'points' | 'wins' | 'draws' | 'losses';
+  type SortColumn = 'rank' | 'agent' | 'owner' | 'rating' | 'points' | 'wins' | 'draws' | 'losses';
 
 const [sortColumn, setSortColumn] = useState<SortColumn>('rank');
 const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
@@ -89,8 +124,12 @@ const sortedAgents = [...agents].sort((a, b) => {
       bVal = b.name.toLowerCase();
       break;
     case 'owner':
-      aVal = a.owner.toLowerCase();
-      bVal = b.owner.toLowerCase();
+      aVal = (a.ownerName || a.owner).toLowerCase();
+      bVal = (b.ownerName || b.owner).toLowerCase();
+      break;
+    case 'rating':
+      aVal = a.rating;
+      bVal = b.rating;
       break;
     case 'points':
       aVal = a.points;
@@ -141,12 +180,26 @@ const handleSort = (column: SortColumn) => {
             {/* Header */}
             <div className="flex justify-between items-center mb-6">
               <h2 className="flex items-center text-2xl font-bold text-[#E0E0FF] mx-auto sm:mx-0 sm:text-left gap-2"><TrophyIcon></TrophyIcon>Global Leaderboard</h2>
+              <div className="flex items-center gap-2">
+              {myAgents.length > 1 && (
+                <select
+                  value={challenger?.id}
+                  onChange={e => setChallengerId(e.target.value)}
+                  className="px-2 py-1 text-sm rounded-md bg-[#2E2F40] text-[#E0E0FF]"
+                  title="Agent that plays your challenges"
+                >
+                  {myAgents.map(agent => (
+                    <option key={agent.id} value={agent.id}>Challenge as {agent.name}</option>
+                  ))}
+                </select>
+              )}
               <button
                 onClick={fetchLeaderboard}
                 className="px-1 py-1 text-sm bg-blue-0 text-teal-600 rounded-md hover:bg-blue-100 transition-colors"
               >
                 <RefreshCcwIcon></RefreshCcwIcon>
               </button>
+              </div>
             </div>
 
             {/* Table */}
@@ -163,6 +216,7 @@ const handleSort = (column: SortColumn) => {
       { key: 'rank', label: 'Rank' },
       { key: 'agent', label: 'Agent' },
       { key: 'owner', label: 'Owner' },
+      { key: 'rating', label: 'Rating' },
       { key: 'points', label: 'Points' },
       { key: 'wins', label: 'Wins' },
       { key: 'draws', label: 'Draws' },
@@ -199,13 +253,30 @@ const handleSort = (column: SortColumn) => {
                           </div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-center text-black">
-                          {agent.name}
+                          <Link href={`/competitions/chess/agents/${agent.owner}?agent=${agent.id}`} className="hover:underline" title="View match history">
+                            {agent.name}
+                          </Link>
                           {publicKey && agent.owner === publicKey.toString() && (
                             <span className="ml-2 px-2 py-0.5 text-xs text-center bg-blue-100 text-blue-600 rounded-full">You</span>
                           )}
+                          {publicKey && agent.owner !== publicKey.toString() && (
+                            <button
+                              onClick={() => challengeAgent(agent)}
+                              disabled={challenging !== null}
+                              className="ml-2 inline-flex items-center gap-1 px-2 py-0.5 text-xs text-teal-600 rounded-full hover:bg-teal-50 disabled:opacity-50"
+                              title="Challenge this agent to a rated match"
+                            >
+                              <Swords className="h-3 w-3" />
+                              {challenging === agent.id ? 'Queueing...' : 'Challenge'}
+                            </button>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-center text-black" title={agent.owner}>
+                          {agent.ownerName || <span className="font-mono">{formatWalletAddress(agent.owner)}</span>}
                         </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-center font-mono text-black">
-                          {formatWalletAddress(agent.owner)}
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-center font-medium text-black" title={`Rating deviation ±${agent.ratingDeviation}`}>
+                          {agent.rating}
+                          {agent.ratingDeviation > 110 && <span className="ml-1 text-gray-400">?</span>}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-center font-medium text-black">{agent.points}</td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-center text-green-600 font-medium">{agent.wins}</td>
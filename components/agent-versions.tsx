@@ -0,0 +1,264 @@
+"use client"
+
+import { Fragment, useCallback, useEffect, useState } from "react"
+import { toast } from "react-hot-toast"
+import { FileText, History } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+interface AgentBuild {
+  _id: string
+  status: "succeeded" | "failed"
+  language: string
+  toolchainVersion?: string
+  durationMs?: number
+  conformance?: {
+    passed: boolean
+  }
+}
+
+interface ConformanceReport {
+  passed: boolean
+  engineName?: string
+  checks: {
+    name: string
+    passed: boolean
+    detail?: string
+    transcript: { from: "server" | "agent"; line: string }[]
+  }[]
+}
+
+interface AgentVersion {
+  _id: string
+  version: number
+  build?: AgentBuild
+  originalName?: string
+  notes?: string
+  sourceHash: string
+  compiledAt?: string
+  uploadedAt: string
+  stats: {
+    wins: number
+    losses: number
+    draws: number
+  }
+  active: boolean
+}
+
+interface AgentVersions {
+  agent: {
+    _id: string
+    name: string
+    activeVersion?: string
+  }
+  versions: AgentVersion[]
+}
+
+interface WalletVersions {
+  agents: AgentVersions[]
+}
+
+// The conformance report as text under the build log: each check, then what was sent (>) and received (<)
+function formatConformance(report: ConformanceReport): string {
+  const lines = [`UCI check ${report.passed ? "passed" : "failed"}${report.engineName ? ` (${report.engineName})` : ""}`]
+  for (const check of report.checks) {
+    lines.push(`${check.passed ? "PASS" : "FAIL"} ${check.name}${check.detail ? `: ${check.detail}` : ""}`)
+    if (!check.passed) {
+      lines.push(...check.transcript.map(entry => `  ${entry.from === "server" ? ">" : "<"} ${entry.line}`))
+    }
+  }
+  return lines.join("\n")
+}
+
+interface AgentVersionsProps {
+  walletAddress: string
+  // Changes after an upload so the list is fetched again
+  refreshKey?: number
+}
+
+export function AgentVersionsPanel({ walletAddress, refreshKey }: AgentVersionsProps) {
+  const [data, setData] = useState<WalletVersions | null>(null)
+  const [updating, setUpdating] = useState(false)
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/agents/versions?wallet=${walletAddress}`)
+      if (res.status === 404) {
+        setData(null)
+        return
+      }
+      const body = await res.json()
+      if (!res.ok) throw new Error(body.error || "Failed to load versions")
+      setData(body)
+    } catch (error) {
+      console.error("Failed to load agent versions:", error)
+    }
+  }, [walletAddress])
+
+  useEffect(() => {
+    fetchVersions()
+  }, [fetchVersions, refreshKey])
+
+  const changeVersion = async (url: string, success: string) => {
+    setUpdating(true)
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ walletAddress })
+      })
+      const body = await res.json()
+      if (!res.ok) throw new Error(body.error || "Failed to change version")
+      const updated: AgentVersions = body
+      setData(current => current && {
+        agents: current.agents.map(entry => entry.agent._id === updated.agent._id ? updated : entry)
+      })
+      toast.success(success)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to change version")
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  if (!data) return null
+
+  return (
+    <>
+      {data.agents
+        .filter(entry => entry.versions.length > 0)
+        .map(entry => (
+          <AgentVersionsTable
+            key={entry.agent._id}
+            data={entry}
+            updating={updating}
+            onChange={changeVersion}
+          />
+        ))}
+    </>
+  )
+}
+
+interface AgentVersionsTableProps {
+  data: AgentVersions
+  updating: boolean
+  onChange: (url: string, success: string) => void
+}
+
+function AgentVersionsTable({ data, updating, onChange }: AgentVersionsTableProps) {
+  const { agent, versions } = data
+  const activeIndex = versions.findIndex(version => version.active)
+  const [openLog, setOpenLog] = useState<string | null>(null)
+  const [logs, setLogs] = useState<Record<string, string>>({})
+
+  const toggleLog = async (version: AgentVersion) => {
+    if (openLog === version._id) {
+      setOpenLog(null)
+      return
+    }
+    setOpenLog(version._id)
+    if (logs[version._id] !== undefined) return
+
+    try {
+      const res = await fetch(`/api/agents/${agent._id}/versions/${version._id}/build`)
+      const body = await res.json()
+      if (!res.ok) throw new Error(body.error || "Failed to load build log")
+      const log = body.log || "(no output)"
+      setLogs(current => ({
+        ...current,
+        [version._id]: body.conformance ? `${log}\n\n${formatConformance(body.conformance)}` : log
+      }))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load build log")
+      setOpenLog(null)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 my-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">{agent.name} versions</h2>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={updating || activeIndex === -1 || activeIndex === versions.length - 1}
+          onClick={() => onChange(`/api/agents/${agent._id}/rollback`, "Rolled back to the previous version")}
+        >
+          <History className="mr-2 h-4 w-4" />
+          Roll back
+        </Button>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Version</TableHead>
+            <TableHead>Uploaded</TableHead>
+            <TableHead>Build</TableHead>
+            <TableHead>Notes</TableHead>
+            <TableHead className="text-right">W / L / D</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {versions.map(version => (
+            <Fragment key={version._id}>
+              <TableRow>
+                <TableCell className="font-medium">
+                  v{version.version}
+                  {version.originalName && <span className="block text-xs text-gray-500">{version.originalName}</span>}
+                </TableCell>
+                <TableCell>{new Date(version.uploadedAt).toLocaleString()}</TableCell>
+                <TableCell>
+                  {version.build && (
+                    <Badge variant={version.build.status === "succeeded" ? "secondary" : "destructive"}>
+                      {version.build.language} {version.build.status === "succeeded" ? "built" : "failed"}
+                    </Badge>
+                  )}
+                  {version.build?.conformance && (
+                    <Badge variant={version.build.conformance.passed ? "secondary" : "destructive"} className="ml-1">
+                      UCI {version.build.conformance.passed ? "ok" : "failed"}
+                    </Badge>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => toggleLog(version)} title="Build log and UCI check">
+                    <FileText className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+                <TableCell className="max-w-xs truncate">{version.notes || "—"}</TableCell>
+                <TableCell className="text-right font-mono">
+                  {version.stats.wins} / {version.stats.losses} / {version.stats.draws}
+                </TableCell>
+                <TableCell className="text-right">
+                  {version.active ? (
+                    <Badge>Active</Badge>
+                  ) : version.build?.status === "failed" ? null : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={updating}
+                      onClick={() => onChange(
+                        `/api/agents/${agent._id}/versions/${version._id}/activate`,
+                        `Version ${version.version} is now active`
+                      )}
+                    >
+                      Activate
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+              {openLog === version._id && (
+                <TableRow>
+                  <TableCell colSpan={6}>
+                    <pre className="max-h-80 overflow-auto whitespace-pre-wrap rounded bg-gray-900 p-3 text-xs text-gray-100">
+                      {logs[version._id] ?? "Loading build log..."}
+                    </pre>
+                  </TableCell>
+                </TableRow>
+              )}
+            </Fragment>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+import { cn } from "@/lib/utils"
+
+// Solid glyphs for both sides; the piece colour comes from the text colour
+const PIECE_SYMBOLS: Record<string, string> = {
+  k: "♚", q: "♛", r: "♜", b: "♝", n: "♞", p: "♟"
+}
+
+const FILES = "abcdefgh"
+
+// Expands the placement field of a FEN into 64 squares, a8 first
+function parsePlacement(fen: string): (string | null)[] {
+  const squares: (string | null)[] = []
+  for (const char of fen.split(" ")[0]) {
+    if (char === "/") continue
+    if (/\d/.test(char)) {
+      for (let i = 0; i < Number(char); i++) squares.push(null)
+    } else {
+      squares.push(char)
+    }
+  }
+  return squares
+}
+
+interface ChessBoardProps {
+  fen: string
+  // UCI move whose from and to squares are highlighted, e.g. "e2e4"
+  lastMove?: string | null
+  orientation?: "white" | "black"
+  className?: string
+}
+
+export function ChessBoard({ fen, lastMove, orientation = "white", className }: ChessBoardProps) {
+  const squares = parsePlacement(fen)
+  const highlighted = lastMove ? [lastMove.slice(0, 2), lastMove.slice(2, 4)] : []
+  const ranks = orientation === "white" ? [7, 6, 5, 4, 3, 2, 1, 0] : [0, 1, 2, 3, 4, 5, 6, 7]
+  const files = orientation === "white" ? [0, 1, 2, 3, 4, 5, 6, 7] : [7, 6, 5, 4, 3, 2, 1, 0]
+
+  return (
+    <div className={cn("grid grid-cols-8 aspect-square w-full max-w-[480px] overflow-hidden rounded-md border", className)}>
+      {ranks.map(rank => files.map(file => {
+        const name = `${FILES[file]}${rank + 1}`
+        const piece = squares[(7 - rank) * 8 + file]
+        const light = (rank + file) % 2 === 1
+        const isHighlighted = highlighted.includes(name)
+
+        return (
+          <div
+            key={name}
+            title={name}
+            className={cn(
+              "relative flex items-center justify-center select-none text-[min(8vw,44px)] leading-none",
+              light ? "bg-amber-100" : "bg-amber-700",
+              isHighlighted && (light ? "bg-yellow-200" : "bg-yellow-500")
+            )}
+          >
+            {piece && (
+              <span className={piece === piece.toUpperCase() ? "text-white [text-shadow:0_0_2px_#000]" : "text-black"}>
+                {PIECE_SYMBOLS[piece.toLowerCase()]}
+              </span>
+            )}
+            {file === files[0] && (
+              <span className="absolute left-0.5 top-0.5 text-[10px] font-medium text-black/60">{rank + 1}</span>
+            )}
+            {rank === ranks[7] && (
+              <span className="absolute bottom-0.5 right-1 text-[10px] font-medium text-black/60">{FILES[file]}</span>
+            )}
+          </div>
+        )
+      }))}
+    </div>
+  )
+}
@@ -0,0 +1,315 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Download, Pause, Play, Repeat } from "lucide-react"
+import { ChessBoard } from "@/components/chess-board"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { LoadingState } from "@/components/ui/loading-state"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Slider } from "@/components/ui/slider"
+import { formatSearch, type MatchSearch } from "@/hooks/use-match-stream"
+import { cn } from "@/lib/utils"
+
+const AUTOPLAY_INTERVAL_MS = 800
+
+interface ReplayPlayer {
+  player: 1 | 2
+  color: "w" | "b"
+  name: string
+  walletAddress?: string
+}
+
+interface ReplayClock {
+  ply: number
+  whiteMs: number | null
+  blackMs: number | null
+}
+
+// Stockfish's evaluation after a ply, from white's point of view
+interface ReplayEvaluation {
+  ply: number
+  scoreCp?: number
+  scoreMate?: number
+}
+
+interface ReplayMatch {
+  matchId: string
+  status: string
+  message: string
+  players: ReplayPlayer[]
+  game?: number
+  // False for practice games against house bots
+  rated?: boolean
+  // Suite position the game started from
+  opening?: { suite: string; name: string }
+  moves: string[]
+  fens: string[]
+  result?: {
+    winner: string
+    reason: string
+    detail?: string
+    // Present when the game was decided by evaluation
+    adjudication?: {
+      rule: string
+      ply: number
+      evaluations: ReplayEvaluation[]
+      engine?: string
+    }
+    clocks?: ReplayClock[]
+    searches?: MatchSearch[]
+  }
+  createdAt?: string
+}
+
+const formatClock = (ms: number | null | undefined) => {
+  if (ms === null || ms === undefined) return null
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, "0")}`
+}
+
+const formatEvaluation = ({ scoreCp, scoreMate }: ReplayEvaluation) => {
+  if (scoreMate !== undefined) return `#${scoreMate}`
+  const pawns = (scoreCp ?? 0) / 100
+  return `${pawns > 0 ? "+" : ""}${pawns.toFixed(2)}`
+}
+
+export function MatchReplay({ matchId }: { matchId: string }) {
+  const [match, setMatch] = useState<ReplayMatch | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [ply, setPly] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const [orientation, setOrientation] = useState<"white" | "black">("white")
+
+  useEffect(() => {
+    async function fetchMatch() {
+      try {
+        setLoading(true)
+        const res = await fetch(`/api/chess/match?matchId=${encodeURIComponent(matchId)}`)
+        const data = await res.json()
+        if (!res.ok) {
+          throw new Error(data.error || "Failed to load match")
+        }
+        setMatch(data)
+        setPly(0)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load match")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchMatch()
+  }, [matchId])
+
+  const lastPly = match ? Math.min(match.moves.length, match.fens.length - 1) : 0
+
+  const goTo = useCallback((target: number) => {
+    setPly(Math.max(0, Math.min(lastPly, target)))
+  }, [lastPly])
+
+  // Autoplay stops by itself on the final position
+  useEffect(() => {
+    if (!playing) return
+    if (ply >= lastPly) {
+      setPlaying(false)
+      return
+    }
+    const timer = setTimeout(() => setPly(ply + 1), AUTOPLAY_INTERVAL_MS)
+    return () => clearTimeout(timer)
+  }, [playing, ply, lastPly])
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return
+      if (event.key === "ArrowLeft") goTo(ply - 1)
+      else if (event.key === "ArrowRight") goTo(ply + 1)
+      else if (event.key === "Home") goTo(0)
+      else if (event.key === "End") goTo(lastPly)
+      else return
+      event.preventDefault()
+      setPlaying(false)
+    }
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [goTo, ply, lastPly])
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingState />
+      </div>
+    )
+  }
+
+  if (error || !match) {
+    return <div className="text-center py-8 text-red-600">{error || "Match not found"}</div>
+  }
+
+  if (match.fens.length === 0) {
+    return <div className="text-center py-8 text-muted-foreground">This match has no recorded positions to replay.</div>
+  }
+
+  const white = match.players.find(player => player.color === "w")
+  const black = match.players.find(player => player.color === "b")
+  const clock = ply > 0 ? match.result?.clocks?.[ply - 1] : undefined
+  const search = ply > 0 ? formatSearch(match.result?.searches?.[ply - 1]) : null
+  // "user" and "bot" are players 1 and 2, who may have either color
+  const winnerPlayer = match.result?.winner === "user" ? 1 : match.result?.winner === "bot" ? 2 : null
+  const winnerName = match.players.find(player => player.player === winnerPlayer)?.name ?? null
+
+  const step = (target: number) => {
+    setPlaying(false)
+    goTo(target)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center gap-2">
+          {white?.name || "White"} vs {black?.name || "Black"}
+          {match.game && <Badge variant="outline">Game {match.game}</Badge>}
+          {match.rated === false && <Badge variant="outline">Unrated</Badge>}
+          {match.opening && <Badge variant="outline">{match.opening.name}</Badge>}
+          {match.result && (
+            <Badge variant={winnerName ? "default" : "secondary"}>
+              {winnerName ? `${winnerName} won` : "Draw"}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription className="flex flex-wrap items-center justify-between gap-2">
+          <span>
+            {match.result
+              ? `${match.result.reason.replace(/_/g, " ")}${match.result.detail ? ` — ${match.result.detail}` : ""}`
+              : match.message}
+          </span>
+          {match.status === "completed" && (
+            <Button asChild variant="outline" size="sm">
+              <a href={`/api/chess/match/${match.matchId}/pgn`} download>
+                <Download className="mr-2 h-4 w-4" />
+                Download PGN
+              </a>
+            </Button>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-[minmax(0,480px)_1fr]">
+        <div className="space-y-4">
+          <div className="flex justify-between text-sm font-mono">
+            <span>{orientation === "white" ? black?.name : white?.name}</span>
+            <span>{formatClock(orientation === "white" ? clock?.blackMs : clock?.whiteMs)}</span>
+          </div>
+          <ChessBoard
+            fen={match.fens[ply]}
+            lastMove={ply > 0 ? match.moves[ply - 1] : null}
+            orientation={orientation}
+          />
+          <div className="flex justify-between text-sm font-mono">
+            <span>{orientation === "white" ? white?.name : black?.name}</span>
+            <span>{formatClock(orientation === "white" ? clock?.whiteMs : clock?.blackMs)}</span>
+          </div>
+          {search && <p className="text-xs font-mono text-muted-foreground break-all">{search}</p>}
+
+          <Slider
+            value={[ply]}
+            min={0}
+            max={Math.max(lastPly, 1)}
+            step={1}
+            disabled={lastPly === 0}
+            onValueChange={([value]) => step(value)}
+          />
+
+          <div className="flex items-center justify-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => step(0)} disabled={ply === 0} aria-label="First move">
+              <ChevronsLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => step(ply - 1)} disabled={ply === 0} aria-label="Previous move">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => {
+                if (!playing && ply >= lastPly) setPly(0)
+                setPlaying(!playing)
+              }}
+              disabled={lastPly === 0}
+              aria-label={playing ? "Pause" : "Play"}
+            >
+              {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => step(ply + 1)} disabled={ply >= lastPly} aria-label="Next move">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => step(lastPly)} disabled={ply >= lastPly} aria-label="Last move">
+              <ChevronsRight className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setOrientation(orientation === "white" ? "black" : "white")}
+              aria-label="Flip board"
+            >
+              <Repeat className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="font-medium">Moves</h4>
+          <ScrollArea className="h-[420px] rounded-md border p-3">
+            {lastPly === 0 ? (
+              <p className="text-sm text-muted-foreground">No moves were played.</p>
+            ) : (
+              <div className="grid grid-cols-[2.5rem_1fr_1fr] gap-y-1 text-sm font-mono">
+                {Array.from({ length: Math.ceil(lastPly / 2) }).map((_, i) => (
+                  <div key={i} className="contents">
+                    <span className="text-muted-foreground">{i + 1}.</span>
+                    {[i * 2 + 1, i * 2 + 2].map(target => target <= lastPly ? (
+                      <button
+                        key={target}
+                        onClick={() => step(target)}
+                        className={cn(
+                          "rounded px-2 py-0.5 text-left hover:bg-accent",
+                          target === ply && "bg-primary text-primary-foreground hover:bg-primary"
+                        )}
+                      >
+                        {match.moves[target - 1]}
+                      </button>
+                    ) : <span key={target} />)}
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+          <p className="text-xs text-muted-foreground">Use the arrow keys to step through the game.</p>
+          {match.result?.adjudication && (
+            <div className="space-y-1 pt-2">
+              <h4 className="font-medium">Adjudication</h4>
+              <p className="text-sm text-muted-foreground">
+                {match.result.adjudication.rule.replace(/_/g, " ")} rule after ply {match.result.adjudication.ply}
+                {match.result.adjudication.engine ? ` (${match.result.adjudication.engine})` : ""}
+              </p>
+              <div className="flex flex-wrap gap-1 text-xs font-mono">
+                {match.result.adjudication.evaluations.map(evaluation => (
+                  <button
+                    key={evaluation.ply}
+                    onClick={() => step(evaluation.ply)}
+                    className={cn(
+                      "rounded border px-2 py-0.5 hover:bg-accent",
+                      evaluation.ply === ply && "bg-primary text-primary-foreground hover:bg-primary"
+                    )}
+                  >
+                    {evaluation.ply}: {formatEvaluation(evaluation)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
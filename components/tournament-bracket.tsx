@@ -0,0 +1,243 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Crown, PlayCircle } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { LoadingState } from "@/components/ui/loading-state"
+import { useCompetitions } from "@/hooks/use-competitions"
+import { cn } from "@/lib/utils"
+
+// How often a running bracket is refreshed
+const BRACKET_POLL_INTERVAL_MS = 10000
+
+interface BracketEntrant {
+  agentId: string
+  name: string
+  walletAddress?: string
+  seed: number
+}
+
+interface BracketGame {
+  kind: "main" | "tiebreak" | "armageddon"
+  whiteSlot: 0 | 1
+  matchId?: string
+  whiteScore?: number
+  completed: boolean
+}
+
+interface BracketNode {
+  key: string
+  bracket: "winners" | "losers" | "final"
+  round: number
+  slot: number
+  // null until the entrant is known, or for a bye
+  entrants: (BracketEntrant | null)[]
+  byes: boolean[]
+  games: BracketGame[]
+  winner?: string
+  outcome?: "played" | "walkover" | "skipped"
+  completed: boolean
+}
+
+interface Bracket {
+  competitionId: string
+  title: string
+  status: string
+  format: "single_elimination" | "double_elimination"
+  tiebreak?: "armageddon" | "color_swapped_pair"
+  winnerAgent?: string
+  nodes: BracketNode[]
+}
+
+const SECTION_TITLES: Record<BracketNode["bracket"], string> = {
+  winners: "Winners bracket",
+  losers: "Losers bracket",
+  final: "Grand final"
+}
+
+// Points an entrant has scored across all games of a node
+const pointsFor = (node: BracketNode, slot: 0 | 1) => node.games.reduce((total, game) => {
+  if (!game.completed || game.whiteScore === undefined) return total
+  return total + (game.whiteSlot === slot ? game.whiteScore : 1 - game.whiteScore)
+}, 0)
+
+function roundLabel(node: BracketNode, lastRound: number) {
+  if (node.bracket === "final") return node.round === 1 ? "Grand final" : "Reset"
+  if (node.bracket === "winners" && node.round === lastRound) return "Final"
+  if (node.bracket === "winners" && node.round === lastRound - 1) return "Semifinals"
+  return `Round ${node.round}`
+}
+
+function BracketNodeCard({ node }: { node: BracketNode }) {
+  const lastGame = [...node.games].reverse().find(game => game.matchId)
+  const tiebreakGames = node.games.filter(game => game.kind !== "main").length
+  const live = node.games.some(game => !game.completed)
+
+  return (
+    <div className={cn("w-56 rounded-md border bg-card text-sm", live && "border-primary")}>
+      {[0, 1].map(slot => {
+        const entrant = node.entrants[slot]
+        const won = !!entrant && node.completed && node.winner === entrant.agentId
+        return (
+          <div
+            key={slot}
+            className={cn(
+              "flex items-center justify-between gap-2 px-3 py-1.5",
+              slot === 0 && "border-b",
+              node.completed && !won && "text-muted-foreground"
+            )}
+          >
+            <span className={cn("truncate", won && "font-semibold")}>
+              {!entrant ? (node.byes[slot] ? "Bye" : "TBD") : (
+                <>
+                  <span className="mr-1 text-xs text-muted-foreground">{entrant.seed}</span>
+                  {entrant.name}
+                </>
+              )}
+            </span>
+            {node.games.length > 0 && <span className="font-mono">{pointsFor(node, slot as 0 | 1)}</span>}
+          </div>
+        )
+      })}
+      {(tiebreakGames > 0 || lastGame || node.outcome === "walkover") && (
+        <div className="flex items-center justify-between gap-2 border-t px-3 py-1 text-xs text-muted-foreground">
+          <span>
+            {node.outcome === "walkover" ? "Walkover"
+              : node.games.some(game => game.kind === "armageddon") ? "Armageddon"
+              : tiebreakGames > 0 ? `${tiebreakGames} tiebreak game${tiebreakGames === 1 ? "" : "s"}`
+              : live ? "In progress" : ""}
+          </span>
+          {lastGame?.matchId && (
+            <Link href={`/competitions/chess/matches/${lastGame.matchId}`} className="inline-flex items-center gap-1 hover:text-foreground">
+              <PlayCircle className="h-3 w-3" />
+              Replay
+            </Link>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function BracketSection({ nodes }: { nodes: BracketNode[] }) {
+  const rounds = Array.from(new Set(nodes.map(node => node.round))).sort((a, b) => a - b)
+  const lastRound = rounds[rounds.length - 1]
+
+  return (
+    <div className="flex gap-6 overflow-x-auto pb-2">
+      {rounds.map(round => {
+        const roundNodes = nodes.filter(node => node.round === round).sort((a, b) => a.slot - b.slot)
+        return (
+          <div key={round} className="flex shrink-0 flex-col justify-around gap-4">
+            <h4 className="text-xs font-medium uppercase text-muted-foreground">{roundLabel(roundNodes[0], lastRound)}</h4>
+            {roundNodes.map(node => <BracketNodeCard key={node.key} node={node} />)}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export function TournamentBracket({ competitionId }: { competitionId: string }) {
+  const [bracket, setBracket] = useState<Bracket | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    async function fetchBracket() {
+      try {
+        const res = await fetch(`/api/competitions/${competitionId}/bracket`)
+        const data = await res.json()
+        if (!res.ok) {
+          throw new Error(data.error || "Failed to load bracket")
+        }
+        if (cancelled) return
+        setBracket(data)
+        setError(null)
+        if (data.status !== "completed") {
+          timer = setTimeout(fetchBracket, BRACKET_POLL_INTERVAL_MS)
+        }
+      } catch (err) {
+        if (cancelled) return
+        setError(err instanceof Error ? err.message : "Failed to load bracket")
+        timer = setTimeout(fetchBracket, BRACKET_POLL_INTERVAL_MS)
+      }
+    }
+
+    fetchBracket()
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [competitionId])
+
+  if (!bracket) {
+    return error
+      ? <div className="text-center py-8 text-red-600">{error}</div>
+      : <div className="flex justify-center py-8"><LoadingState /></div>
+  }
+
+  const champion = bracket.winnerAgent
+    ? bracket.nodes.flatMap(node => node.entrants).find(entrant => entrant?.agentId === bracket.winnerAgent)
+    : null
+  // An unplayed grand final reset only clutters the tree
+  const nodes = bracket.nodes.filter(node => !(node.bracket === "final" && node.round === 2 && node.outcome === "skipped"))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center gap-2">
+          {bracket.title}
+          <Badge variant={bracket.status === "completed" ? "secondary" : "default"} className="capitalize">
+            {bracket.status === "completed" ? "Completed" : "Live"}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          {bracket.format === "double_elimination" ? "Double elimination" : "Single elimination"}
+          {" · draws settled by "}
+          {bracket.tiebreak === "color_swapped_pair" ? "color-swapped pairs" : "armageddon"}
+        </CardDescription>
+        {champion && (
+          <p className="flex items-center gap-2 font-medium">
+            <Crown className="h-4 w-4 text-yellow-500" />
+            {champion.name} won the tournament
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {(["winners", "losers", "final"] as const).map(side => {
+          const sectionNodes = nodes.filter(node => node.bracket === side)
+          if (sectionNodes.length === 0) return null
+          return (
+            <div key={side} className="space-y-3">
+              {bracket.format === "double_elimination" && <h3 className="font-medium">{SECTION_TITLES[side]}</h3>}
+              <BracketSection nodes={sectionNodes} />
+            </div>
+          )
+        })}
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
+
+// Brackets of every competition played as a knockout tournament
+export function CompetitionBrackets() {
+  const { competitions, loading } = useCompetitions()
+  const knockouts = competitions.filter(competition => (
+    competition.tournament?.format === "single_elimination" || competition.tournament?.format === "double_elimination"
+  ))
+
+  if (loading || knockouts.length === 0) return null
+
+  return (
+    <section className="space-y-6 pb-12">
+      <h2 className="text-2xl font-bold text-center">Knockout Brackets</h2>
+      {knockouts.map(competition => <TournamentBracket key={competition._id} competitionId={competition._id} />)}
+    </section>
+  )
+}
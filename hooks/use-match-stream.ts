@@ -0,0 +1,142 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+export interface MatchClock {
+  ply: number
+  color: "w" | "b"
+  elapsedMs: number
+  whiteMs: number | null
+  blackMs: number | null
+}
+
+// What the engine that played a move reported about its search; scores are from its side
+export interface MatchSearch {
+  ply: number
+  depth?: number
+  scoreCp?: number
+  scoreMate?: number
+  nodes?: number
+  pv?: string[]
+}
+
+export interface MatchStreamMove {
+  ply: number
+  move: string
+  fen: string
+  clock?: MatchClock
+  search?: MatchSearch
+}
+
+// e.g. "depth 12 · +0.35 · e2e4 e7e5 g1f3", or null when the engine printed no info
+export function formatSearch(search: MatchSearch | undefined): string | null {
+  if (!search) return null
+  const parts: string[] = []
+  if (search.depth !== undefined) parts.push(`depth ${search.depth}`)
+  if (search.scoreMate !== undefined) parts.push(`#${search.scoreMate}`)
+  else if (search.scoreCp !== undefined) parts.push(`${search.scoreCp >= 0 ? "+" : ""}${(search.scoreCp / 100).toFixed(2)}`)
+  if (search.pv?.length) parts.push(search.pv.slice(0, 6).join(" "))
+  return parts.length > 0 ? parts.join(" · ") : null
+}
+
+export interface MatchStreamResult {
+  winner: string
+  reason: string
+  detail?: string
+  moves?: string[]
+  clocks?: MatchClock[]
+  searches?: MatchSearch[]
+}
+
+export interface MatchStreamState {
+  status: string
+  message: string
+  moves: MatchStreamMove[]
+  fen: string | null
+  clock: MatchClock | null
+  result: MatchStreamResult | null
+  engineOutput?: string
+  error: string | null
+  done: boolean
+}
+
+const INITIAL_STATE: MatchStreamState = {
+  status: "idle",
+  message: "",
+  moves: [],
+  fen: null,
+  clock: null,
+  result: null,
+  error: null,
+  done: false
+}
+
+// Follows a match over Server-Sent Events until it completes. Moves are keyed by ply, so the
+// replay the server sends after a reconnect does not duplicate them.
+export function useMatchStream(matchId: string | null) {
+  const [state, setState] = useState<MatchStreamState>(INITIAL_STATE)
+
+  useEffect(() => {
+    if (!matchId) {
+      setState(INITIAL_STATE)
+      return
+    }
+
+    setState({ ...INITIAL_STATE, status: "queued", message: "Connecting to match..." })
+    const source = new EventSource(`/api/chess/match/stream?matchId=${encodeURIComponent(matchId)}`)
+
+    source.addEventListener("status", (event) => {
+      const data = JSON.parse((event as MessageEvent).data)
+      setState(prev => ({
+        ...prev,
+        status: data.status,
+        message: data.message,
+        error: data.status === "error" ? data.message : prev.error
+      }))
+    })
+
+    source.addEventListener("reset", (event) => {
+      const data = JSON.parse((event as MessageEvent).data)
+      setState(prev => ({ ...prev, moves: [], fen: data.fen ?? null, clock: null }))
+    })
+
+    source.addEventListener("move", (event) => {
+      const data: MatchStreamMove = JSON.parse((event as MessageEvent).data)
+      setState(prev => {
+        const moves = prev.moves.slice(0, data.ply - 1)
+        moves[data.ply - 1] = data
+        return { ...prev, moves, fen: data.fen, clock: data.clock ?? prev.clock }
+      })
+    })
+
+    source.addEventListener("result", (event) => {
+      const data = JSON.parse((event as MessageEvent).data)
+      setState(prev => ({
+        ...prev,
+        status: data.status,
+        message: data.message,
+        result: data.result ?? null,
+        engineOutput: data.engineOutput,
+        error: data.status === "error" ? data.message : null,
+        done: true
+      }))
+      source.close()
+    })
+
+    // EventSource reconnects on its own; only give up once the browser has closed the stream
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        setState(prev => prev.done ? prev : {
+          ...prev,
+          status: "error",
+          error: "Lost connection to the match stream",
+          done: true
+        })
+      }
+    }
+
+    return () => source.close()
+  }, [matchId])
+
+  return state
+}
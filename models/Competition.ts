@@ -53,6 +53,38 @@ const CompetitionSchema = new mongoose.Schema({
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User'
   },
+  // Opening suite, from the server's openings directory, that the games start from
+  openings: {
+    suite: String,
+    selection: {
+      type: String,
+      enum: ['sample', 'fixed']
+    },
+    position: Number
+  },
+  // Thresholds for deciding games by Stockfish's evaluation; the server's defaults fill in the rest
+  adjudication: {
+    resignCp: Number,
+    resignPlies: Number,
+    drawCp: Number,
+    drawAfterMove: Number,
+    drawPlies: Number,
+    endgamePieces: Number,
+    nodes: Number
+  },
+  // Tournament the server's lifecycle scheduler starts at startDate (round robin if unset)
+  tournamentOptions: {
+    format: {
+      type: String,
+      enum: ['round_robin', 'double_round_robin', 'swiss', 'single_elimination', 'double_elimination']
+    },
+    rounds: Number,
+    tiebreak: {
+      type: String,
+      enum: ['armageddon', 'color_swapped_pair']
+    }
+  },
+  submissionsLockedAt: Date,
   createdBy: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User',
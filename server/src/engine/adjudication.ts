@@ -0,0 +1,202 @@
+import { DEFAULT_ADJUDICATION_CP, StockfishEvaluation, StockfishPool, stockfish } from './stockfish'
+import {
+  AdjudicationEvaluation,
+  AdjudicationEvidence,
+  AdjudicationRule,
+  AdjudicationRules,
+  GAME_END_REASONS,
+  GameEndReason
+} from './types/chess'
+
+// Decides games that are no longer in doubt on Stockfish's evaluation of every position, instead of
+// playing them out to mate or the ply cap. The rules of chess come first: only positions they leave
+// open are adjudicated.
+
+export const DEFAULT_ADJUDICATION_RULES: AdjudicationRules = {
+  resignCp: DEFAULT_ADJUDICATION_CP,
+  resignPlies: 6,
+  drawCp: 10,
+  drawAfterMove: 40,
+  drawPlies: 10,
+  endgamePieces: 5,
+  nodes: 100000
+}
+
+// Allowed range of each rule
+const RULE_LIMITS: Record<keyof AdjudicationRules, [number, number]> = {
+  resignCp: [100, 100000],
+  resignPlies: [0, 100],
+  drawCp: [0, 1000],
+  drawAfterMove: [1, 500],
+  drawPlies: [0, 100],
+  endgamePieces: [0, 32],
+  nodes: [1000, 10000000]
+}
+
+// Validates rules coming from a request body or a stored competition. Every field is optional and
+// defaults to DEFAULT_ADJUDICATION_RULES.
+export function parseAdjudicationRules(input: unknown): AdjudicationRules {
+  if (input === undefined || input === null) return { ...DEFAULT_ADJUDICATION_RULES }
+  if (typeof input !== 'object') {
+    throw new Error('Invalid adjudication: expected an object')
+  }
+
+  const value = input as Record<string, unknown>
+  const rules = { ...DEFAULT_ADJUDICATION_RULES }
+  for (const [field, [min, max]] of Object.entries(RULE_LIMITS) as [keyof AdjudicationRules, [number, number]][]) {
+    if (value[field] === undefined || value[field] === null) continue
+    const number = Number(value[field])
+    if (!Number.isInteger(number) || number < min || number > max) {
+      throw new Error(`Invalid adjudication: ${field} must be an integer between ${min} and ${max}`)
+    }
+    rules[field] = number
+  }
+  return rules
+}
+
+export interface Adjudicated {
+  // 1 for white, 2 for black, 0 for a draw
+  winner: number
+  reason: GameEndReason
+  detail: string
+  evidence: AdjudicationEvidence
+}
+
+interface Evaluated {
+  evaluation: AdjudicationEvaluation
+  fullmove: number
+}
+
+function countPieces(fen: string): number {
+  return (fen.split(' ')[0].match(/[a-z]/gi) ?? []).length
+}
+
+// 1 or 2 when that side has a forced mate or is ahead by at least thresholdCp, otherwise 0
+function decisiveSide(evaluation: AdjudicationEvaluation, thresholdCp: number): number {
+  if (evaluation.scoreMate !== undefined && evaluation.scoreMate !== 0) return evaluation.scoreMate > 0 ? 1 : 2
+  if (evaluation.scoreCp !== undefined && Math.abs(evaluation.scoreCp) >= thresholdCp) return evaluation.scoreCp > 0 ? 1 : 2
+  return 0
+}
+
+// Such as "+1.25", "-0.40" or "mate in 3 for Black"
+function describeScore(evaluation: AdjudicationEvaluation): string {
+  if (evaluation.scoreMate !== undefined) {
+    return `mate in ${Math.abs(evaluation.scoreMate)} for ${evaluation.scoreMate > 0 ? 'White' : 'Black'}`
+  }
+  const pawns = (evaluation.scoreCp ?? 0) / 100
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(2)}`
+}
+
+const sideName = (winner: number) => winner === 1 ? 'White' : 'Black'
+
+// Follows one game. Evaluations are kept only as long as the rules look back; if Stockfish cannot be
+// reached the game goes on without adjudication.
+export class Adjudicator {
+  private readonly recent: Evaluated[] = []
+  private unavailable = false
+
+  constructor(readonly rules: AdjudicationRules, private readonly pool: StockfishPool = stockfish) {}
+
+  // Checks the position after a ply against the resign, draw and endgame rules
+  async afterPly(ply: number, fen: string): Promise<Adjudicated | null> {
+    const { resignCp, resignPlies, drawCp, drawAfterMove, drawPlies, endgamePieces } = this.rules
+    if (resignPlies === 0 && drawPlies === 0 && endgamePieces === 0) return null
+
+    const pieces = countPieces(fen)
+    const evaluation = await this.evaluate(ply, fen)
+    if (!evaluation) return null
+
+    // Endgames are decided only when clearly won or clearly drawn; anything between is played on,
+    // as a few pawns up can still be a win the search has not found
+    if (pieces <= endgamePieces) {
+      const winner = decisiveSide(evaluation, resignCp)
+      const drawn = evaluation.scoreMate === undefined && Math.abs(evaluation.scoreCp ?? 0) <= drawCp
+      if (winner || drawn) {
+        return this.decide('endgame', ply, winner, GAME_END_REASONS.ENDGAME_ADJUDICATION,
+          `${pieces} pieces left, evaluated ${describeScore(evaluation)}`, [evaluation], pieces)
+      }
+    }
+
+    const resignWindow = this.window(resignPlies)
+    const leader = resignWindow ? decisiveSide(resignWindow[0], resignCp) : 0
+    if (resignWindow && leader && resignWindow.every(entry => decisiveSide(entry, resignCp) === leader)) {
+      return this.decide('resign', ply, leader, GAME_END_REASONS.ADJUDICATION,
+        `${sideName(leader)} stayed ${resignCp / 100} pawns or more ahead for ${resignPlies} plies`, resignWindow)
+    }
+
+    const drawWindow = this.window(drawPlies)
+    const drawStart = this.recent[this.recent.length - drawPlies]
+    if (drawWindow && drawStart.fullmove >= drawAfterMove && drawWindow.every(entry =>
+      entry.scoreMate === undefined && Math.abs(entry.scoreCp ?? 0) <= drawCp
+    )) {
+      return this.decide('draw', ply, 0, GAME_END_REASONS.ADJUDICATION_DRAW,
+        `The evaluation stayed within ${drawCp / 100} pawns for ${drawPlies} plies from move ${drawAfterMove}`, drawWindow)
+    }
+
+    return null
+  }
+
+  // Decides a game that reached the ply cap: won by a side that is clearly ahead, drawn otherwise.
+  // Null when there is no evaluation to go on.
+  async atMoveLimit(ply: number, fen: string, maxPlies: number): Promise<Adjudicated | null> {
+    const evaluation = await this.evaluate(ply, fen)
+    if (!evaluation) return null
+
+    const winner = decisiveSide(evaluation, this.rules.resignCp)
+    const detail = winner
+      ? `${sideName(winner)} ahead at the move limit (${maxPlies} plies), evaluated ${describeScore(evaluation)}`
+      : `Draw by move limit (${maxPlies} plies), evaluated ${describeScore(evaluation)}`
+    return this.decide('move_limit', ply, winner, winner ? GAME_END_REASONS.ADJUDICATION : GAME_END_REASONS.MOVE_LIMIT,
+      detail, [evaluation])
+  }
+
+  private async evaluate(ply: number, fen: string): Promise<AdjudicationEvaluation | null> {
+    if (this.unavailable) return null
+
+    let result: StockfishEvaluation
+    try {
+      // Adjudication always searches at full strength, whatever skill level the pool is set to
+      result = await this.pool.evaluate(fen, { nodes: this.rules.nodes, skillLevel: 20 })
+    } catch (error) {
+      this.unavailable = true
+      console.warn('Adjudication off for the rest of the game:', error instanceof Error ? error.message : error)
+      return null
+    }
+
+    const evaluation: AdjudicationEvaluation = {
+      ply,
+      scoreCp: result.scoreCp,
+      scoreMate: result.scoreMate,
+      depth: result.depth,
+      bestMove: result.bestMove
+    }
+    this.recent.push({ evaluation, fullmove: Number(fen.split(' ')[5]) || 1 })
+    const keep = Math.max(this.rules.resignPlies, this.rules.drawPlies, 1)
+    if (this.recent.length > keep) this.recent.splice(0, this.recent.length - keep)
+    return evaluation
+  }
+
+  // The last `plies` evaluations, or null while there are fewer or the rule is off
+  private window(plies: number): AdjudicationEvaluation[] | null {
+    if (plies === 0 || this.recent.length < plies) return null
+    return this.recent.slice(-plies).map(({ evaluation }) => evaluation)
+  }
+
+  private async decide(
+    rule: AdjudicationRule,
+    ply: number,
+    winner: number,
+    reason: GameEndReason,
+    detail: string,
+    evaluations: AdjudicationEvaluation[],
+    pieces?: number
+  ): Promise<Adjudicated> {
+    const engine = await this.pool.engineName().catch(() => undefined)
+    return {
+      winner,
+      reason,
+      detail: `${detail} (Stockfish, ${this.rules.nodes} nodes)`,
+      evidence: { rule, ply, evaluations, ...(pieces !== undefined ? { pieces } : {}), rules: { ...this.rules }, engine }
+    }
+  }
+}
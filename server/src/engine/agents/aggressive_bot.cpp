@@ -1,5 +1,6 @@
 #include <iostream>
 #include <string>
+#include <sstream>
 #include <vector>
 #include <random>
 #include <chrono>
@@ -9,11 +10,21 @@ struct Move {
     int priority;
 };
 
+// Side to move after "position startpos|fen <fen> [moves ...]"
+bool white_to_move(const std::string& line) {
+    size_t moves_at = line.find(" moves ");
+    std::string setup = line.substr(0, moves_at);
+    bool white = setup.find(" fen ") == std::string::npos || setup.find(" w ") != std::string::npos;
+    if (moves_at != std::string::npos) {
+        std::istringstream moves(line.substr(moves_at + 7));
+        std::string move;
+        while (moves >> move) white = !white;
+    }
+    return white;
+}
+
 // Function to generate prioritized moves
-std::string get_move(const std::string& fen) {
-    // Check if we're playing as black
-    bool is_white = fen.find(" w ") != std::string::npos;
-    
+std::string get_move(bool is_white) {
     std::vector<std::string> moves;
     if (is_white) {
         moves = {
@@ -48,7 +59,7 @@ std::string get_move(const std::string& fen) {
 // Main function to handle UCI protocol
 int main() {
     std::string line;
-    std::string current_fen = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+    bool is_white = true;
 
     // UCI protocol implementation
     while (std::getline(std::cin, line)) {
@@ -62,13 +73,11 @@ int main() {
         }
         else if (line.substr(0, 8) == "position") {
             // Parse position command
-            if (line.substr(9, 3) == "fen") {
-                current_fen = line.substr(13);
-            }
+            is_white = white_to_move(line);
         }
         else if (line.substr(0, 2) == "go") {
             // Generate and return move
-            std::string move = get_move(current_fen);
+            std::string move = get_move(is_white);
             std::cout << "bestmove " << move << std::endl;
         }
         else if (line == "quit") {
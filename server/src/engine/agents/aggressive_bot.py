@@ -3,10 +3,13 @@ import random
 import time
 from typing import List
 
-def get_move(fen: str) -> str:
-    # Check if we're playing as white
-    is_white = " w " in fen
-    
+def white_to_move(line: str) -> bool:
+    # Side to move after "position startpos|fen <fen> [moves ...]"
+    setup, _, moves = line.partition(" moves ")
+    white = " fen " not in setup or " w " in setup
+    return white if len(moves.split()) % 2 == 0 else not white
+
+def get_move(is_white: bool) -> str:
     moves: List[str]
     if is_white:
         moves = [
@@ -31,7 +34,7 @@ def get_move(fen: str) -> str:
     return random.choice(moves)
 
 def main():
-    current_fen = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1"
+    is_white = True
     
     while True:
         line = sys.stdin.readline().strip()
@@ -44,11 +47,10 @@ def main():
             print("readyok")
         elif line.startswith("position"):
             # Parse position command
-            if line.startswith("position fen "):
-                current_fen = line[13:]
+            is_white = white_to_move(line)
         elif line.startswith("go"):
             # Generate and return move
-            move = get_move(current_fen)
+            move = get_move(is_white)
             print(f"bestmove {move}")
         elif line == "quit":
             break
@@ -1,5 +1,6 @@
 #include <iostream>
 #include <string>
+#include <sstream>
 #include <vector>
 #include <random>
 #include <chrono>
@@ -10,11 +11,21 @@ struct Move {
     std::string to;
 };
 
+// Side to move after "position startpos|fen <fen> [moves ...]"
+bool white_to_move(const std::string& line) {
+    size_t moves_at = line.find(" moves ");
+    std::string setup = line.substr(0, moves_at);
+    bool white = setup.find(" fen ") == std::string::npos || setup.find(" w ") != std::string::npos;
+    if (moves_at != std::string::npos) {
+        std::istringstream moves(line.substr(moves_at + 7));
+        std::string move;
+        while (moves >> move) white = !white;
+    }
+    return white;
+}
+
 // Function to generate random moves
-std::string get_move(const std::string& fen) {
-    // Check if we're playing as black
-    bool is_white = fen.find(" w ") != std::string::npos;
-    
+std::string get_move(bool is_white) {
     std::vector<std::string> basic_moves;
     if (is_white) {
         basic_moves = {
@@ -41,7 +52,7 @@ std::string get_move(const std::string& fen) {
 // Main function to handle UCI protocol
 int main() {
     std::string line;
-    std::string current_fen;
+    bool is_white = true;
 
     std::cout.setf(std::ios::unitbuf); // Enable automatic flushing
 
@@ -55,13 +66,10 @@ int main() {
             std::cout << "readyok" << std::endl;
         }
         else if (line.substr(0, 8) == "position") {
-            size_t fen_pos = line.find("fen");
-            if (fen_pos != std::string::npos) {
-                current_fen = line.substr(fen_pos + 4);
-            }
+            is_white = white_to_move(line);
         }
         else if (line.substr(0, 2) == "go") {
-            std::string move = get_move(current_fen);
+            std::string move = get_move(is_white);
             std::cout << "bestmove " << move << std::endl;
         }
         else if (line == "quit") {
@@ -1,503 +1,349 @@
-import { ChildProcess, spawn } from 'child_process'
-import path from 'path'
-import fs from 'fs'
-import axios from 'axios'
-
-interface ChessMove {
-  from: string
-  to: string
-  promotion?: string
+import {
+  Color,
+  INITIAL_FEN,
+  applyMove,
+  findLegalMove,
+  getTerminalState,
+  hasMatingMaterial,
+  opposite,
+  parseFen,
+  positionKey,
+  toFen
+} from './chess-rules'
+import { Adjudicated, Adjudicator } from './adjudication'
+import { AgentArtifact, AgentCompiler } from './compiler'
+import { SandboxRunner } from './sandbox'
+import { Adjudication, stockfish } from './stockfish'
+import { languageOf } from './toolchains'
+import { DEFAULT_TIME_CONTROL, buildGoCommand, incrementOf, initialClock } from './time-control'
+import { AdjudicationRules, EngineInfo, GAME_END_REASONS, GameEndReason, GameResult, MoveClock, MoveSearch, PlyUpdate, TimeControl } from './types/chess'
+import { UciBestMove, UciClient, UciOptions, UciTimeoutError, positionCommand } from './uci-client'
+
+// Bumped whenever rules, adjudication or time handling change, and stored with every match
+export const ENGINE_VERSION = '1.2.0'
+
+// A built-in engine the server trusts, such as a house bot: run directly rather than built and
+// sandboxed, with these options set after the handshake
+export interface TrustedProgram {
+  command: string
+  args: string[]
+  uciOptions?: UciOptions
 }
 
-interface GameState {
-  isGameOver: boolean;
-  winner?: number;
-  reason?: string;
+// A source file is built first (or taken from the build cache); any other path is run as a
+// prebuilt executable. A function supplies the artifact itself, e.g. from the server's build records.
+export type AgentProgram = string | AgentArtifact | TrustedProgram | (() => Promise<AgentArtifact>)
+
+export interface MatchOptions {
+  timeControl?: TimeControl
+  // FEN the game starts from, e.g. an opening suite position; the initial position by default
+  startFen?: string
+  // Sent with setoption after each player's handshake, e.g. { Hash: 16 }
+  uciOptions?: { white?: UciOptions; black?: UciOptions }
+  // Decide games by Stockfish's evaluation; without rules every game is played out to the ply cap
+  adjudication?: AdjudicationRules
+  onMove?: (update: PlyUpdate) => void
+  // Stops the game without a result, e.g. when the worker playing it no longer owns its job
+  signal?: AbortSignal
 }
 
-export class ChessEngine {
-  private readonly apiUrl: string = 'https://stockfish-api-65pi.onrender.com'
-  private readonly fallbackApiUrl: string = 'https://stockfish-api-65pi.onrender.com'
-  private apiTimeout: number = 30000 // Reduced timeout to 30 seconds
-  private isApiAvailable: boolean = false
-  private retryCount: number = 3
-  private retryDelay: number = 2000
-  private lastRequestTime: number = 0
-  private readonly keepAliveInterval: number = 300000 // 5 minutes
-  private keepAliveTimer: NodeJS.Timeout | null = null
-  private localStockfishPath: string | null = null
+// An agent that does not build or get through the UCI handshake. Its side forfeits the game; any
+// other failure to set a game up is the server's and is thrown to the caller.
+export class BotSetupError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BotSetupError'
+  }
+}
 
+export class MatchAbortedError extends Error {
   constructor() {
-    // Initialize local Stockfish path
-    this.initializeLocalStockfish()
+    super('Match aborted')
+    this.name = 'MatchAbortedError'
   }
+}
 
-  private initializeLocalStockfish(): void {
-    const stockfishPath = process.platform === 'win32' 
-      ? path.join(__dirname, '..', '..', 'stockfish', 'stockfish-windows-x86-64-avx2.exe')
-      : path.join(__dirname, '..', '..', 'stockfish', 'stockfish-ubuntu-x86-64-avx2')
-    
-    if (fs.existsSync(stockfishPath)) {
-      this.localStockfishPath = stockfishPath
-      console.log('Local Stockfish found at:', stockfishPath)
-    } else {
-      console.warn('Local Stockfish not found at:', stockfishPath)
+export class ChessEngine {
+  // Safety cap for games the rules never end, e.g. two bots shuffling pieces without repeating
+  private readonly maxPlies: number = 500
+  // Allowance for process and pipe latency on top of each move's time budget
+  private readonly lagAllowanceMs: number = 200
+  // For each step of the UCI handshake
+  private readonly initTimeoutMs: number = 5000
+  private readonly sandbox: SandboxRunner = new SandboxRunner()
+  private readonly compiler: AgentCompiler = new AgentCompiler(undefined, this.sandbox)
+
+  // The local Stockfish behind evaluations; starts a process if none is running yet
+  async getEngineInfo(): Promise<EngineInfo> {
+    const name = await stockfish.engineName()
+    return {
+      version: name ?? 'Stockfish',
+      ready: true,
+      cores: stockfish.config.threads
     }
   }
 
-  private startKeepAlive(): void {
-    if (this.keepAliveTimer) {
-      clearInterval(this.keepAliveTimer)
-    }
+  private async resolveProgram(program: AgentProgram): Promise<AgentArtifact | TrustedProgram> {
+    if (typeof program === 'function') return program()
+    if (typeof program !== 'string') return program
+    if (!languageOf(program)) return { language: 'cpp', path: program }
 
-    this.keepAliveTimer = setInterval(async () => {
-      try {
-        await this.pingApi()
-      } catch (error) {
-        console.warn('Keep-alive ping failed:', error)
-      }
-    }, this.keepAliveInterval)
+    const build = await this.compiler.build(program)
+    if (!build.artifact) {
+      throw new BotSetupError(`Compilation failed\n${build.log}`)
+    }
+    return build.artifact
   }
 
-  private async pingApi(): Promise<void> {
+  // Handshake, options and ucinewgame; a bot that does not get through them cannot play. Only a
+  // trusted program failing here is the server's problem.
+  private async initializeBot(program: AgentArtifact | TrustedProgram, uciOptions: UciOptions = {}): Promise<UciClient> {
+    const trusted = 'command' in program
+    const client = trusted ? UciClient.start(program.command, program.args) : UciClient.spawn(this.sandbox, program)
     try {
-      const response = await axios.get(this.apiUrl, {
-        timeout: 5000,
-        headers: {
-          'Accept': 'application/json'
-        }
-      })
-      
-      if (response.data?.status === 'ok') {
-        this.lastRequestTime = Date.now()
-        console.log('Keep-alive ping successful')
-      } else {
-        throw new Error('API returned non-ok status')
+      await client.handshake(this.initTimeoutMs)
+      for (const [name, value] of Object.entries({ ...(trusted ? program.uciOptions : {}), ...uciOptions })) {
+        client.setOption(name, value)
       }
+      await client.newGame(this.initTimeoutMs)
+      return client
     } catch (error) {
-      console.warn('Keep-alive ping failed:', error)
-      throw error
-    }
-  }
-
-  private async sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms))
-  }
-
-  private async retryWithBackoff<T>(operation: () => Promise<T>, isKeepAlive: boolean = false): Promise<T> {
-    let lastError: Error | null = null
-    const maxRetries = isKeepAlive ? 1 : this.retryCount
-    
-    for (let i = 0; i < maxRetries; i++) {
-      try {
-        return await operation()
-      } catch (error) {
-        lastError = error as Error
-        console.warn(`Attempt ${i + 1} failed:`, error)
-        if (i < maxRetries - 1) {
-          await this.sleep(this.retryDelay * Math.pow(2, i))
-        }
+      client.close()
+      if (trusted) throw error
+      const { violation, detail } = client.sandboxed
+      if (violation) {
+        throw new BotSetupError(`Bot stopped by sandbox during initialization (${violation}): ${detail}`)
       }
+      const message = error instanceof Error ? error.message : String(error)
+      throw new BotSetupError(error instanceof UciTimeoutError ? `Bot initialization timeout: ${message}` : message)
     }
-    
-    throw lastError || new Error('All retry attempts failed')
   }
 
-  async initialize(): Promise<void> {
-    try {
-      await this.retryWithBackoff(async () => {
-        const response = await axios.get(this.apiUrl, {
-          timeout: this.apiTimeout,
-          headers: {
-            'Accept': 'application/json'
-          }
-        })
-        
-        if (response.data?.status === 'ok') {
-          this.isApiAvailable = true
-          this.lastRequestTime = Date.now()
-          console.log('Stockfish API initialized successfully:', response.data)
-          this.startKeepAlive()
-          return
-        }
-        throw new Error('API returned non-ok status')
-      })
-    } catch (error) {
-      console.warn('Primary API not available, trying fallback...')
-      
-      try {
-        await this.retryWithBackoff(async () => {
-          const fallbackResponse = await axios.get(this.fallbackApiUrl, {
-            timeout: this.apiTimeout,
-            headers: {
-              'Accept': 'application/json'
-            }
-          })
-          
-          if (fallbackResponse.data?.status === 'ok') {
-            this.isApiAvailable = true
-            this.lastRequestTime = Date.now()
-            console.log('Stockfish API (fallback) initialized successfully:', fallbackResponse.data)
-            this.startKeepAlive()
-            return
-          }
-          throw new Error('Fallback API returned non-ok status')
-        })
-      } catch (fallbackError) {
-        console.warn('Both APIs unavailable, falling back to local Stockfish')
-        if (!this.localStockfishPath) {
-          throw new Error('No local Stockfish available and APIs are down')
-        }
-        this.isApiAvailable = true
-      }
+  // The whole game is sent every move, so a bot needs no state between moves
+  private async getBotMove(
+    bot: UciClient,
+    startFen: string,
+    moves: string[],
+    goCommand: string,
+    timeoutMs: number
+  ): Promise<UciBestMove> {
+    bot.send(positionCommand(startFen, moves))
+    bot.go(goCommand)
+    const bestMove = await bot.readBestMove(timeoutMs)
+    if (!bestMove.move || bestMove.move === '(none)') {
+      throw new Error('Bot returned invalid move')
     }
+    return bestMove
   }
 
-  private async makeApiRequest(endpoint: string, data?: any, isKeepAlive: boolean = false): Promise<any> {
-    if (!this.isApiAvailable && this.localStockfishPath) {
-      return this.makeLocalRequest(endpoint, data)
-    }
+  async runMatch(bot1Program: AgentProgram, bot2Program: AgentProgram, options: MatchOptions = {}): Promise<GameResult> {
+    let bot1: UciClient | null = null
+    let bot2: UciClient | null = null
 
-    const urls = [this.apiUrl, this.fallbackApiUrl]
-    const timeout = isKeepAlive ? 5000 : this.apiTimeout
-    
-    for (const url of urls) {
-      try {
-        return await this.retryWithBackoff(async () => {
-          const response = await axios({
-            method: data ? 'post' : 'get',
-            url: `${url}${endpoint}`,
-            data,
-            timeout,
-            headers: {
-              'Content-Type': 'application/json',
-              'Accept': 'application/json'
-            }
-          })
-          
-          // For status check endpoint, expect status: ok
-          if (endpoint === '/') {
-            if (response.data?.status === 'ok') {
-              this.lastRequestTime = Date.now()
-              return response.data
-            }
-            throw new Error('API status check failed')
-          }
-          
-          // For other endpoints, check if response contains valid chess data
-          if (response.data?.bestMove || response.data?.moves || response.data?.fen) {
-            this.lastRequestTime = Date.now()
-            return response.data
-          }
-          
-          throw new Error(`Invalid API response: ${JSON.stringify(response.data)}`)
-        }, isKeepAlive)
-      } catch (error) {
-        console.warn(`Failed to connect to ${url}${endpoint}:`, error)
-        if (error instanceof Error) {
-          console.warn('Error details:', {
-            message: error.message,
-            code: (error as any).code,
-            stack: error.stack
-          })
-        }
-        continue
-      }
+    // Aborting closes both bots, which ends a search in progress at once
+    const { signal } = options
+    const closeBots = () => {
+      bot1?.close()
+      bot2?.close()
     }
-    
-    if (this.localStockfishPath) {
-      console.log('Falling back to local Stockfish')
-      return this.makeLocalRequest(endpoint, data)
+    const throwIfAborted = () => {
+      if (signal?.aborted) throw new MatchAbortedError()
     }
-    
-    throw new Error('All API endpoints are unavailable and no local fallback')
-  }
+    signal?.addEventListener('abort', closeBots)
 
-  private async makeLocalRequest(endpoint: string, data?: any): Promise<any> {
-    if (!this.localStockfishPath) {
-      throw new Error('Local Stockfish not available')
-    }
-
-    const stockfish = spawn(this.localStockfishPath)
-    let response = ''
-
-    return new Promise((resolve, reject) => {
-      stockfish.stdout.on('data', (data) => {
-        response += data.toString()
-      })
-
-      stockfish.stderr.on('data', (data) => {
-        console.error(`Local Stockfish error: ${data}`)
-      })
-
-      stockfish.on('close', (code) => {
-        if (code !== 0) {
-          reject(new Error(`Local Stockfish process exited with code ${code}`))
-          return
-        }
-
-        try {
-          const result = JSON.parse(response)
-          resolve(result)
-        } catch (error) {
-          reject(new Error('Failed to parse local Stockfish response'))
-        }
-      })
-
-      // Send command to Stockfish
-      if (endpoint === '/api/bestmove' && data) {
-        stockfish.stdin.write(`position fen ${data.fen}\n`)
-        stockfish.stdin.write(`go movetime ${data.timeLimit || 1000}\n`)
-      } else {
-        stockfish.stdin.write('uci\n')
-      }
-    })
-  }
-
-  async getEngineInfo(): Promise<{ version: string; ready: boolean; cores: number }> {
     try {
-      const data = await this.makeApiRequest('/')
-      return {
-        version: 'Stockfish 15.1',
-        ready: data.status === 'ok',
-        cores: 1
-      }
-    } catch (error) {
-      console.error('Failed to get engine info:', error)
-      throw error
-    }
-  }
+      const timeControl = options.timeControl ?? DEFAULT_TIME_CONTROL
+      let whiteMs = initialClock(timeControl)
+      let blackMs = initialClock(timeControl)
+      const clocks: MoveClock[] = []
+      const searches: MoveSearch[] = []
+
+      let position = parseFen(options.startFen ?? INITIAL_FEN)
+      const history: string[] = [positionKey(position)]
+      const fens: string[] = [toFen(position)]
+      const moves: string[] = []
 
-  private async compileCppBot(sourcePath: string): Promise<string> {
-    const outputPath = sourcePath.replace('.cpp', process.platform === 'win32' ? '.exe' : '')
-    
-    return new Promise((resolve, reject) => {
-      const compiler = process.platform === 'win32' ? 'g++' : 'g++'
-      const compileProcess = spawn(compiler, [
-        sourcePath,
-        '-o', outputPath,
-        '-std=c++11',
-        '-Wall',
-        '-Wextra',
-        '-O2',
-        '-march=native'
-      ])
-
-      let errorOutput = ''
-
-      compileProcess.stderr.on('data', (data) => {
-        const error = data.toString()
-        errorOutput += error
-        console.error(`Compilation error: ${error}`)
+      // In the result player 1 is white; callers map that to whoever had white in this game
+      const playerOf = (color: Color) => color === 'w' ? 1 : 2
+      const colorName = (color: Color) => color === 'w' ? 'White' : 'Black'
+
+      const finish = (winner: number, reason: GameEndReason, detail?: string): GameResult => ({
+        winner,
+        reason,
+        detail,
+        moves,
+        fens,
+        timeControl,
+        clocks,
+        searches
       })
 
-      compileProcess.on('close', (code) => {
-        if (code === 0) {
-          if (!fs.existsSync(outputPath)) {
-            reject(new Error(`Compilation succeeded but executable was not created at ${outputPath}`))
-            return
-          }
-          if (process.platform !== 'win32') {
-            fs.chmodSync(outputPath, 0o755)
-          }
-          resolve(outputPath)
-        } else {
-          reject(new Error(`Compilation failed with code ${code}\n${errorOutput}`))
-        }
-      })
-
-      setTimeout(() => {
-        if (compileProcess.killed) return
-        compileProcess.kill()
-        reject(new Error('Compilation timed out after 30 seconds'))
-      }, 30000)
-    })
-  }
-
-  private async initializeBot(executablePath: string): Promise<ChildProcess> {
-    const bot = spawn(executablePath)
-    
-    if (!bot.stdin || !bot.stdout) {
-      throw new Error('Failed to initialize bot process')
-    }
-
-    try {
-      bot.stdin.write('uci\n')
-      bot.stdin.write('isready\n')
-    } catch (error) {
-      bot.kill()
-      throw error
-    }
-    
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        bot.kill()
-        reject(new Error('Bot initialization timeout'))
-      }, 5000)
-
-      const handler = (data: Buffer) => {
-        if (data.toString().includes('readyok')) {
-          clearTimeout(timeout)
-          bot.stdout?.removeListener('data', handler)
-          resolve(bot)
-        }
+      // A bot that cannot be built or started loses the game before it begins
+      const setupForfeit = (player: number, error: unknown): GameResult => {
+        if (!(error instanceof BotSetupError)) throw error
+        const side = player === 1 ? 'White' : 'Black'
+        return finish(player === 1 ? 2 : 1, GAME_END_REASONS.BOT_ERROR, `${side} could not start: ${error.message}`)
       }
 
+      // Build both bots if they are sources
+      let bot1Artifact: AgentArtifact | TrustedProgram
+      let bot2Artifact: AgentArtifact | TrustedProgram
       try {
-        bot.stdout.on('data', handler)
-        bot.on('error', (error) => {
-          clearTimeout(timeout)
-          reject(error)
-        })
+        bot1Artifact = await this.resolveProgram(bot1Program)
       } catch (error) {
-        clearTimeout(timeout)
-        bot.kill()
-        reject(error)
+        return setupForfeit(1, error)
       }
-    })
-  }
-
-  private async getBotMove(bot: ChildProcess, position: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error('Bot move timeout'))
-      }, 5000)
-
-      const moveHandler = (data: Buffer) => {
-        const output = data.toString()
-        if (output.includes('bestmove')) {
-          clearTimeout(timeout)
-          bot.stdout!.removeListener('data', moveHandler)
-          const move = output.split('bestmove ')[1].split(' ')[0].trim()
-          if (move && move !== '(none)') {
-            resolve(move)
-          } else {
-            reject(new Error('Bot returned invalid move'))
-          }
-        }
+      try {
+        bot2Artifact = await this.resolveProgram(bot2Program)
+      } catch (error) {
+        return setupForfeit(2, error)
       }
+      throwIfAborted()
 
+      // Initialize both bots
       try {
-        bot.stdout!.on('data', moveHandler)
-        bot.stdin!.write(`position fen ${position}\n`)
-        bot.stdin!.write('go movetime 1000\n')
+        bot1 = await this.initializeBot(bot1Artifact, options.uciOptions?.white)
       } catch (error) {
-        clearTimeout(timeout)
-        reject(error)
+        return setupForfeit(1, error)
       }
-    })
-  }
+      try {
+        bot2 = await this.initializeBot(bot2Artifact, options.uciOptions?.black)
+      } catch (error) {
+        return setupForfeit(2, error)
+      }
+      throwIfAborted()
 
-  async runMatch(bot1Path: string, bot2Path: string): Promise<{
-    winner: number;
-    reason: string;
-    moves: string[];
-    engineOutput?: string;
-  }> {
-    let bot1: ChildProcess | null = null
-    let bot2: ChildProcess | null = null
+      // Breaking a sandbox limit forfeits the game, whoever's turn it is
+      const sandboxForfeit = (): GameResult | null => {
+        for (const [player, bot] of [[1, bot1], [2, bot2]] as [number, UciClient | null][]) {
+          const sandboxed = bot?.sandboxed
+          if (sandboxed?.violation) {
+            return {
+              ...finish(player === 1 ? 2 : 1, GAME_END_REASONS.SANDBOX_VIOLATION, sandboxed.detail),
+              forfeit: { player, violation: sandboxed.violation, detail: sandboxed.detail }
+            }
+          }
+        }
+        return null
+      }
 
-    try {
-      // Compile both bots if they are C++ files
-      const bot1Executable = bot1Path.endsWith('.cpp') ? await this.compileCppBot(bot1Path) : bot1Path
-      const bot2Executable = bot2Path.endsWith('.cpp') ? await this.compileCppBot(bot2Path) : bot2Path
+      const adjudicator = options.adjudication ? new Adjudicator(options.adjudication) : null
+      const adjudicated = ({ winner, reason, detail, evidence }: Adjudicated): GameResult => ({
+        ...finish(winner, reason, detail),
+        adjudication: evidence
+      })
 
-      // Initialize both bots
-      bot1 = await this.initializeBot(bot1Executable)
-      bot2 = await this.initializeBot(bot2Executable)
+      // A flag loses only if the opponent could still mate; otherwise it is a draw
+      const timeForfeit = (color: Color, elapsedMs: number, budgetMs: number): GameResult => {
+        const opponent = opposite(color)
+        const detail = `${colorName(color)} used ${elapsedMs}ms with ${budgetMs}ms available`
+        return hasMatingMaterial(position, opponent)
+          ? finish(playerOf(opponent), GAME_END_REASONS.TIMEOUT, detail)
+          : finish(0, GAME_END_REASONS.TIMEOUT_VS_INSUFFICIENT_MATERIAL, detail)
+      }
 
-      let currentFen = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
-      const moves: string[] = []
-      let currentPlayer = 1
-      let moveCount = 0
+      while (moves.length < this.maxPlies) {
+        throwIfAborted()
+        const terminal = getTerminalState(position, history)
+        if (terminal) {
+          return finish(terminal.winner ? playerOf(terminal.winner) : 0, terminal.reason)
+        }
+        if (adjudicator && moves.length > 0) {
+          const decided = await adjudicator.afterPly(moves.length, fens[fens.length - 1])
+          throwIfAborted()
+          if (decided) return adjudicated(decided)
+        }
 
-      while (moveCount < 50) {
+        const color = position.turn
+        const currentPlayer = playerOf(color)
         const currentBot = currentPlayer === 1 ? bot1 : bot2
+        const remainingMs = color === 'w' ? whiteMs : blackMs
+        const budgetMs = remainingMs ?? (timeControl.type === 'movetime' ? timeControl.moveTimeMs : 0)
+        const goCommand = buildGoCommand(timeControl, whiteMs, blackMs)
 
+        let bestMove: UciBestMove
+        const startedAt = Date.now()
         try {
-          // Get move from current bot
-          const move = await this.getBotMove(currentBot!, currentFen)
-          moves.push(move)
-
-          // Get best move from Stockfish API with retry
-          const data = await this.makeApiRequest('/api/bestmove', {
-            moves: moves
-          })
-          
-          if (!data.bestMove || data.bestMove === 'none') {
-            return {
-              winner: currentPlayer === 1 ? 2 : 1,
-              reason: 'No legal moves available',
-              moves,
-              engineOutput: data.bestMove
-            }
+          bestMove = await this.getBotMove(currentBot!, fens[0], moves, goCommand, budgetMs + this.lagAllowanceMs)
+        } catch (error) {
+          throwIfAborted()
+          const forfeit = sandboxForfeit()
+          if (forfeit) return forfeit
+          if (error instanceof UciTimeoutError) {
+            return timeForfeit(color, Date.now() - startedAt, budgetMs)
           }
+          console.error(`Error during move ${moves.length + 1}:`, error)
+          return finish(
+            currentPlayer === 1 ? 2 : 1,
+            GAME_END_REASONS.BOT_ERROR,
+            error instanceof Error ? error.message : 'Unknown error'
+          )
+        }
 
-          // Update position
-          currentFen = data.newFen || currentFen
+        throwIfAborted()
+        const elapsedMs = Date.now() - startedAt
+        const { move } = bestMove
+        const forfeit = sandboxForfeit()
+        if (forfeit) return forfeit
+        if (elapsedMs > budgetMs + this.lagAllowanceMs) {
+          return timeForfeit(color, elapsedMs, budgetMs)
+        }
 
-          moveCount++
-          currentPlayer = currentPlayer === 1 ? 2 : 1
-        } catch (error) {
-          console.error(`Error during move ${moveCount + 1}:`, error)
-          return {
-            winner: currentPlayer === 1 ? 2 : 1,
-            reason: `Bot error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            moves
-          }
+        // An illegal move forfeits the game
+        const legalMove = findLegalMove(position, move)
+        if (!legalMove) {
+          return finish(
+            currentPlayer === 1 ? 2 : 1,
+            GAME_END_REASONS.ILLEGAL_MOVE,
+            `Illegal move ${move} by ${colorName(color).toLowerCase()} in position ${toFen(position)}`
+          )
         }
+
+        if (remainingMs !== null) {
+          const updatedMs = Math.max(0, remainingMs - elapsedMs) + incrementOf(timeControl)
+          if (color === 'w') whiteMs = updatedMs
+          else blackMs = updatedMs
+        }
+
+        const clock: MoveClock = { ply: moves.length + 1, color, elapsedMs, whiteMs, blackMs }
+        const search: MoveSearch = { ply: clock.ply, ...bestMove.info }
+        moves.push(move)
+        clocks.push(clock)
+        searches.push(search)
+        position = applyMove(position, legalMove)
+        history.push(positionKey(position))
+        fens.push(toFen(position))
+        options.onMove?.({ move, fen: fens[fens.length - 1], clock, search })
       }
 
-      return {
-        winner: 0,
-        reason: 'Draw by move limit',
-        moves
+      // The game may have ended on the very last ply
+      const terminal = getTerminalState(position, history)
+      if (terminal) {
+        return finish(terminal.winner ? playerOf(terminal.winner) : 0, terminal.reason)
       }
+
+      const decided = await adjudicator?.atMoveLimit(moves.length, fens[fens.length - 1], this.maxPlies)
+      throwIfAborted()
+      if (decided) return adjudicated(decided)
+      return finish(0, GAME_END_REASONS.MOVE_LIMIT, `Draw by move limit (${this.maxPlies} plies)`)
     } finally {
+      signal?.removeEventListener('abort', closeBots)
       // Cleanup bots
-      if (bot1?.stdin) bot1.stdin.write('quit\n')
-      if (bot2?.stdin) bot2.stdin.write('quit\n')
-      if (bot1) bot1.kill()
-      if (bot2) bot2.kill()
+      closeBots()
     }
   }
 
-  async startMatch(userAgentPath: string, opponentPath: string): Promise<{
-    winner: number;
-    reason: string;
-    moves: string[];
-  }> {
-    return this.runMatch(userAgentPath, opponentPath)
+  async startMatch(userAgentPath: AgentProgram, opponentPath: AgentProgram, options: MatchOptions = {}): Promise<GameResult> {
+    return this.runMatch(userAgentPath, opponentPath, options)
   }
 
-  async evaluatePosition(fen: string, timeLimit: number = 1000): Promise<{
-    isGameOver: boolean;
-    winner: number;
-    reason: string;
-    bestMove?: string;
-  }> {
-    try {
-      const data = await this.makeApiRequest('/evaluate', {
-        fen,
-        timeLimit
-      })
-      
-      return {
-        isGameOver: data.isGameOver,
-        winner: data.winner,
-        reason: data.reason,
-        bestMove: data.bestMove
-      }
-    } catch (error) {
-      console.error('Failed to evaluate position:', error)
-      throw error
-    }
+  // Whether the game is over in a position, by the rules or by a decisive Stockfish evaluation
+  async evaluatePosition(fen: string, timeLimit: number = 1000): Promise<Adjudication> {
+    return stockfish.adjudicate(fen, { moveTimeMs: timeLimit })
   }
 
+  // Stops the shared Stockfish processes, for scripts that should exit when done
   cleanup(): void {
-    if (this.keepAliveTimer) {
-      clearInterval(this.keepAliveTimer)
-      this.keepAliveTimer = null
-    }
+    stockfish.close()
   }
 } 
\ No newline at end of file
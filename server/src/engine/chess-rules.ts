@@ -0,0 +1,481 @@
+// Pure TypeScript chess rules: FEN handling, legal move generation and move application.
+// Squares are indexed 0-63 with a1 = 0, h1 = 7, a8 = 56 and h8 = 63.
+
+export type Color = 'w' | 'b'
+export type PieceType = 'p' | 'n' | 'b' | 'r' | 'q' | 'k'
+
+export interface Piece {
+  color: Color
+  type: PieceType
+}
+
+export interface CastlingRights {
+  whiteKingside: boolean
+  whiteQueenside: boolean
+  blackKingside: boolean
+  blackQueenside: boolean
+}
+
+export interface Position {
+  board: (Piece | null)[]
+  turn: Color
+  castling: CastlingRights
+  epSquare: number | null
+  halfmoveClock: number
+  fullmoveNumber: number
+}
+
+export type MoveFlag = 'normal' | 'capture' | 'double-push' | 'en-passant' | 'castle-kingside' | 'castle-queenside'
+
+export interface Move {
+  from: number
+  to: number
+  piece: PieceType
+  color: Color
+  captured?: PieceType
+  promotion?: PieceType
+  flag: MoveFlag
+}
+
+export const INITIAL_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
+
+const FILES = 'abcdefgh'
+const PROMOTION_PIECES: PieceType[] = ['q', 'r', 'b', 'n']
+
+const KNIGHT_OFFSETS: [number, number][] = [
+  [1, 2], [2, 1], [2, -1], [1, -2], [-1, -2], [-2, -1], [-2, 1], [-1, 2]
+]
+const KING_OFFSETS: [number, number][] = [
+  [1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1], [0, -1], [1, -1]
+]
+const ROOK_DIRECTIONS: [number, number][] = [[1, 0], [-1, 0], [0, 1], [0, -1]]
+const BISHOP_DIRECTIONS: [number, number][] = [[1, 1], [1, -1], [-1, 1], [-1, -1]]
+
+export function fileOf(square: number): number {
+  return square & 7
+}
+
+export function rankOf(square: number): number {
+  return square >> 3
+}
+
+export function squareName(square: number): string {
+  return `${FILES[fileOf(square)]}${rankOf(square) + 1}`
+}
+
+export function parseSquare(name: string): number | null {
+  if (!/^[a-h][1-8]$/.test(name)) return null
+  return (Number(name[1]) - 1) * 8 + FILES.indexOf(name[0])
+}
+
+export function opposite(color: Color): Color {
+  return color === 'w' ? 'b' : 'w'
+}
+
+function offsetSquare(square: number, df: number, dr: number): number | null {
+  const file = fileOf(square) + df
+  const rank = rankOf(square) + dr
+  if (file < 0 || file > 7 || rank < 0 || rank > 7) return null
+  return rank * 8 + file
+}
+
+function pieceToChar(piece: Piece): string {
+  return piece.color === 'w' ? piece.type.toUpperCase() : piece.type
+}
+
+function charToPiece(char: string): Piece | null {
+  const type = char.toLowerCase()
+  if (!'pnbrqk'.includes(type)) return null
+  return { color: char === type ? 'b' : 'w', type: type as PieceType }
+}
+
+export function parseFen(fen: string): Position {
+  const fields = fen.trim().split(/\s+/)
+  if (fields.length < 4) {
+    throw new Error(`Invalid FEN: expected at least 4 fields in "${fen}"`)
+  }
+
+  const [placement, turn, castling, ep, halfmove = '0', fullmove = '1'] = fields
+  const rows = placement.split('/')
+  if (rows.length !== 8) {
+    throw new Error(`Invalid FEN: expected 8 ranks in "${fen}"`)
+  }
+
+  const board: (Piece | null)[] = new Array(64).fill(null)
+  rows.forEach((row, index) => {
+    const rank = 7 - index
+    let file = 0
+    for (const char of row) {
+      if (/[1-8]/.test(char)) {
+        file += Number(char)
+        continue
+      }
+      const piece = charToPiece(char)
+      if (!piece || file > 7) {
+        throw new Error(`Invalid FEN: bad rank "${row}" in "${fen}"`)
+      }
+      board[rank * 8 + file] = piece
+      file++
+    }
+    if (file !== 8) {
+      throw new Error(`Invalid FEN: rank "${row}" does not cover 8 files in "${fen}"`)
+    }
+  })
+
+  if (turn !== 'w' && turn !== 'b') {
+    throw new Error(`Invalid FEN: bad side to move "${turn}"`)
+  }
+  if (!/^(-|K?Q?k?q?)$/.test(castling) || castling === '') {
+    throw new Error(`Invalid FEN: bad castling rights "${castling}"`)
+  }
+
+  let epSquare: number | null = null
+  if (ep !== '-') {
+    epSquare = parseSquare(ep)
+    if (epSquare === null || (rankOf(epSquare) !== 2 && rankOf(epSquare) !== 5)) {
+      throw new Error(`Invalid FEN: bad en passant square "${ep}"`)
+    }
+  }
+
+  const halfmoveClock = Number(halfmove)
+  const fullmoveNumber = Number(fullmove)
+  if (!Number.isInteger(halfmoveClock) || halfmoveClock < 0 || !Number.isInteger(fullmoveNumber) || fullmoveNumber < 1) {
+    throw new Error(`Invalid FEN: bad move counters in "${fen}"`)
+  }
+
+  for (const color of ['w', 'b'] as Color[]) {
+    const kings = board.filter(piece => piece?.type === 'k' && piece.color === color).length
+    if (kings !== 1) {
+      throw new Error(`Invalid FEN: expected exactly one ${color === 'w' ? 'white' : 'black'} king`)
+    }
+  }
+
+  return {
+    board,
+    turn,
+    castling: {
+      whiteKingside: castling.includes('K'),
+      whiteQueenside: castling.includes('Q'),
+      blackKingside: castling.includes('k'),
+      blackQueenside: castling.includes('q')
+    },
+    epSquare,
+    halfmoveClock,
+    fullmoveNumber
+  }
+}
+
+export function toFen(position: Position): string {
+  const rows: string[] = []
+  for (let rank = 7; rank >= 0; rank--) {
+    let row = ''
+    let empty = 0
+    for (let file = 0; file < 8; file++) {
+      const piece = position.board[rank * 8 + file]
+      if (!piece) {
+        empty++
+        continue
+      }
+      if (empty > 0) {
+        row += empty
+        empty = 0
+      }
+      row += pieceToChar(piece)
+    }
+    if (empty > 0) row += empty
+    rows.push(row)
+  }
+
+  const { whiteKingside, whiteQueenside, blackKingside, blackQueenside } = position.castling
+  const castling = `${whiteKingside ? 'K' : ''}${whiteQueenside ? 'Q' : ''}${blackKingside ? 'k' : ''}${blackQueenside ? 'q' : ''}` || '-'
+  const ep = position.epSquare === null ? '-' : squareName(position.epSquare)
+
+  return `${rows.join('/')} ${position.turn} ${castling} ${ep} ${position.halfmoveClock} ${position.fullmoveNumber}`
+}
+
+export function findKing(position: Position, color: Color): number {
+  return position.board.findIndex(piece => piece?.type === 'k' && piece.color === color)
+}
+
+export function isSquareAttacked(position: Position, square: number, by: Color): boolean {
+  const { board } = position
+
+  // Pawns attack diagonally forward, so look one rank "behind" the target from the attacker's side
+  const pawnRank = by === 'w' ? -1 : 1
+  for (const df of [-1, 1]) {
+    const from = offsetSquare(square, df, pawnRank)
+    const piece = from === null ? null : board[from]
+    if (piece && piece.color === by && piece.type === 'p') return true
+  }
+
+  for (const [df, dr] of KNIGHT_OFFSETS) {
+    const from = offsetSquare(square, df, dr)
+    const piece = from === null ? null : board[from]
+    if (piece && piece.color === by && piece.type === 'n') return true
+  }
+
+  for (const [df, dr] of KING_OFFSETS) {
+    const from = offsetSquare(square, df, dr)
+    const piece = from === null ? null : board[from]
+    if (piece && piece.color === by && piece.type === 'k') return true
+  }
+
+  const slides: [[number, number][], PieceType][] = [[ROOK_DIRECTIONS, 'r'], [BISHOP_DIRECTIONS, 'b']]
+  for (const [directions, slider] of slides) {
+    for (const [df, dr] of directions) {
+      let from = offsetSquare(square, df, dr)
+      while (from !== null) {
+        const piece = board[from]
+        if (piece) {
+          if (piece.color === by && (piece.type === slider || piece.type === 'q')) return true
+          break
+        }
+        from = offsetSquare(from, df, dr)
+      }
+    }
+  }
+
+  return false
+}
+
+export function isInCheck(position: Position, color: Color = position.turn): boolean {
+  const king = findKing(position, color)
+  return king !== -1 && isSquareAttacked(position, king, opposite(color))
+}
+
+function generatePseudoLegalMoves(position: Position): Move[] {
+  const { board, turn: color } = position
+  const moves: Move[] = []
+
+  const push = (from: number, to: number, piece: PieceType, flag: MoveFlag, captured?: PieceType) => {
+    if (piece === 'p' && (rankOf(to) === 7 || rankOf(to) === 0)) {
+      for (const promotion of PROMOTION_PIECES) {
+        moves.push({ from, to, piece, color, captured, promotion, flag })
+      }
+      return
+    }
+    moves.push({ from, to, piece, color, captured, flag })
+  }
+
+  for (let from = 0; from < 64; from++) {
+    const piece = board[from]
+    if (!piece || piece.color !== color) continue
+
+    switch (piece.type) {
+      case 'p': {
+        const dir = color === 'w' ? 1 : -1
+        const startRank = color === 'w' ? 1 : 6
+        const one = offsetSquare(from, 0, dir)
+        if (one !== null && !board[one]) {
+          push(from, one, 'p', 'normal')
+          const two = offsetSquare(from, 0, dir * 2)
+          if (rankOf(from) === startRank && two !== null && !board[two]) {
+            push(from, two, 'p', 'double-push')
+          }
+        }
+        for (const df of [-1, 1]) {
+          const to = offsetSquare(from, df, dir)
+          if (to === null) continue
+          const target = board[to]
+          if (target && target.color !== color) {
+            push(from, to, 'p', 'capture', target.type)
+          } else if (to === position.epSquare) {
+            push(from, to, 'p', 'en-passant', 'p')
+          }
+        }
+        break
+      }
+      case 'n':
+      case 'k': {
+        const offsets = piece.type === 'n' ? KNIGHT_OFFSETS : KING_OFFSETS
+        for (const [df, dr] of offsets) {
+          const to = offsetSquare(from, df, dr)
+          if (to === null) continue
+          const target = board[to]
+          if (!target) {
+            push(from, to, piece.type, 'normal')
+          } else if (target.color !== color) {
+            push(from, to, piece.type, 'capture', target.type)
+          }
+        }
+        break
+      }
+      default: {
+        const directions = piece.type === 'r' ? ROOK_DIRECTIONS
+          : piece.type === 'b' ? BISHOP_DIRECTIONS
+          : [...ROOK_DIRECTIONS, ...BISHOP_DIRECTIONS]
+        for (const [df, dr] of directions) {
+          let to = offsetSquare(from, df, dr)
+          while (to !== null) {
+            const target = board[to]
+            if (target) {
+              if (target.color !== color) push(from, to, piece.type, 'capture', target.type)
+              break
+            }
+            push(from, to, piece.type, 'normal')
+            to = offsetSquare(to, df, dr)
+          }
+        }
+      }
+    }
+  }
+
+  // Castling: rights, empty path, and the king may not start in, pass through or land on an attacked square
+  const homeRank = color === 'w' ? 0 : 56
+  const king = homeRank + 4
+  const enemy = opposite(color)
+  const kingside = color === 'w' ? position.castling.whiteKingside : position.castling.blackKingside
+  const queenside = color === 'w' ? position.castling.whiteQueenside : position.castling.blackQueenside
+  const hasRook = (square: number) => board[square]?.type === 'r' && board[square]?.color === color
+
+  if (board[king]?.type === 'k' && board[king]?.color === color && (kingside || queenside)
+    && !isSquareAttacked(position, king, enemy)) {
+    if (kingside && hasRook(homeRank + 7) && !board[homeRank + 5] && !board[homeRank + 6]
+      && !isSquareAttacked(position, homeRank + 5, enemy) && !isSquareAttacked(position, homeRank + 6, enemy)) {
+      moves.push({ from: king, to: homeRank + 6, piece: 'k', color, flag: 'castle-kingside' })
+    }
+    if (queenside && hasRook(homeRank) && !board[homeRank + 1] && !board[homeRank + 2] && !board[homeRank + 3]
+      && !isSquareAttacked(position, homeRank + 3, enemy) && !isSquareAttacked(position, homeRank + 2, enemy)) {
+      moves.push({ from: king, to: homeRank + 2, piece: 'k', color, flag: 'castle-queenside' })
+    }
+  }
+
+  return moves
+}
+
+export function applyMove(position: Position, move: Move): Position {
+  const board = position.board.slice()
+  const castling = { ...position.castling }
+  const moving = board[move.from]
+
+  if (!moving) {
+    throw new Error(`No piece on ${squareName(move.from)}`)
+  }
+
+  board[move.from] = null
+  board[move.to] = move.promotion ? { color: moving.color, type: move.promotion } : moving
+
+  if (move.flag === 'en-passant') {
+    board[move.to + (moving.color === 'w' ? -8 : 8)] = null
+  } else if (move.flag === 'castle-kingside') {
+    board[move.to - 1] = board[move.to + 1]
+    board[move.to + 1] = null
+  } else if (move.flag === 'castle-queenside') {
+    board[move.to + 1] = board[move.to - 2]
+    board[move.to - 2] = null
+  }
+
+  // Any move from or to a corner or king square clears the matching castling rights
+  const touched = [move.from, move.to]
+  if (touched.includes(4)) castling.whiteKingside = castling.whiteQueenside = false
+  if (touched.includes(60)) castling.blackKingside = castling.blackQueenside = false
+  if (touched.includes(0)) castling.whiteQueenside = false
+  if (touched.includes(7)) castling.whiteKingside = false
+  if (touched.includes(56)) castling.blackQueenside = false
+  if (touched.includes(63)) castling.blackKingside = false
+
+  return {
+    board,
+    turn: opposite(position.turn),
+    castling,
+    epSquare: move.flag === 'double-push' ? (move.from + move.to) / 2 : null,
+    halfmoveClock: move.piece === 'p' || move.captured ? 0 : position.halfmoveClock + 1,
+    fullmoveNumber: position.turn === 'b' ? position.fullmoveNumber + 1 : position.fullmoveNumber
+  }
+}
+
+export function generateLegalMoves(position: Position): Move[] {
+  return generatePseudoLegalMoves(position).filter(move => !isInCheck(applyMove(position, move), position.turn))
+}
+
+export function moveToUci(move: Move): string {
+  return `${squareName(move.from)}${squareName(move.to)}${move.promotion ?? ''}`
+}
+
+// Returns the legal move matching a UCI string such as "e2e4" or "e7e8q", or null if it is not legal
+export function findLegalMove(position: Position, uci: string): Move | null {
+  const match = /^([a-h][1-8])([a-h][1-8])([qrbn])?$/.exec(uci.trim())
+  if (!match) return null
+
+  const from = parseSquare(match[1])
+  const to = parseSquare(match[2])
+  const promotion = match[3] as PieceType | undefined
+
+  return generateLegalMoves(position).find(move =>
+    move.from === from && move.to === to && move.promotion === promotion
+  ) ?? null
+}
+
+export function applyUciMove(position: Position, uci: string): Position {
+  const move = findLegalMove(position, uci)
+  if (!move) {
+    throw new Error(`Illegal move ${uci} in position ${toFen(position)}`)
+  }
+  return applyMove(position, move)
+}
+
+// Identity of a position for repetition purposes: placement, side to move, castling rights and a
+// capturable en passant square. Move counters are deliberately left out.
+export function positionKey(position: Position): string {
+  const [placement, turn, castling] = toFen(position).split(' ')
+  const epCapturable = position.epSquare !== null
+    && generateLegalMoves(position).some(move => move.flag === 'en-passant')
+  return `${placement} ${turn} ${castling} ${epCapturable ? squareName(position.epSquare!) : '-'}`
+}
+
+// True when neither side can possibly deliver mate: K v K, K+minor v K, or only same-coloured bishops
+export function isInsufficientMaterial(position: Position): boolean {
+  const others: { piece: Piece; square: number }[] = []
+  position.board.forEach((piece, square) => {
+    if (piece && piece.type !== 'k') others.push({ piece, square })
+  })
+
+  if (others.length === 0) return true
+  if (others.length === 1) return others[0].piece.type === 'n' || others[0].piece.type === 'b'
+  if (others.every(({ piece }) => piece.type === 'b')) {
+    const squareColors = new Set(others.map(({ square }) => (fileOf(square) + rankOf(square)) % 2))
+    return squareColors.size === 1
+  }
+  return false
+}
+
+export type TerminalReason = 'checkmate' | 'stalemate' | 'insufficient_material' | 'fifty_move_rule' | 'threefold_repetition'
+
+export interface TerminalState {
+  reason: TerminalReason
+  winner: Color | null
+}
+
+// Checks whether the game is over in the given position. `history` holds the positionKey of every
+// position reached so far, including the current one.
+export function getTerminalState(position: Position, history: string[] = []): TerminalState | null {
+  if (generateLegalMoves(position).length === 0) {
+    return isInCheck(position)
+      ? { reason: 'checkmate', winner: opposite(position.turn) }
+      : { reason: 'stalemate', winner: null }
+  }
+
+  if (isInsufficientMaterial(position)) {
+    return { reason: 'insufficient_material', winner: null }
+  }
+
+  if (position.halfmoveClock >= 100) {
+    return { reason: 'fifty_move_rule', winner: null }
+  }
+
+  const key = positionKey(position)
+  if (history.filter(entry => entry === key).length >= 3) {
+    return { reason: 'threefold_repetition', winner: null }
+  }
+
+  return null
+}
+
+// Whether `color` keeps any material that could deliver mate. Used when a side runs out of time:
+// a lone king or king and single minor piece cannot win, so the game is drawn instead.
+export function hasMatingMaterial(position: Position, color: Color): boolean {
+  const pieces = position.board.filter(piece => piece && piece.color === color && piece.type !== 'k') as Piece[]
+  if (pieces.length === 0) return false
+  if (pieces.length === 1 && (pieces[0].type === 'n' || pieces[0].type === 'b')) return false
+  return true
+}
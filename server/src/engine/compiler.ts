@@ -0,0 +1,269 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { SandboxBind, SandboxLimits, SandboxRunner } from './sandbox'
+import { AgentLanguage, TOOLCHAINS, Toolchain, ToolchainCommand, languageOf } from './toolchains'
+
+// Builds agent sources with their language's toolchain inside the sandbox. Successful builds are
+// cached by language and source hash, so a source is compiled once however many matches it plays:
+//
+//   <cacheDir>/<language>-<sha256>/<artifactName>   the executable, or the checked script
+//   <cacheDir>/<language>-<sha256>/build.json       toolchain version, log and duration
+//
+// Failed builds are not cached; fixing the toolchain is enough to build the source again.
+
+export interface AgentArtifact {
+  language: AgentLanguage
+  path: string
+}
+
+export type BuildStatus = 'succeeded' | 'failed'
+
+export interface BuildOutput {
+  language: AgentLanguage
+  sourceHash: string
+  status: BuildStatus
+  artifact: AgentArtifact | null
+  toolchainVersion: string
+  log: string
+  durationMs: number
+  // Served from the artifact cache without running the toolchain
+  cached: boolean
+}
+
+interface CachedBuild {
+  toolchainVersion: string
+  log: string
+  durationMs: number
+}
+
+interface CommandResult {
+  output: string
+  error: string | null
+}
+
+// Compiler output beyond this is cut, e.g. template errors repeated for every instantiation
+const MAX_LOG_LENGTH = 64 * 1024
+
+function appendLog(log: string, text: string): string {
+  if (log.length >= MAX_LOG_LENGTH) return log
+  const combined = log + text
+  return combined.length > MAX_LOG_LENGTH ? `${combined.slice(0, MAX_LOG_LENGTH)}\n[log truncated]\n` : combined
+}
+
+function formatCommand(command: ToolchainCommand): string {
+  return `$ ${[command.command, ...command.args].join(' ')}\n`
+}
+
+// Compilers fork helpers (cc1plus, as, ld) and need more memory than a running agent. Compiling
+// is parallel enough that the CPU allowance is twice the wall-clock timeout.
+function buildLimits(toolchain: Toolchain): Partial<SandboxLimits> {
+  return { cpuSeconds: Math.ceil(toolchain.timeoutMs / 500), memoryMb: 1536, maxProcesses: 16 }
+}
+
+export class AgentCompiler {
+  private readonly inFlight = new Map<string, Promise<BuildOutput>>()
+  private readonly versions = new Map<AgentLanguage, Promise<string>>()
+
+  constructor(
+    private readonly cacheDir: string = process.env.BUILD_CACHE_DIR || path.join(process.cwd(), 'uploads', 'builds'),
+    private readonly sandbox: SandboxRunner = new SandboxRunner()
+  ) {}
+
+  async build(sourcePath: string): Promise<BuildOutput> {
+    const language = languageOf(sourcePath)
+    if (!language) {
+      throw new Error(`Unsupported agent source ${path.basename(sourcePath)}`)
+    }
+    const sourceHash = crypto.createHash('sha256').update(fs.readFileSync(sourcePath)).digest('hex')
+    const key = `${language}-${sourceHash}`
+
+    const pending = this.inFlight.get(key)
+    if (pending) return pending
+
+    const cached = this.readCache(key, language, sourceHash)
+    if (cached) return cached
+
+    const build = this.compile(sourcePath, key, language, sourceHash).finally(() => this.inFlight.delete(key))
+    this.inFlight.set(key, build)
+    return build
+  }
+
+  private readCache(key: string, language: AgentLanguage, sourceHash: string): BuildOutput | null {
+    const dir = path.join(this.cacheDir, key)
+    const artifactPath = path.join(dir, TOOLCHAINS[language].artifactName)
+    const metadataPath = path.join(dir, 'build.json')
+    if (!fs.existsSync(artifactPath) || !fs.existsSync(metadataPath)) return null
+
+    try {
+      const metadata: CachedBuild = JSON.parse(fs.readFileSync(metadataPath, 'utf8'))
+      return {
+        language,
+        sourceHash,
+        status: 'succeeded',
+        artifact: { language, path: artifactPath },
+        toolchainVersion: metadata.toolchainVersion,
+        log: metadata.log,
+        durationMs: metadata.durationMs,
+        cached: true
+      }
+    } catch {
+      // A damaged cache entry is rebuilt
+      return null
+    }
+  }
+
+  private async compile(sourcePath: string, key: string, language: AgentLanguage, sourceHash: string): Promise<BuildOutput> {
+    const toolchain = TOOLCHAINS[language]
+    const startedAt = Date.now()
+    // The toolchain only sees the single source file and an empty output directory
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-build-'))
+    const srcDir = path.join(workDir, 'src')
+    const outDir = path.join(workDir, 'out')
+    fs.mkdirSync(srcDir)
+    fs.mkdirSync(path.join(outDir, 'tmp'), { recursive: true })
+
+    const toolchainVersion = await this.toolchainVersion(toolchain)
+    let log = `${toolchain.label}: ${toolchainVersion}\n`
+
+    const failed = (reason: string): BuildOutput => ({
+      language,
+      sourceHash,
+      status: 'failed',
+      artifact: null,
+      toolchainVersion,
+      log: appendLog(log, `${reason}\n`),
+      durationMs: Date.now() - startedAt,
+      cached: false
+    })
+
+    try {
+      let source = fs.readFileSync(sourcePath, 'utf8')
+      if (toolchain.prepare) {
+        const prepared = toolchain.prepare(source)
+        log = appendLog(log, prepared.log)
+        if (!prepared.ok) return failed('Build failed while preparing the source')
+        source = prepared.source
+      }
+      fs.writeFileSync(path.join(srcDir, toolchain.sourceName), source)
+
+      log = appendLog(log, formatCommand(toolchain.build))
+      const result = await this.runCommand(toolchain.build, [
+        { source: srcDir, target: '/sandbox/src' },
+        { source: outDir, target: '/sandbox/out', writable: true }
+      ], buildLimits(toolchain), toolchain.timeoutMs)
+      log = appendLog(log, result.output)
+      if (result.error) return failed(result.error)
+
+      const builtPath = toolchain.compiled
+        ? path.join(outDir, toolchain.artifactName)
+        : path.join(srcDir, toolchain.sourceName)
+      if (!fs.existsSync(builtPath)) {
+        return failed(`Build succeeded but ${toolchain.artifactName} was not created`)
+      }
+
+      const durationMs = Date.now() - startedAt
+      log = appendLog(log, `Build succeeded in ${durationMs}ms\n`)
+      return this.store(key, builtPath, toolchain, { toolchainVersion, log, durationMs }, sourceHash)
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true })
+    }
+  }
+
+  // Moves a finished build into the cache. Staging inside the cache directory keeps the final
+  // rename on one filesystem, so a concurrent build of the same source never sees half an entry.
+  private store(key: string, builtPath: string, toolchain: Toolchain, metadata: CachedBuild, sourceHash: string): BuildOutput {
+    fs.mkdirSync(this.cacheDir, { recursive: true })
+    const stageDir = fs.mkdtempSync(path.join(this.cacheDir, `.${key}-`))
+    fs.copyFileSync(builtPath, path.join(stageDir, toolchain.artifactName))
+    if (toolchain.compiled && process.platform !== 'win32') {
+      fs.chmodSync(path.join(stageDir, toolchain.artifactName), 0o755)
+    }
+    fs.writeFileSync(path.join(stageDir, 'build.json'), JSON.stringify(metadata))
+
+    const dir = path.join(this.cacheDir, key)
+    try {
+      fs.renameSync(stageDir, dir)
+    } catch (error) {
+      // Another worker cached the same source first
+      fs.rmSync(stageDir, { recursive: true, force: true })
+      if (!fs.existsSync(dir)) throw error
+    }
+
+    return {
+      language: toolchain.language,
+      sourceHash,
+      status: 'succeeded',
+      artifact: { language: toolchain.language, path: path.join(dir, toolchain.artifactName) },
+      ...metadata,
+      cached: false
+    }
+  }
+
+  private toolchainVersion(toolchain: Toolchain): Promise<string> {
+    let version = this.versions.get(toolchain.language)
+    if (!version) {
+      version = this.runCommand(toolchain.version, [], buildLimits(toolchain), 10000).then(result => {
+        const firstLine = result.output.split('\n').find(line => line.trim())?.trim()
+        if (result.error || !firstLine) {
+          // Asked again next time, e.g. once the toolchain is installed
+          this.versions.delete(toolchain.language)
+          return 'unknown version'
+        }
+        return firstLine
+      }, error => {
+        this.versions.delete(toolchain.language)
+        throw error
+      })
+      this.versions.set(toolchain.language, version)
+    }
+    return version
+  }
+
+  private runCommand(
+    command: ToolchainCommand,
+    binds: SandboxBind[],
+    limits: Partial<SandboxLimits>,
+    timeoutMs: number
+  ): Promise<CommandResult> {
+    return new Promise(resolve => {
+      const sandboxed = this.sandbox.spawn(command.command, command.args, { binds, env: command.env, limits })
+      const child = sandboxed.child
+      let output = ''
+      let timedOut = false
+      let settled = false
+
+      const settle = (error: string | null) => {
+        if (settled) return
+        settled = true
+        clearTimeout(timeout)
+        resolve({ output, error })
+      }
+
+      const collect = (data: Buffer) => {
+        output = appendLog(output, data.toString())
+      }
+      child.stdout?.on('data', collect)
+      child.stderr?.on('data', collect)
+
+      child.on('error', error => settle(`Could not run ${command.command}: ${error.message}`))
+      child.on('close', code => {
+        if (sandboxed.violation) {
+          settle(`Build stopped by sandbox (${sandboxed.violation}): ${sandboxed.detail}`)
+        } else if (timedOut) {
+          settle(`Build timed out after ${timeoutMs / 1000} seconds`)
+        } else if (code !== 0) {
+          settle(`Build failed with code ${code}`)
+        } else {
+          settle(null)
+        }
+      })
+
+      const timeout = setTimeout(() => {
+        timedOut = true
+        sandboxed.kill()
+      }, timeoutMs)
+    })
+  }
+}
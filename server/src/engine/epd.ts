@@ -0,0 +1,74 @@
+import { getTerminalState, parseFen, toFen } from './chess-rules'
+
+// Extended Position Description: one position per line, the first four FEN fields followed by
+// operations such as `id "Ruy Lopez"; hmvc 0; fmvn 4;`. The move counters come from the hmvc and
+// fmvn operations; lines that end in plain FEN counters are accepted too.
+
+export interface EpdRecord {
+  // A full FEN, counters included
+  fen: string
+  // Operands by opcode, quotes removed
+  operations: Record<string, string>
+}
+
+// Splits the operations part on semicolons outside quoted strings
+function splitOperations(text: string): string[] {
+  const operations: string[] = []
+  let current = ''
+  let quoted = false
+  for (const char of text) {
+    if (char === '"') quoted = !quoted
+    if (char === ';' && !quoted) {
+      operations.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  if (quoted) throw new Error('unterminated string')
+  if (current.trim()) operations.push(current.trim())
+  return operations.filter(Boolean)
+}
+
+function parseOperation(operation: string): [string, string] {
+  const match = operation.match(/^(\S+)\s*(.*)$/)!
+  const operand = match[2].trim()
+  return [match[1], operand.startsWith('"') && operand.endsWith('"') ? operand.slice(1, -1) : operand]
+}
+
+// Parses every position of an EPD file. Blank lines and lines starting with # are skipped. Throws
+// on the first invalid line, and on positions where the game is already over.
+export function parseEpd(text: string): EpdRecord[] {
+  const records: EpdRecord[] = []
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#')) return
+
+    try {
+      const fields = line.split(/\s+/)
+      if (fields.length < 4) throw new Error('expected at least 4 FEN fields')
+      let rest = line.replace(/^(\S+\s+){3}\S+\s*/, '')
+
+      // A full FEN's counters, when the line has no operations in their place
+      let counters: string[] = []
+      const plainCounters = rest.match(/^(\d+)\s+(\d+)(\s+|$)/)
+      if (plainCounters) {
+        counters = [plainCounters[1], plainCounters[2]]
+        rest = rest.slice(plainCounters[0].length)
+      }
+
+      const operations = Object.fromEntries(splitOperations(rest).map(parseOperation))
+      const halfmove = operations.hmvc ?? counters[0] ?? '0'
+      const fullmove = operations.fmvn ?? counters[1] ?? '1'
+      const position = parseFen(`${fields.slice(0, 4).join(' ')} ${halfmove} ${fullmove}`)
+      if (getTerminalState(position)) throw new Error('the game is already over in this position')
+
+      records.push({ fen: toFen(position), operations })
+    } catch (error) {
+      throw new Error(`Invalid EPD (line ${index + 1}): ${error instanceof Error ? error.message : String(error)}`)
+    }
+  })
+
+  return records
+}
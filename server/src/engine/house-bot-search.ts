@@ -0,0 +1,119 @@
+import { Move, PieceType, Position, applyMove, generateLegalMoves, isInCheck } from './chess-rules'
+
+// Move choice for the built-in practice opponents. They play legal chess but look no further than
+// material: the greedy bot one move ahead, the minimax bot a few plies.
+
+export interface HouseBotChoice {
+  move: Move
+  // Centipawns from the mover's point of view, when the bot evaluated the position
+  scoreCp?: number
+  depth?: number
+  nodes: number
+}
+
+const PIECE_VALUES: Record<PieceType, number> = { p: 100, n: 320, b: 330, r: 500, q: 900, k: 0 }
+export const MATE_SCORE = 100000
+
+// Ran out of time mid-search; the last completed depth is used
+class SearchTimeout extends Error {}
+
+function pickAtRandom<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)]
+}
+
+// Material from the side to move's point of view
+function material(position: Position): number {
+  let score = 0
+  for (const piece of position.board) {
+    if (!piece) continue
+    score += piece.color === position.turn ? PIECE_VALUES[piece.type] : -PIECE_VALUES[piece.type]
+  }
+  return score
+}
+
+function materialGain(move: Move): number {
+  return (move.captured ? PIECE_VALUES[move.captured] : 0)
+    + (move.promotion ? PIECE_VALUES[move.promotion] - PIECE_VALUES.p : 0)
+}
+
+// Captures and promotions first, most valuable victim by least valuable attacker, so alpha-beta
+// cuts early
+function orderMoves(moves: Move[]): Move[] {
+  return moves
+    .map(move => ({ move, key: materialGain(move) * 10 - (move.captured ? PIECE_VALUES[move.piece] / 10 : 0) }))
+    .sort((a, b) => b.key - a.key)
+    .map(({ move }) => move)
+}
+
+export function chooseRandomMove(position: Position): HouseBotChoice | null {
+  const moves = generateLegalMoves(position)
+  return moves.length > 0 ? { move: pickAtRandom(moves), nodes: 1 } : null
+}
+
+// Mates when it can, otherwise wins the most material it can right now, whatever it may lose next
+export function chooseGreedyMove(position: Position): HouseBotChoice | null {
+  const moves = generateLegalMoves(position)
+  if (moves.length === 0) return null
+
+  let best: Move[] = []
+  let bestScore = -Infinity
+  for (const move of moves) {
+    const next = applyMove(position, move)
+    const mates = isInCheck(next) && generateLegalMoves(next).length === 0
+    const score = mates ? MATE_SCORE : materialGain(move)
+    if (score > bestScore) {
+      best = [move]
+      bestScore = score
+    } else if (score === bestScore) {
+      best.push(move)
+    }
+  }
+  return { move: pickAtRandom(best), scoreCp: bestScore, depth: 1, nodes: moves.length }
+}
+
+// Alpha-beta over material to a fixed depth, deepening one ply at a time so that running out of
+// time still leaves the best move of the last finished depth. Equal moves are picked at random.
+export function chooseMinimaxMove(position: Position, depth: number, deadline: number): HouseBotChoice | null {
+  const rootMoves = orderMoves(generateLegalMoves(position))
+  if (rootMoves.length === 0) return null
+
+  let nodes = 0
+  const search = (current: Position, remaining: number, ply: number, alpha: number, beta: number): number => {
+    nodes++
+    if ((nodes & 1023) === 0 && Date.now() > deadline) throw new SearchTimeout()
+
+    const moves = generateLegalMoves(current)
+    if (moves.length === 0) return isInCheck(current) ? -MATE_SCORE + ply : 0
+    if (remaining === 0) return material(current)
+
+    for (const move of orderMoves(moves)) {
+      const score = -search(applyMove(current, move), remaining - 1, ply + 1, -beta, -alpha)
+      if (score >= beta) return score
+      if (score > alpha) alpha = score
+    }
+    return alpha
+  }
+
+  let choice: HouseBotChoice = { move: pickAtRandom(rootMoves), nodes: 0 }
+  for (let target = 1; target <= depth; target++) {
+    try {
+      let best: Move[] = []
+      let bestScore = -Infinity
+      for (const move of rootMoves) {
+        // A window one wider than the best so far keeps moves that tie with it exact
+        const score = -search(applyMove(position, move), target - 1, 1, -Infinity, -(bestScore - 1))
+        if (score > bestScore) {
+          best = [move]
+          bestScore = score
+        } else if (score === bestScore) {
+          best.push(move)
+        }
+      }
+      choice = { move: pickAtRandom(best), scoreCp: bestScore, depth: target, nodes }
+    } catch (error) {
+      if (error instanceof SearchTimeout) break
+      throw error
+    }
+  }
+  return { ...choice, nodes }
+}
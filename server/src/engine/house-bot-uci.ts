@@ -0,0 +1,102 @@
+import readline from 'readline'
+import { INITIAL_FEN, Position, applyUciMove, moveToUci, parseFen } from './chess-rules'
+import { HouseBotChoice, MATE_SCORE, chooseGreedyMove, chooseMinimaxMove, chooseRandomMove } from './house-bot-search'
+
+// A house bot as a UCI engine on stdin and stdout, so matches play it like any agent:
+//   node house-bot-uci.js random | greedy | minimax <depth>
+// Only the commands the match engine sends are understood; the rest are ignored.
+
+const [style, depthArg] = process.argv.slice(2)
+const depth = Math.max(1, Math.min(3, Number(depthArg) || 1))
+const NAMES: Record<string, string> = {
+  random: 'Random bot',
+  greedy: 'Greedy bot',
+  minimax: `Minimax bot (depth ${depth})`
+}
+
+// Share of the remaining clock spent on one move, and what is kept back for pipe latency
+const CLOCK_FRACTION = 30
+const SAFETY_MS = 50
+
+let position: Position = parseFen(INITIAL_FEN)
+
+function send(line: string): void {
+  process.stdout.write(`${line}\n`)
+}
+
+// "position startpos|fen <fen> [moves ...]"
+function setPosition(args: string[]): void {
+  const movesAt = args.indexOf('moves')
+  const setup = movesAt === -1 ? args : args.slice(0, movesAt)
+  let next = parseFen(setup[0] === 'fen' ? setup.slice(1).join(' ') : INITIAL_FEN)
+  for (const move of movesAt === -1 ? [] : args.slice(movesAt + 1)) {
+    next = applyUciMove(next, move)
+  }
+  position = next
+}
+
+// The time this move may take, from "go movetime" or the side's clock and increment
+function moveBudgetMs(args: string[]): number {
+  const value = (name: string) => {
+    const index = args.indexOf(name)
+    return index === -1 ? undefined : Number(args[index + 1])
+  }
+  const movetime = value('movetime')
+  if (movetime !== undefined) return Math.max(1, movetime - SAFETY_MS)
+
+  const remaining = value(position.turn === 'w' ? 'wtime' : 'btime')
+  if (remaining === undefined) return 1000
+  const increment = value(position.turn === 'w' ? 'winc' : 'binc') ?? 0
+  return Math.max(1, Math.min(remaining / 2, remaining / CLOCK_FRACTION + increment / 2) - SAFETY_MS)
+}
+
+function scoreText(scoreCp: number): string {
+  if (Math.abs(scoreCp) < MATE_SCORE - 1000) return `cp ${scoreCp}`
+  const plies = MATE_SCORE - Math.abs(scoreCp)
+  return `mate ${scoreCp > 0 ? Math.ceil(plies / 2) : -Math.ceil(plies / 2)}`
+}
+
+function go(args: string[]): void {
+  const deadline = Date.now() + moveBudgetMs(args)
+  let choice: HouseBotChoice | null
+  if (style === 'random') choice = chooseRandomMove(position)
+  else if (style === 'greedy') choice = chooseGreedyMove(position)
+  else choice = chooseMinimaxMove(position, depth, deadline)
+
+  if (!choice) {
+    send('bestmove (none)')
+    return
+  }
+  const move = moveToUci(choice.move)
+  if (choice.scoreCp !== undefined) {
+    send(`info depth ${choice.depth ?? 1} score ${scoreText(choice.scoreCp)} nodes ${choice.nodes} pv ${move}`)
+  }
+  send(`bestmove ${move}`)
+}
+
+const input = readline.createInterface({ input: process.stdin })
+input.on('line', line => {
+  const [command, ...args] = line.trim().split(/\s+/)
+  switch (command) {
+    case 'uci':
+      send(`id name ${NAMES[style] ?? 'House bot'}`)
+      send('id author FightScript')
+      send('uciok')
+      break
+    case 'isready':
+      send('readyok')
+      break
+    case 'ucinewgame':
+      position = parseFen(INITIAL_FEN)
+      break
+    case 'position':
+      setPosition(args)
+      break
+    case 'go':
+      go(args)
+      break
+    case 'quit':
+      process.exit(0)
+  }
+})
+input.on('close', () => process.exit(0))
@@ -0,0 +1,102 @@
+import fs from 'fs'
+import path from 'path'
+import { TrustedProgram } from './chess-engine'
+import { StockfishUnavailableError, stockfish } from './stockfish'
+
+// The built-in practice opponents, weakest first. Each is played as a UCI engine the server trusts:
+// the TypeScript bots in house-bot-uci, Stockfish at a reduced skill level, or the original
+// aggressive bot built from source like an uploaded agent.
+
+export type HouseBotStyle = 'random' | 'greedy' | 'minimax' | 'stockfish' | 'aggressive'
+
+export interface HouseBot {
+  id: string
+  name: string
+  description: string
+  style: HouseBotStyle
+  // Minimax plies
+  depth?: number
+  // Stockfish's Skill Level, 0 to 20
+  skillLevel?: number
+}
+
+export const MAX_MINIMAX_DEPTH = 3
+export const MAX_SKILL_LEVEL = 20
+
+// Match jobs name a house bot with this prefix where an agent's source path would be
+const PATH_PREFIX = 'house:'
+
+const AGGRESSIVE_BOT_SOURCE = path.join(process.cwd(), 'src', 'engine', 'agents', 'aggressive_bot.cpp')
+
+export const HOUSE_BOTS: HouseBot[] = [
+  { id: 'random', name: 'Random bot', description: 'Plays any legal move at random', style: 'random' },
+  {
+    id: 'aggressive',
+    name: 'Aggressive bot',
+    description: 'Rushes its centre pawns and minor pieces out, whatever the position',
+    style: 'aggressive'
+  },
+  { id: 'greedy', name: 'Greedy bot', description: 'Mates when it can, otherwise grabs the most material', style: 'greedy' },
+  ...Array.from({ length: MAX_MINIMAX_DEPTH }, (_, index): HouseBot => ({
+    id: `minimax-${index + 1}`,
+    name: `Minimax bot (depth ${index + 1})`,
+    description: `Counts material ${index + 1} ${index === 0 ? 'ply' : 'plies'} ahead`,
+    style: 'minimax',
+    depth: index + 1
+  })),
+  ...Array.from({ length: MAX_SKILL_LEVEL + 1 }, (_, skillLevel): HouseBot => ({
+    id: `stockfish-${skillLevel}`,
+    name: `Stockfish (skill ${skillLevel})`,
+    description: skillLevel === MAX_SKILL_LEVEL ? 'Stockfish at full strength' : `Stockfish at skill level ${skillLevel} of ${MAX_SKILL_LEVEL}`,
+    style: 'stockfish',
+    skillLevel
+  }))
+]
+
+// The opponent of practice matches that do not pick one
+export const DEFAULT_HOUSE_BOT = 'aggressive'
+
+export function findHouseBot(id: string): HouseBot | undefined {
+  return HOUSE_BOTS.find(bot => bot.id === id)
+}
+
+// Whether the bot can be played on this server: Stockfish bots need a binary, the aggressive bot
+// its source
+export function houseBotAvailable(bot: HouseBot): boolean {
+  if (bot.style === 'stockfish') return stockfish.available
+  if (bot.style === 'aggressive') return fs.existsSync(AGGRESSIVE_BOT_SOURCE)
+  return true
+}
+
+export function houseBotPath(bot: HouseBot): string {
+  return `${PATH_PREFIX}${bot.id}`
+}
+
+// The bot a job's player path names, if it names one
+export function houseBotFromPath(playerPath: string): HouseBot | undefined {
+  return playerPath.startsWith(PATH_PREFIX) ? findHouseBot(playerPath.slice(PATH_PREFIX.length)) : undefined
+}
+
+// The TypeScript bots run from source under ts-node and compiled under dist
+function houseBotScript(args: string[]): TrustedProgram {
+  const extension = path.extname(__filename)
+  const script = path.join(__dirname, `house-bot-uci${extension}`)
+  const loader = extension === '.ts' ? ['-r', 'ts-node/register/transpile-only'] : []
+  return { command: process.execPath, args: [...loader, script, ...args] }
+}
+
+// What a match runs for the bot: a trusted program, or for the aggressive bot its source
+export function houseBotProgram(bot: HouseBot): TrustedProgram | string {
+  switch (bot.style) {
+    case 'random':
+    case 'greedy':
+      return houseBotScript([bot.style])
+    case 'minimax':
+      return houseBotScript(['minimax', String(bot.depth ?? 1)])
+    case 'stockfish':
+      if (!stockfish.config.path) throw new StockfishUnavailableError()
+      return { command: stockfish.config.path, args: [], uciOptions: { 'Skill Level': bot.skillLevel ?? MAX_SKILL_LEVEL } }
+    case 'aggressive':
+      return AGGRESSIVE_BOT_SOURCE
+  }
+}
@@ -0,0 +1,318 @@
+// PGN support: SAN conversion for the UCI moves the engine records, writing games out as PGN and
+// reading PGN files back into UCI move lists.
+import {
+  INITIAL_FEN,
+  Move,
+  PieceType,
+  Position,
+  applyMove,
+  fileOf,
+  generateLegalMoves,
+  isInCheck,
+  moveToUci,
+  parseFen,
+  parseSquare,
+  rankOf,
+  squareName,
+  toFen
+} from './chess-rules'
+
+export type PgnResult = '1-0' | '0-1' | '1/2-1/2' | '*'
+
+export interface PgnGame {
+  headers: Record<string, string>
+  startFen: string
+  moves: string[]
+  san: string[]
+  fens: string[]
+  result: PgnResult
+}
+
+export interface WritePgnOptions {
+  headers: Record<string, string>
+  moves: string[]
+  startFen?: string
+  result?: PgnResult
+  // Free-text comment placed after the last move, e.g. how the game ended
+  comment?: string
+}
+
+// Tags every PGN game must carry, in the order the standard requires
+const SEVEN_TAG_ROSTER = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result']
+const RESULTS: PgnResult[] = ['1-0', '0-1', '1/2-1/2', '*']
+const MAX_LINE_LENGTH = 80
+
+// SAN for a legal move in the given position, including check and mate suffixes
+export function moveToSan(position: Position, move: Move, legalMoves: Move[] = generateLegalMoves(position)): string {
+  let san: string
+
+  if (move.flag === 'castle-kingside') {
+    san = 'O-O'
+  } else if (move.flag === 'castle-queenside') {
+    san = 'O-O-O'
+  } else {
+    const capture = move.captured !== undefined || move.flag === 'en-passant'
+    const destination = squareName(move.to)
+
+    if (move.piece === 'p') {
+      san = capture ? `${squareName(move.from)[0]}x${destination}` : destination
+      if (move.promotion) san += `=${move.promotion.toUpperCase()}`
+    } else {
+      // Other pieces of the same kind that could also reach the destination
+      const rivals = legalMoves.filter(other =>
+        other.piece === move.piece && other.to === move.to && other.from !== move.from
+      )
+      let disambiguation = ''
+      if (rivals.length > 0) {
+        const from = squareName(move.from)
+        if (rivals.every(other => fileOf(other.from) !== fileOf(move.from))) disambiguation = from[0]
+        else if (rivals.every(other => rankOf(other.from) !== rankOf(move.from))) disambiguation = from[1]
+        else disambiguation = from
+      }
+      san = `${move.piece.toUpperCase()}${disambiguation}${capture ? 'x' : ''}${destination}`
+    }
+  }
+
+  const next = applyMove(position, move)
+  if (isInCheck(next)) {
+    san += generateLegalMoves(next).length === 0 ? '#' : '+'
+  }
+  return san
+}
+
+// Resolves a SAN token such as "Nbd7", "exd5", "e8=Q+" or "O-O" to a legal move, or null
+export function findSanMove(position: Position, san: string): Move | null {
+  const token = san.replace(/[+#!?]+$/, '').replace(/0/g, 'O')
+  const legalMoves = generateLegalMoves(position)
+
+  if (token === 'O-O' || token === 'O-O-O') {
+    const flag = token === 'O-O' ? 'castle-kingside' : 'castle-queenside'
+    return legalMoves.find(move => move.flag === flag) ?? null
+  }
+
+  // Accepts over-disambiguated SAN and promotions written without "="
+  const match = /^([NBRQK])?([a-h])?([1-8])?x?([a-h][1-8])(?:=?([NBRQ]))?$/.exec(token)
+  if (!match) return null
+
+  const piece = (match[1]?.toLowerCase() ?? 'p') as PieceType
+  const fromFile = match[2] ? match[2].charCodeAt(0) - 97 : null
+  const fromRank = match[3] ? Number(match[3]) - 1 : null
+  const to = parseSquare(match[4])
+  const promotion = match[5]?.toLowerCase() as PieceType | undefined
+
+  const candidates = legalMoves.filter(move =>
+    move.piece === piece &&
+    move.to === to &&
+    move.promotion === promotion &&
+    (fromFile === null || fileOf(move.from) === fromFile) &&
+    (fromRank === null || rankOf(move.from) === fromRank)
+  )
+  return candidates.length === 1 ? candidates[0] : null
+}
+
+// Converts a UCI move list to SAN, throwing on the first illegal move
+export function uciToSan(moves: string[], startFen: string = INITIAL_FEN): string[] {
+  let position = parseFen(startFen)
+  return moves.map((uci, index) => {
+    const legalMoves = generateLegalMoves(position)
+    const move = legalMoves.find(candidate => moveToUci(candidate) === uci)
+    if (!move) {
+      throw new Error(`Illegal move ${uci} at ply ${index + 1} in position ${toFen(position)}`)
+    }
+    const san = moveToSan(position, move, legalMoves)
+    position = applyMove(position, move)
+    return san
+  })
+}
+
+function escapeTagValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')
+}
+
+// Wraps tokens into lines of at most 80 characters as the export format asks
+function wrapTokens(tokens: string[]): string {
+  const lines: string[] = []
+  let line = ''
+  for (const token of tokens) {
+    if (line && line.length + 1 + token.length > MAX_LINE_LENGTH) {
+      lines.push(line)
+      line = token
+    } else {
+      line = line ? `${line} ${token}` : token
+    }
+  }
+  if (line) lines.push(line)
+  return lines.join('\n')
+}
+
+// Formats a PGN date (YYYY.MM.DD) in UTC
+export function pgnDate(date: Date): string {
+  const pad = (value: number) => value.toString().padStart(2, '0')
+  return `${date.getUTCFullYear()}.${pad(date.getUTCMonth() + 1)}.${pad(date.getUTCDate())}`
+}
+
+export function writePgn(options: WritePgnOptions): string {
+  const startFen = options.startFen ?? INITIAL_FEN
+  const result = options.result ?? '*'
+  const san = uciToSan(options.moves, startFen)
+
+  const headers: Record<string, string> = {
+    Event: '?',
+    Site: '?',
+    Date: '????.??.??',
+    Round: '-',
+    White: '?',
+    Black: '?',
+    ...options.headers,
+    Result: result
+  }
+  if (startFen !== INITIAL_FEN) {
+    headers.SetUp = '1'
+    headers.FEN = startFen
+  }
+
+  const tagNames = [
+    ...SEVEN_TAG_ROSTER,
+    ...Object.keys(headers).filter(name => !SEVEN_TAG_ROSTER.includes(name))
+  ]
+  const tagSection = tagNames
+    .map(name => `[${name} "${escapeTagValue(headers[name])}"]`)
+    .join('\n')
+
+  const start = parseFen(startFen)
+  const tokens: string[] = []
+  san.forEach((move, index) => {
+    const whiteToMove = (start.turn === 'w') === (index % 2 === 0)
+    const moveNumber = start.fullmoveNumber + Math.floor((index + (start.turn === 'b' ? 1 : 0)) / 2)
+    if (whiteToMove) tokens.push(`${moveNumber}.`)
+    else if (index === 0) tokens.push(`${moveNumber}...`)
+    tokens.push(move)
+  })
+  if (options.comment) {
+    tokens.push(`{${options.comment.replace(/[{}]/g, '')}}`)
+  }
+  tokens.push(result)
+
+  return `${tagSection}\n\n${wrapTokens(tokens)}\n`
+}
+
+type PgnToken =
+  | { kind: 'tag', name: string, value: string }
+  | { kind: 'move', text: string }
+  | { kind: 'result', value: PgnResult }
+
+function tokenizePgn(text: string): PgnToken[] {
+  const tokens: PgnToken[] = []
+  let i = 0
+  let variationDepth = 0
+
+  while (i < text.length) {
+    const char = text[i]
+
+    if (/\s/.test(char)) {
+      i++
+    } else if (char === '%' && (i === 0 || text[i - 1] === '\n')) {
+      // Escape lines are ignored entirely
+      while (i < text.length && text[i] !== '\n') i++
+    } else if (char === ';') {
+      while (i < text.length && text[i] !== '\n') i++
+    } else if (char === '{') {
+      const end = text.indexOf('}', i)
+      if (end === -1) throw new Error('Invalid PGN: unterminated comment')
+      i = end + 1
+    } else if (char === '(') {
+      variationDepth++
+      i++
+    } else if (char === ')') {
+      if (variationDepth === 0) throw new Error('Invalid PGN: unbalanced variation')
+      variationDepth--
+      i++
+    } else if (char === '[' && variationDepth === 0) {
+      const match = /^\[\s*([A-Za-z0-9_]+)\s+"((?:[^"\\]|\\.)*)"\s*\]/.exec(text.slice(i))
+      if (!match) throw new Error(`Invalid PGN: malformed tag near "${text.slice(i, i + 40)}"`)
+      tokens.push({ kind: 'tag', name: match[1], value: match[2].replace(/\\(["\\])/g, '$1') })
+      i += match[0].length
+    } else {
+      let end = i
+      while (end < text.length && !/[\s{}();[\]]/.test(text[end])) end++
+      if (end === i) end++
+      const word = text.slice(i, end)
+      i = end
+
+      // Moves inside variations, numeric annotation glyphs and move numbers carry no mainline moves
+      if (variationDepth > 0 || word.startsWith('$')) continue
+      if (RESULTS.includes(word as PgnResult)) {
+        tokens.push({ kind: 'result', value: word as PgnResult })
+        continue
+      }
+      const move = word.replace(/^\d+\.+/, '')
+      if (move && !/^\.+$/.test(move)) {
+        tokens.push({ kind: 'move', text: move })
+      }
+    }
+  }
+
+  if (variationDepth > 0) throw new Error('Invalid PGN: unbalanced variation')
+  return tokens
+}
+
+// Parses every game in a PGN file. Moves are validated against the rules and returned in both UCI
+// and SAN, with the FEN after each ply. Throws on the first invalid game.
+export function parsePgn(text: string): PgnGame[] {
+  const games: PgnGame[] = []
+  let headers: Record<string, string> = {}
+  let sanMoves: string[] = []
+  let inMovetext = false
+
+  const finishGame = (result?: PgnResult) => {
+    const gameNumber = games.length + 1
+    const startFen = headers.FEN ?? INITIAL_FEN
+    let position: Position
+    try {
+      position = parseFen(startFen)
+    } catch (error) {
+      throw new Error(`Invalid PGN (game ${gameNumber}): ${error instanceof Error ? error.message : 'bad FEN tag'}`)
+    }
+
+    const game: PgnGame = {
+      headers,
+      startFen,
+      moves: [],
+      san: [],
+      fens: [toFen(position)],
+      result: result ?? (RESULTS.includes(headers.Result as PgnResult) ? headers.Result as PgnResult : '*')
+    }
+
+    sanMoves.forEach((token, index) => {
+      const move = findSanMove(position, token)
+      if (!move) {
+        throw new Error(`Invalid PGN (game ${gameNumber}): illegal or ambiguous move "${token}" at ply ${index + 1}`)
+      }
+      game.san.push(moveToSan(position, move))
+      game.moves.push(moveToUci(move))
+      position = applyMove(position, move)
+      game.fens.push(toFen(position))
+    })
+
+    games.push(game)
+    headers = {}
+    sanMoves = []
+    inMovetext = false
+  }
+
+  for (const token of tokenizePgn(text)) {
+    if (token.kind === 'tag') {
+      // A tag after movetext without a result token starts the next game
+      if (inMovetext) finishGame()
+      headers[token.name] = token.value
+    } else if (token.kind === 'move') {
+      inMovetext = true
+      sanMoves.push(token.text)
+    } else {
+      finishGame(token.value)
+    }
+  }
+  if (inMovetext || Object.keys(headers).length > 0) finishGame()
+
+  return games
+}
@@ -0,0 +1,289 @@
+import { ChildProcess, spawn } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { SandboxViolation } from './types/chess'
+
+// Runs untrusted agent code (and the compiler working on it) inside bubblewrap: private user, pid,
+// network, ipc and uts namespaces, a read-only view of the system directories, no network and a
+// clean environment. prlimit provides hard kernel limits as a backstop while a /proc monitor
+// attributes CPU, memory and process-count violations so they can be reported as forfeits. The
+// monitor only looks every poll interval, so the kernel also caps the tasks a sandbox may create,
+// which stops a fork bomb before it can exhaust the host's PIDs.
+
+export type { SandboxViolation }
+
+export interface SandboxLimits {
+  cpuSeconds: number
+  memoryMb: number
+  maxProcesses: number
+}
+
+export interface SandboxBind {
+  source: string
+  target: string
+  writable?: boolean
+}
+
+export interface SandboxSpawnOptions {
+  binds?: SandboxBind[]
+  cwd?: string
+  // Added to the clean environment, e.g. toolchain cache directories
+  env?: Record<string, string>
+  limits?: Partial<SandboxLimits>
+}
+
+export interface SandboxConfig {
+  mode: 'bwrap' | 'none'
+  bwrapPath: string
+  prlimitPath: string
+  limits: SandboxLimits
+  // Hard cap on the tasks (processes and threads) in one sandbox. Above maxProcesses, which the
+  // monitor enforces, as runtimes such as Go start several threads per process.
+  maxTasks: number
+  pollIntervalMs: number
+}
+
+// System directories exposed read-only so dynamically linked binaries and toolchains can run
+const SYSTEM_PATHS = ['/usr', '/lib', '/lib64', '/lib32', '/bin', '/sbin', '/etc/alternatives', '/etc/ld.so.cache']
+
+const CLOCK_TICKS_PER_SECOND = 100
+const PAGE_SIZE_BYTES = 4096
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+export function loadSandboxConfig(): SandboxConfig {
+  return {
+    mode: process.env.SANDBOX_MODE === 'none' ? 'none' : 'bwrap',
+    bwrapPath: process.env.SANDBOX_BWRAP_PATH || '/usr/bin/bwrap',
+    prlimitPath: process.env.SANDBOX_PRLIMIT_PATH || '/usr/bin/prlimit',
+    limits: {
+      cpuSeconds: readNumberEnv('SANDBOX_CPU_SECONDS', 300),
+      memoryMb: readNumberEnv('SANDBOX_MEMORY_MB', 512),
+      maxProcesses: readNumberEnv('SANDBOX_MAX_PROCESSES', 8)
+    },
+    maxTasks: readNumberEnv('SANDBOX_MAX_TASKS', 256),
+    pollIntervalMs: readNumberEnv('SANDBOX_POLL_INTERVAL_MS', 200)
+  }
+}
+
+// What an agent sees of the environment without bubblewrap: enough to find binaries, never the
+// server's own settings such as database URIs or API keys
+function minimalEnv(): NodeJS.ProcessEnv {
+  const env: Record<string, string> = {
+    PATH: process.env.PATH || '/usr/local/bin:/usr/bin:/bin',
+    HOME: os.tmpdir()
+  }
+  return env as NodeJS.ProcessEnv
+}
+
+function toHostPath(value: string, binds: SandboxBind[]): string {
+  for (const bind of binds) {
+    if (value === bind.target || value.startsWith(`${bind.target}/`)) {
+      return path.resolve(bind.source) + value.slice(bind.target.length)
+    }
+  }
+  return value
+}
+
+interface ProcStat {
+  pid: number
+  comm: string
+  session: number
+  cpuTicks: number
+  rssPages: number
+}
+
+function readProcStat(pid: number): ProcStat | null {
+  try {
+    const raw = fs.readFileSync(`/proc/${pid}/stat`, 'utf8')
+    // comm may contain spaces and parentheses, so split on the last ')'
+    const close = raw.lastIndexOf(')')
+    const comm = raw.slice(raw.indexOf('(') + 1, close)
+    const fields = raw.slice(close + 2).split(' ')
+    return {
+      pid,
+      comm,
+      session: Number(fields[3]),
+      // utime + stime + cutime + cstime, so reaped children still count
+      cpuTicks: Number(fields[11]) + Number(fields[12]) + Number(fields[13]) + Number(fields[14]),
+      rssPages: Number(fields[21])
+    }
+  } catch {
+    // The process exited between listing /proc and reading it
+    return null
+  }
+}
+
+function listSession(session: number): ProcStat[] {
+  let entries: string[]
+  try {
+    entries = fs.readdirSync('/proc')
+  } catch {
+    return []
+  }
+  const stats: ProcStat[] = []
+  for (const entry of entries) {
+    if (!/^\d+$/.test(entry)) continue
+    const stat = readProcStat(Number(entry))
+    if (stat && stat.session === session) stats.push(stat)
+  }
+  return stats
+}
+
+export class SandboxedProcess {
+  private monitor: NodeJS.Timeout | null = null
+  private violationValue: SandboxViolation | null = null
+  private violationDetail: string = ''
+
+  constructor(readonly child: ChildProcess, private readonly limits: SandboxLimits, pollIntervalMs: number) {
+    if (child.pid && fs.existsSync('/proc/self/stat')) {
+      this.monitor = setInterval(() => this.check(), pollIntervalMs)
+    }
+
+    child.on('exit', (code, signal) => {
+      this.stopMonitor()
+      if (!this.violationValue && signal === 'SIGXCPU') {
+        this.flag('cpu_limit', `Process exceeded the ${limits.cpuSeconds}s CPU limit`)
+      }
+    })
+  }
+
+  get violation(): SandboxViolation | null {
+    return this.violationValue
+  }
+
+  get detail(): string {
+    return this.violationDetail
+  }
+
+  private flag(violation: SandboxViolation, detail: string): void {
+    this.violationValue = violation
+    this.violationDetail = detail
+    console.warn(`Sandbox violation (${violation}): ${detail}`)
+  }
+
+  private check(): void {
+    const pid = this.child.pid
+    if (!pid || this.violationValue) return
+
+    // Spawned detached, so the sandbox is its own session and every descendant shares it
+    const members = listSession(pid)
+    const agents = members.filter(member => member.comm !== 'bwrap')
+    const cpuSeconds = members.reduce((sum, member) => sum + member.cpuTicks, 0) / CLOCK_TICKS_PER_SECOND
+    const memoryMb = agents.reduce((sum, member) => sum + member.rssPages, 0) * PAGE_SIZE_BYTES / (1024 * 1024)
+
+    if (cpuSeconds > this.limits.cpuSeconds) {
+      this.flag('cpu_limit', `Used ${cpuSeconds.toFixed(1)}s of CPU with a ${this.limits.cpuSeconds}s limit`)
+    } else if (memoryMb > this.limits.memoryMb) {
+      this.flag('memory_limit', `Used ${memoryMb.toFixed(0)}MB of memory with a ${this.limits.memoryMb}MB limit`)
+    } else if (agents.length > this.limits.maxProcesses) {
+      this.flag('process_limit', `Ran ${agents.length} processes with a limit of ${this.limits.maxProcesses}`)
+    }
+
+    if (this.violationValue) this.kill()
+  }
+
+  private stopMonitor(): void {
+    if (this.monitor) {
+      clearInterval(this.monitor)
+      this.monitor = null
+    }
+  }
+
+  kill(): void {
+    this.stopMonitor()
+    const pid = this.child.pid
+    if (!pid) return
+    try {
+      // Negative pid targets the whole process group created by the detached spawn
+      process.kill(-pid, 'SIGKILL')
+    } catch {
+      this.child.kill('SIGKILL')
+    }
+  }
+}
+
+export class SandboxRunner {
+  private readonly config: SandboxConfig
+
+  constructor(config: SandboxConfig = loadSandboxConfig()) {
+    this.config = config
+    if (config.mode === 'none') {
+      console.warn('SANDBOX_MODE=none: agent processes run without isolation. Never use this in production.')
+    }
+  }
+
+  get limits(): SandboxLimits {
+    return this.config.limits
+  }
+
+  spawn(command: string, args: string[], options: SandboxSpawnOptions = {}): SandboxedProcess {
+    const limits = { ...this.config.limits, ...options.limits }
+    const rlimits = [
+      `--cpu=${limits.cpuSeconds}:${limits.cpuSeconds + 1}`,
+      // Address space is only a backstop: runtimes reserve far more virtual memory than they use
+      `--as=${limits.memoryMb * 4 * 1024 * 1024}`,
+      '--core=0',
+      `--fsize=${64 * 1024 * 1024}`,
+      '--'
+    ]
+
+    if (this.config.mode === 'none') {
+      // Without namespaces the bind targets do not exist, so point everything back at the sources.
+      // There is no task cap either: outside a user namespace RLIMIT_NPROC would count the server's
+      // own processes.
+      const binds = options.binds ?? []
+      const hostCommand = toHostPath(command, binds)
+      const hostArgs = args.map(arg => toHostPath(arg, binds))
+      const cwd = options.cwd ? toHostPath(options.cwd, binds) : undefined
+      const env = minimalEnv()
+      for (const [name, value] of Object.entries(options.env ?? {})) {
+        env[name] = toHostPath(value, binds)
+      }
+      const child = fs.existsSync(this.config.prlimitPath)
+        ? spawn(this.config.prlimitPath, [...rlimits, hostCommand, ...hostArgs], { cwd, env, detached: true })
+        : spawn(hostCommand, hostArgs, { cwd, env, detached: true })
+      return new SandboxedProcess(child, limits, this.config.pollIntervalMs)
+    }
+
+    if (!fs.existsSync(this.config.bwrapPath)) {
+      throw new Error(`Sandbox unavailable: bubblewrap not found at ${this.config.bwrapPath}`)
+    }
+
+    // RLIMIT_NPROC counts a user's tasks per user namespace, so in the sandbox's own namespace the
+    // cap covers only the sandbox. bwrap's init process inside it counts too.
+    const sandboxRlimits = [`--nproc=${this.config.maxTasks + 1}`, ...rlimits]
+    const bwrapArgs = [
+      '--unshare-all',
+      // Required rather than attempted, as the task cap depends on it
+      '--unshare-user',
+      '--die-with-parent',
+      '--clearenv',
+      '--setenv', 'PATH', '/usr/local/bin:/usr/bin:/bin',
+      '--setenv', 'HOME', '/sandbox',
+      '--proc', '/proc',
+      '--dev', '/dev',
+      '--dir', '/sandbox'
+    ]
+    for (const [name, value] of Object.entries(options.env ?? {})) {
+      bwrapArgs.push('--setenv', name, value)
+    }
+    for (const systemPath of SYSTEM_PATHS) {
+      bwrapArgs.push('--ro-bind-try', systemPath, systemPath)
+    }
+    for (const bind of options.binds ?? []) {
+      bwrapArgs.push(bind.writable ? '--bind' : '--ro-bind', path.resolve(bind.source), bind.target)
+    }
+    // The root itself is a bwrap tmpfs; make it read-only once everything is mounted
+    bwrapArgs.push('--remount-ro', '/')
+    bwrapArgs.push('--chdir', options.cwd ?? '/sandbox', this.config.prlimitPath, ...sandboxRlimits, command, ...args)
+
+    // Detached makes bwrap a session leader so the monitor can find and kill every descendant
+    const child = spawn(this.config.bwrapPath, bwrapArgs, { detached: true })
+    return new SandboxedProcess(child, limits, this.config.pollIntervalMs)
+  }
+}
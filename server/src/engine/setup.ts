@@ -1,29 +1,7 @@
 import fs from 'fs';
 import path from 'path';
-
-const STOCKFISH_PATH = path.join(
-  process.cwd(),
-  'src',
-  'engine',
-  'stockfish',
-  'stockfish-windows-x86-64-avx2.exe'
-);
-
-const RANDOM_AGENT_PATH = path.join(
-  process.cwd(),
-  'src',
-  'engine',
-  'agents',
-  'random-agent.ts'
-);
-
-const AGGRESSIVE_AGENT_PATH = path.join(
-  process.cwd(),
-  'src',
-  'engine',
-  'agents',
-  'aggressive-agent.ts'
-);
+import { HOUSE_BOTS, houseBotAvailable } from './house-bots';
+import { findStockfish } from './stockfish';
 
 const TYPES_DIR = path.join(
   process.cwd(),
@@ -60,76 +38,26 @@ export interface EngineInfo {
     );
   }
 
-  // Check Stockfish
-  if (!fs.existsSync(STOCKFISH_PATH)) {
-    console.error(`
-ERROR: Stockfish engine not found at ${STOCKFISH_PATH}
+  // Check Stockfish; evaluations, adjudication and the Stockfish house bots need it, matches between
+  // agents do not
+  const stockfishPath = findStockfish();
+  if (stockfishPath) {
+    console.log(`Stockfish found at ${stockfishPath}`);
+  } else {
+    console.warn(`
+WARNING: Stockfish engine not found${process.env.STOCKFISH_PATH ? ` at ${process.env.STOCKFISH_PATH}` : ''}
 
 Please:
 1. Download Stockfish from https://stockfishchess.org/download/
-2. Extract stockfish-windows-x86-64-avx2.exe
-3. Place it in server/src/engine/stockfish/
+2. Set STOCKFISH_PATH to the binary, or place it in server/stockfish/
 `);
-    process.exit(1);
   }
 
-  // Check agents directory
-  const agentsDir = path.dirname(RANDOM_AGENT_PATH);
-  if (!fs.existsSync(agentsDir)) {
-    fs.mkdirSync(agentsDir, { recursive: true });
-    console.log('Created agents directory');
-  }
-
-  // Check random agent
-  if (!fs.existsSync(RANDOM_AGENT_PATH)) {
-    console.log('Creating random agent...');
-    fs.writeFileSync(RANDOM_AGENT_PATH, `import { ChessMove } from '../types/chess';
-
-// Simple agent that makes random legal moves
-export async function getMove(fen: string): Promise<string> {
-  try {
-    // Basic pawn moves for white and black
-    const basicMoves: string[] = [
-      // White pawn moves
-      'e2e4', 'd2d4', 'c2c4', 'b2b3', 'g2g3', 'a2a3', 'h2h3', 'f2f3',
-      // Black pawn moves
-      'e7e5', 'd7d5', 'c7c5', 'b7b6', 'g7g6', 'a7a6', 'h7h6', 'f7f6'
-    ];
-
-    // Random selection
-    const moveIndex: number = Math.floor(Math.random() * basicMoves.length);
-    return basicMoves[moveIndex];
-  } catch (error) {
-    throw new Error(\`Random agent error: \${error instanceof Error ? error.message : 'Unknown error'}\`);
-  }
-}
-`);
-  }
-
-  // Check aggressive agent
-  if (!fs.existsSync(AGGRESSIVE_AGENT_PATH)) {
-    console.log('Creating aggressive agent...');
-    fs.writeFileSync(AGGRESSIVE_AGENT_PATH, `import { ChessMove } from '../types/chess';
-
-// Agent that prefers aggressive center pawn moves
-export async function getMove(fen: string): Promise<string> {
-  try {
-    // Prioritize center control moves for both white and black
-    const centerMoves: string[] = [
-      // White center moves
-      'e2e4', 'd2d4',
-      // Black center moves
-      'e7e5', 'd7d5'
-    ];
-
-    // Random selection between center moves
-    const moveIndex: number = Math.floor(Math.random() * centerMoves.length);
-    return centerMoves[moveIndex];
-  } catch (error) {
-    throw new Error(\`Aggressive agent error: \${error instanceof Error ? error.message : 'Unknown error'}\`);
-  }
-}
-`);
+  // House bots: the TypeScript ones always run, the others need Stockfish or the aggressive bot's source
+  const unavailable = HOUSE_BOTS.filter(bot => !houseBotAvailable(bot));
+  console.log(`House bots: ${HOUSE_BOTS.length - unavailable.length} of ${HOUSE_BOTS.length} available`);
+  if (unavailable.length > 0) {
+    console.warn(`Unavailable: ${unavailable.map(bot => bot.id).join(', ')}`);
   }
 
   console.log('Environment check complete!');
@@ -0,0 +1,342 @@
+import fs from 'fs'
+import path from 'path'
+import { getTerminalState, parseFen } from './chess-rules'
+import { SearchInfo } from './types/chess'
+import { UciBestMove, UciClient, positionCommand } from './uci-client'
+
+// A pool of long-lived local Stockfish processes for evaluations, best-move lookups and
+// adjudication. Processes are started on first use with the configured threads, hash and skill
+// level and then kept; one that stops answering is replaced.
+
+export interface StockfishConfig {
+  // The binary; null when none was configured or found
+  path: string | null
+  threads: number
+  hashMb: number
+  // 0 (weakest) to 20 (full strength)
+  skillLevel: number
+  // Processes run at most at once; further requests wait for a free one
+  poolSize: number
+}
+
+// How long to search: a fixed time, depth or node count. Movetime is used when none is given.
+export interface StockfishSearch {
+  moveTimeMs?: number
+  depth?: number
+  nodes?: number
+  // Overrides the configured skill level for this search
+  skillLevel?: number
+}
+
+// Scores are from white's point of view: positive when white is better
+export interface StockfishEvaluation {
+  bestMove: string
+  scoreCp?: number
+  scoreMate?: number
+  depth?: number
+  pv?: string[]
+  info: SearchInfo
+}
+
+export interface Adjudication {
+  isGameOver: boolean
+  // 1 for white, 2 for black, 0 for a draw or an undecided position
+  winner: number
+  reason?: string
+  evaluation?: StockfishEvaluation
+}
+
+// Both carry the HTTP status the routes should answer with
+export class StockfishUnavailableError extends Error {
+  readonly status = 503
+
+  constructor() {
+    super('Stockfish not found: set STOCKFISH_PATH or put a stockfish binary in server/stockfish')
+    this.name = 'StockfishUnavailableError'
+  }
+}
+
+export class StockfishRequestError extends Error {
+  readonly status = 400
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'StockfishRequestError'
+  }
+}
+
+const DEFAULT_MOVE_TIME_MS = 1000
+const INIT_TIMEOUT_MS = 10000
+// On top of a movetime search, for pipe latency
+const SEARCH_SLACK_MS = 2000
+// Depth and node searches have no time bound of their own
+const UNBOUNDED_SEARCH_TIMEOUT_MS = 60000
+// A score this large, or a forced mate, decides a game under adjudication
+export const DEFAULT_ADJUDICATION_CP = 1000
+// Caps on what a request may ask for, so one lookup cannot hold a process for long
+const MAX_MOVE_TIME_MS = 10000
+const MAX_DEPTH = 30
+const MAX_NODES = 50000000
+
+// Where a binary is looked for when STOCKFISH_PATH is not set, besides the PATH
+const SEARCH_DIRS = [
+  path.join(process.cwd(), 'stockfish'),
+  path.join(process.cwd(), 'src', 'engine', 'stockfish'),
+  '/usr/games'
+]
+
+function readIntEnv(name: string, fallback: number, min: number, max: number): number {
+  const value = Number(process.env[name])
+  return Number.isInteger(value) && value >= min && value <= max ? value : fallback
+}
+
+function isExecutable(file: string): boolean {
+  try {
+    if (!fs.statSync(file).isFile()) return false
+    if (process.platform !== 'win32') fs.accessSync(file, fs.constants.X_OK)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// STOCKFISH_PATH if set; otherwise the first stockfish* binary in the search directories, then
+// "stockfish" on the PATH. Release builds carry names like stockfish-ubuntu-x86-64-avx2.
+export function findStockfish(): string | null {
+  const configured = process.env.STOCKFISH_PATH
+  if (configured) {
+    return isExecutable(configured) ? configured : null
+  }
+
+  for (const dir of SEARCH_DIRS) {
+    if (!fs.existsSync(dir)) continue
+    const candidates = fs.readdirSync(dir)
+      .filter(name => name.toLowerCase().startsWith('stockfish'))
+      .filter(name => process.platform !== 'win32' || name.toLowerCase().endsWith('.exe'))
+      .sort()
+      .map(name => path.join(dir, name))
+      .filter(isExecutable)
+    if (candidates.length > 0) return candidates[0]
+  }
+
+  const binary = process.platform === 'win32' ? 'stockfish.exe' : 'stockfish'
+  for (const dir of (process.env.PATH ?? '').split(path.delimiter)) {
+    if (dir && isExecutable(path.join(dir, binary))) return path.join(dir, binary)
+  }
+  return null
+}
+
+export function loadStockfishConfig(): StockfishConfig {
+  return {
+    path: findStockfish(),
+    threads: readIntEnv('STOCKFISH_THREADS', 1, 1, 512),
+    hashMb: readIntEnv('STOCKFISH_HASH_MB', 16, 1, 33554432),
+    skillLevel: readIntEnv('STOCKFISH_SKILL_LEVEL', 20, 0, 20),
+    poolSize: readIntEnv('STOCKFISH_POOL_SIZE', 1, 1, 64)
+  }
+}
+
+function optionalInt(body: Record<string, unknown>, name: string, min: number, max: number): number | undefined {
+  const value = body[name]
+  if (value === undefined || value === null || value === '') return undefined
+  const number = Number(value)
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new StockfishRequestError(`${name} must be an integer from ${min} to ${max}`)
+  }
+  return number
+}
+
+// The position and search limits of an evaluation, best-move or adjudication request:
+// { fen, moveTimeMs?, depth?, nodes?, skillLevel?, thresholdCp? }
+export function parseStockfishRequest(body: unknown): { fen: string; search: StockfishSearch; thresholdCp?: number } {
+  const raw = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>
+  if (typeof raw.fen !== 'string' || !raw.fen.trim()) {
+    throw new StockfishRequestError('fen is required')
+  }
+  try {
+    parseFen(raw.fen.trim())
+  } catch (error) {
+    throw new StockfishRequestError(error instanceof Error ? error.message : String(error))
+  }
+
+  const search: StockfishSearch = {
+    moveTimeMs: optionalInt(raw, 'moveTimeMs', 1, MAX_MOVE_TIME_MS),
+    depth: optionalInt(raw, 'depth', 1, MAX_DEPTH),
+    nodes: optionalInt(raw, 'nodes', 1, MAX_NODES),
+    skillLevel: optionalInt(raw, 'skillLevel', 0, 20)
+  }
+  return { fen: raw.fen.trim(), search, thresholdCp: optionalInt(raw, 'thresholdCp', 1, 100000) }
+}
+
+function goCommand(search: StockfishSearch): string {
+  if (search.depth !== undefined) return `go depth ${search.depth}`
+  if (search.nodes !== undefined) return `go nodes ${search.nodes}`
+  return `go movetime ${search.moveTimeMs ?? DEFAULT_MOVE_TIME_MS}`
+}
+
+function searchTimeoutMs(search: StockfishSearch): number {
+  if (search.depth !== undefined || search.nodes !== undefined) return UNBOUNDED_SEARCH_TIMEOUT_MS
+  return (search.moveTimeMs ?? DEFAULT_MOVE_TIME_MS) + SEARCH_SLACK_MS
+}
+
+interface PooledEngine {
+  client: UciClient
+  skillLevel: number
+}
+
+interface Waiter {
+  resolve: (engine: PooledEngine) => void
+  reject: (error: Error) => void
+}
+
+export class StockfishPool {
+  private readonly idle: PooledEngine[] = []
+  private readonly waiting: Waiter[] = []
+  private running = 0
+
+  constructor(readonly config: StockfishConfig = loadStockfishConfig()) {}
+
+  get available(): boolean {
+    return this.config.path !== null
+  }
+
+  // The raw search result for a game position. Scores in info are from the side to move.
+  async search(startFen: string, moves: string[] = [], search: StockfishSearch = {}): Promise<UciBestMove> {
+    const engine = await this.acquire()
+    try {
+      const skillLevel = search.skillLevel ?? this.config.skillLevel
+      if (skillLevel !== engine.skillLevel) {
+        engine.client.setOption('Skill Level', skillLevel)
+        engine.skillLevel = skillLevel
+      }
+      engine.client.send(positionCommand(startFen, moves))
+      engine.client.go(goCommand(search))
+      const result = await engine.client.readBestMove(searchTimeoutMs(search))
+      this.release(engine)
+      return result
+    } catch (error) {
+      // A process in an unknown state is not handed out again
+      this.discard(engine)
+      throw error
+    }
+  }
+
+  async bestMove(fen: string, search: StockfishSearch = {}): Promise<string> {
+    return (await this.search(fen, [], search)).move
+  }
+
+  async evaluate(fen: string, search: StockfishSearch = {}): Promise<StockfishEvaluation> {
+    const { move, info } = await this.search(fen, [], search)
+    const sign = parseFen(fen).turn === 'w' ? 1 : -1
+    return {
+      bestMove: move,
+      ...(info.scoreCp !== undefined ? { scoreCp: info.scoreCp * sign } : {}),
+      ...(info.scoreMate !== undefined ? { scoreMate: info.scoreMate * sign } : {}),
+      depth: info.depth,
+      pv: info.pv,
+      info
+    }
+  }
+
+  // Decides a position: by the rules if the game is over, otherwise by Stockfish when one side has
+  // a forced mate or is ahead by at least thresholdCp. Anything else is left undecided.
+  async adjudicate(
+    fen: string,
+    search: StockfishSearch = {},
+    thresholdCp: number = DEFAULT_ADJUDICATION_CP
+  ): Promise<Adjudication> {
+    const terminal = getTerminalState(parseFen(fen))
+    if (terminal) {
+      const winner = terminal.winner === 'w' ? 1 : terminal.winner === 'b' ? 2 : 0
+      return { isGameOver: true, winner, reason: terminal.reason }
+    }
+
+    const evaluation = await this.evaluate(fen, search)
+    const { scoreCp, scoreMate } = evaluation
+    if (scoreMate !== undefined && scoreMate !== 0) {
+      return { isGameOver: true, winner: scoreMate > 0 ? 1 : 2, reason: 'forced_mate', evaluation }
+    }
+    if (scoreCp !== undefined && Math.abs(scoreCp) >= thresholdCp) {
+      return { isGameOver: true, winner: scoreCp > 0 ? 1 : 2, reason: 'evaluation', evaluation }
+    }
+    return { isGameOver: false, winner: 0, evaluation }
+  }
+
+  // The engine's name as sent in "id name", starting a process if none is running
+  async engineName(): Promise<string | undefined> {
+    const engine = await this.acquire()
+    this.release(engine)
+    return engine.client.engineName
+  }
+
+  // Stops every idle process; busy ones stop when released
+  close(): void {
+    for (const engine of this.idle.splice(0)) {
+      engine.client.close()
+      this.running--
+    }
+  }
+
+  private async acquire(): Promise<PooledEngine> {
+    const idle = this.idle.pop()
+    if (idle && !idle.client.exited) return idle
+    if (idle) this.running--
+
+    if (this.running >= this.config.poolSize) {
+      return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }))
+    }
+    this.running++
+    try {
+      return await this.startEngine()
+    } catch (error) {
+      this.running--
+      throw error
+    }
+  }
+
+  private release(engine: PooledEngine): void {
+    const waiter = this.waiting.shift()
+    if (waiter) {
+      waiter.resolve(engine)
+    } else {
+      this.idle.push(engine)
+    }
+  }
+
+  private discard(engine: PooledEngine): void {
+    engine.client.close()
+    this.running--
+    // Whoever waited for this process gets a fresh one
+    const waiter = this.waiting.shift()
+    if (waiter) {
+      this.running++
+      this.startEngine().then(waiter.resolve, error => {
+        this.running--
+        waiter.reject(error)
+      })
+    }
+  }
+
+  private async startEngine(): Promise<PooledEngine> {
+    if (!this.config.path) {
+      throw new StockfishUnavailableError()
+    }
+
+    const client = UciClient.start(this.config.path)
+    try {
+      await client.handshake(INIT_TIMEOUT_MS)
+      client.setOption('Threads', this.config.threads)
+      client.setOption('Hash', this.config.hashMb)
+      client.setOption('Skill Level', this.config.skillLevel)
+      await client.ready(INIT_TIMEOUT_MS)
+    } catch (error) {
+      client.close()
+      throw new Error(`Stockfish failed to start: ${error instanceof Error ? error.message : String(error)}`)
+    }
+    console.log('Stockfish started:', { path: this.config.path, engine: client.engineName })
+    return { client, skillLevel: this.config.skillLevel }
+  }
+}
+
+// Shared by everything in this process
+export const stockfish = new StockfishPool()
@@ -0,0 +1,69 @@
+import { TimeControl } from './types/chess'
+
+export const DEFAULT_TIME_CONTROL: TimeControl = { type: 'movetime', moveTimeMs: 1000 }
+
+// Upper bounds keep a single match from tying up a runner for hours
+const MAX_BASE_MS = 60 * 60 * 1000
+const MAX_INCREMENT_MS = 60 * 1000
+const MAX_MOVETIME_MS = 60 * 1000
+
+function readMs(value: unknown, field: string, max: number, min: number = 0): number {
+  const ms = Number(value)
+  if (!Number.isInteger(ms) || ms < min || ms > max) {
+    throw new Error(`Invalid time control: ${field} must be an integer between ${min} and ${max} ms`)
+  }
+  return ms
+}
+
+// Validates a time control coming from a request body or a stored competition
+export function parseTimeControl(input: unknown): TimeControl {
+  if (input === undefined || input === null) return DEFAULT_TIME_CONTROL
+  if (typeof input !== 'object') {
+    throw new Error('Invalid time control: expected an object')
+  }
+
+  const value = input as Record<string, unknown>
+  switch (value.type) {
+    case 'increment':
+      return {
+        type: 'increment',
+        baseMs: readMs(value.baseMs, 'baseMs', MAX_BASE_MS, 1),
+        incrementMs: readMs(value.incrementMs, 'incrementMs', MAX_INCREMENT_MS)
+      }
+    case 'sudden_death':
+      return { type: 'sudden_death', baseMs: readMs(value.baseMs, 'baseMs', MAX_BASE_MS, 1) }
+    case 'movetime':
+      return { type: 'movetime', moveTimeMs: readMs(value.moveTimeMs, 'moveTimeMs', MAX_MOVETIME_MS, 1) }
+    default:
+      throw new Error(`Invalid time control type: ${String(value.type)}`)
+  }
+}
+
+export function initialClock(timeControl: TimeControl): number | null {
+  return timeControl.type === 'movetime' ? null : timeControl.baseMs
+}
+
+export function incrementOf(timeControl: TimeControl): number {
+  return timeControl.type === 'increment' ? timeControl.incrementMs : 0
+}
+
+// UCI "go" command for the side to move
+export function buildGoCommand(timeControl: TimeControl, whiteMs: number | null, blackMs: number | null): string {
+  if (timeControl.type === 'movetime') {
+    return `go movetime ${timeControl.moveTimeMs}`
+  }
+  const inc = incrementOf(timeControl)
+  return `go wtime ${Math.max(0, Math.round(whiteMs ?? 0))} btime ${Math.max(0, Math.round(blackMs ?? 0))} winc ${inc} binc ${inc}`
+}
+
+// Short label such as "180+2", "300" or "1s/move"
+export function describeTimeControl(timeControl: TimeControl): string {
+  switch (timeControl.type) {
+    case 'increment':
+      return `${timeControl.baseMs / 1000}+${timeControl.incrementMs / 1000}`
+    case 'sudden_death':
+      return `${timeControl.baseMs / 1000}`
+    case 'movetime':
+      return `${timeControl.moveTimeMs / 1000}s/move`
+  }
+}
@@ -0,0 +1,181 @@
+import path from 'path'
+import ts from 'typescript'
+
+// Languages agents can be written in. Every language has one toolchain and one entrypoint, so a
+// source file always builds and starts the same way. Inside the build sandbox the source is at
+// /sandbox/src/<sourceName> and the output directory at /sandbox/out; a running agent sees its
+// artifact at /sandbox/<artifactName>.
+
+export const AGENT_LANGUAGES = ['cpp', 'rust', 'go', 'python', 'javascript', 'typescript'] as const
+export type AgentLanguage = typeof AGENT_LANGUAGES[number]
+
+export interface ToolchainCommand {
+  command: string
+  args: string[]
+  env?: Record<string, string>
+}
+
+export interface PreparedSource {
+  source: string
+  log: string
+  ok: boolean
+}
+
+export interface Toolchain {
+  language: AgentLanguage
+  label: string
+  extension: string
+  sourceName: string
+  artifactName: string
+  // Compiles the source into /sandbox/out/<artifactName>. Interpreted languages only check the
+  // syntax, and their artifact is the checked source itself.
+  build: ToolchainCommand
+  compiled: boolean
+  // Runs in the server before the sandboxed step, e.g. to strip TypeScript types
+  prepare?: (source: string) => PreparedSource
+  run: ToolchainCommand
+  version: ToolchainCommand
+  timeoutMs: number
+}
+
+// Compilers write temporary files, and the sandbox root is read-only
+const BUILD_TMP = '/sandbox/out/tmp'
+
+// Toolchain binaries must be visible inside the sandbox, which only exposes the system directories
+const CXX = process.env.AGENT_CXX || 'g++'
+const RUSTC = process.env.AGENT_RUSTC || 'rustc'
+const GO = process.env.AGENT_GO || 'go'
+const PYTHON = process.env.AGENT_PYTHON || 'python3'
+const NODE = process.env.AGENT_NODE || 'node'
+
+// Transpiles without type checking: agents have no type declarations for Node available, and a
+// type error should not stop a program that runs fine
+function transpileTypeScript(source: string): PreparedSource {
+  const output = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    fileName: 'agent.ts',
+    reportDiagnostics: true
+  })
+  const diagnostics = output.diagnostics ?? []
+  const log = diagnostics
+    .map(diagnostic => {
+      const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+      if (!diagnostic.file || diagnostic.start === undefined) return `error TS${diagnostic.code}: ${message}`
+      const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+      return `agent.ts(${line + 1},${character + 1}): error TS${diagnostic.code}: ${message}`
+    })
+    .join('\n')
+  return {
+    source: output.outputText,
+    log: log ? `${log}\n` : '',
+    ok: !diagnostics.some(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error)
+  }
+}
+
+export const TOOLCHAINS: Record<AgentLanguage, Toolchain> = {
+  cpp: {
+    language: 'cpp',
+    label: 'C++ (g++, C++11)',
+    extension: '.cpp',
+    sourceName: 'agent.cpp',
+    artifactName: 'agent',
+    // No -march=native: cached artifacts may run on a different machine than the one that built them
+    build: {
+      command: CXX,
+      args: ['/sandbox/src/agent.cpp', '-o', '/sandbox/out/agent', '-std=c++11', '-Wall', '-Wextra', '-O2'],
+      env: { TMPDIR: BUILD_TMP }
+    },
+    compiled: true,
+    run: { command: '/sandbox/agent', args: [] },
+    version: { command: CXX, args: ['--version'] },
+    timeoutMs: 30000
+  },
+  rust: {
+    language: 'rust',
+    label: 'Rust (rustc, edition 2021)',
+    extension: '.rs',
+    sourceName: 'main.rs',
+    artifactName: 'agent',
+    build: {
+      command: RUSTC,
+      args: ['--edition', '2021', '-C', 'opt-level=2', '-o', '/sandbox/out/agent', '/sandbox/src/main.rs'],
+      env: { TMPDIR: BUILD_TMP }
+    },
+    compiled: true,
+    run: { command: '/sandbox/agent', args: [] },
+    version: { command: RUSTC, args: ['--version'] },
+    timeoutMs: 120000
+  },
+  go: {
+    language: 'go',
+    label: 'Go (go build, standard library only)',
+    extension: '.go',
+    sourceName: 'main.go',
+    artifactName: 'agent',
+    build: {
+      command: GO,
+      args: ['build', '-o', '/sandbox/out/agent', '/sandbox/src/main.go'],
+      env: {
+        TMPDIR: BUILD_TMP,
+        GOCACHE: `${BUILD_TMP}/gocache`,
+        GOPATH: `${BUILD_TMP}/gopath`,
+        GO111MODULE: 'off',
+        CGO_ENABLED: '0'
+      }
+    },
+    compiled: true,
+    run: { command: '/sandbox/agent', args: [] },
+    version: { command: GO, args: ['version'] },
+    timeoutMs: 120000
+  },
+  python: {
+    language: 'python',
+    label: 'Python 3',
+    extension: '.py',
+    sourceName: 'agent.py',
+    artifactName: 'agent.py',
+    build: {
+      command: PYTHON,
+      args: ['-m', 'py_compile', '/sandbox/src/agent.py'],
+      env: { PYTHONPYCACHEPREFIX: BUILD_TMP }
+    },
+    compiled: false,
+    // Unbuffered, or UCI replies sit in the pipe until the buffer fills
+    run: { command: PYTHON, args: ['-u', '/sandbox/agent.py'], env: { PYTHONDONTWRITEBYTECODE: '1' } },
+    version: { command: PYTHON, args: ['--version'] },
+    timeoutMs: 30000
+  },
+  javascript: {
+    language: 'javascript',
+    label: 'JavaScript (Node.js)',
+    extension: '.js',
+    sourceName: 'agent.js',
+    artifactName: 'agent.js',
+    build: { command: NODE, args: ['--check', '/sandbox/src/agent.js'] },
+    compiled: false,
+    run: { command: NODE, args: ['/sandbox/agent.js'] },
+    version: { command: NODE, args: ['--version'] },
+    timeoutMs: 30000
+  },
+  typescript: {
+    language: 'typescript',
+    label: `TypeScript ${ts.version} (Node.js)`,
+    extension: '.ts',
+    // Transpiled to JavaScript before the sandboxed syntax check
+    sourceName: 'agent.js',
+    artifactName: 'agent.js',
+    build: { command: NODE, args: ['--check', '/sandbox/src/agent.js'] },
+    compiled: false,
+    prepare: transpileTypeScript,
+    run: { command: NODE, args: ['/sandbox/agent.js'] },
+    version: { command: NODE, args: ['--version'] },
+    timeoutMs: 30000
+  }
+}
+
+export const AGENT_EXTENSIONS = AGENT_LANGUAGES.map(language => TOOLCHAINS[language].extension)
+
+export function languageOf(filePath: string): AgentLanguage | null {
+  const extension = path.extname(filePath).toLowerCase()
+  return AGENT_LANGUAGES.find(language => TOOLCHAINS[language].extension === extension) ?? null
+}
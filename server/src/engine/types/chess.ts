@@ -3,14 +3,153 @@ export interface ChessMove {
   to: string;
 }
 
+export const GAME_END_REASONS = {
+  CHECKMATE: 'checkmate',
+  STALEMATE: 'stalemate',
+  INSUFFICIENT_MATERIAL: 'insufficient_material',
+  FIFTY_MOVE_RULE: 'fifty_move_rule',
+  THREEFOLD_REPETITION: 'threefold_repetition',
+  TIMEOUT: 'timeout',
+  TIMEOUT_VS_INSUFFICIENT_MATERIAL: 'timeout_vs_insufficient_material',
+  ILLEGAL_MOVE: 'illegal_move',
+  SANDBOX_VIOLATION: 'sandbox_violation',
+  BOT_ERROR: 'bot_error',
+  MOVE_LIMIT: 'move_limit',
+  ADJUDICATION: 'adjudication',
+  ADJUDICATION_DRAW: 'adjudication_draw',
+  ENDGAME_ADJUDICATION: 'endgame_adjudication'
+} as const;
+
+export type GameEndReason = typeof GAME_END_REASONS[keyof typeof GAME_END_REASONS];
+
+// Human readable descriptions, phrased to follow "won by" / "drawn by"
+export const GAME_END_REASON_LABELS: Record<GameEndReason, string> = {
+  checkmate: 'checkmate',
+  stalemate: 'stalemate',
+  insufficient_material: 'insufficient material',
+  fifty_move_rule: 'the 50-move rule',
+  threefold_repetition: 'threefold repetition',
+  timeout: 'time forfeit',
+  timeout_vs_insufficient_material: 'timeout vs insufficient material',
+  illegal_move: 'forfeit (illegal move)',
+  sandbox_violation: 'forfeit (resource limit exceeded)',
+  bot_error: 'forfeit (bot error)',
+  move_limit: 'move limit',
+  adjudication: 'adjudication (decisive evaluation)',
+  adjudication_draw: 'adjudication (level evaluation)',
+  endgame_adjudication: 'adjudication (endgame evaluation)'
+};
+
+export type TimeControl =
+  | { type: 'increment'; baseMs: number; incrementMs: number }
+  | { type: 'sudden_death'; baseMs: number }
+  | { type: 'movetime'; moveTimeMs: number };
+
+// Clock state recorded after each ply. Remaining times are null under a fixed movetime control.
+export interface MoveClock {
+  ply: number;
+  color: 'w' | 'b';
+  elapsedMs: number;
+  whiteMs: number | null;
+  blackMs: number | null;
+}
+
+// What an engine reported about the search behind a move, from its info lines up to bestmove.
+// Scores are from the mover's point of view: centipawns, or moves to mate (negative when mated).
+export interface SearchInfo {
+  depth?: number;
+  seldepth?: number;
+  scoreCp?: number;
+  scoreMate?: number;
+  nodes?: number;
+  nps?: number;
+  timeMs?: number;
+  pv?: string[];
+}
+
+// Recorded for every ply; only ply is set when the engine printed no info
+export interface MoveSearch extends SearchInfo {
+  ply: number;
+}
+
+// Reported after every ply so a match can be followed while it is being played
+export interface PlyUpdate {
+  move: string;
+  fen: string;
+  clock: MoveClock;
+  search: MoveSearch;
+}
+
+export type SandboxViolation = 'cpu_limit' | 'memory_limit' | 'process_limit';
+
+export interface SandboxForfeit {
+  player: number;
+  violation: SandboxViolation;
+  detail: string;
+}
+
+// resign: one side stayed far ahead; draw: the evaluation stayed level; endgame: few pieces were
+// left; move_limit: the game reached the ply cap
+export const ADJUDICATION_RULES = ['resign', 'draw', 'endgame', 'move_limit'] as const;
+
+export type AdjudicationRule = typeof ADJUDICATION_RULES[number];
+
+// Thresholds for deciding games by Stockfish's evaluation, in centipawns. A rule with 0 plies, or
+// 0 pieces, is off.
+export interface AdjudicationRules {
+  // Won by the side ahead once the evaluation stays beyond ±resignCp for resignPlies plies in a row
+  resignCp: number;
+  resignPlies: number;
+  // Drawn once the evaluation stays within ±drawCp for drawPlies plies in a row, from move drawAfterMove
+  drawCp: number;
+  drawAfterMove: number;
+  drawPlies: number;
+  // With this many pieces left, kings included, one evaluation decides: a win beyond ±resignCp or
+  // with a forced mate, a draw otherwise
+  endgamePieces: number;
+  // Stockfish's search per evaluation
+  nodes: number;
+}
+
+// Stockfish's evaluation of the position after a ply, from white's point of view
+export interface AdjudicationEvaluation {
+  ply: number;
+  scoreCp?: number;
+  scoreMate?: number;
+  depth?: number;
+  bestMove?: string;
+}
+
+// What an adjudicated game was decided on
+export interface AdjudicationEvidence {
+  rule: AdjudicationRule;
+  // The ply the game was decided after
+  ply: number;
+  // The evaluations that met the rule, oldest first
+  evaluations: AdjudicationEvaluation[];
+  // Pieces on the board, for the endgame rule
+  pieces?: number;
+  rules: AdjudicationRules;
+  engine?: string;
+}
+
 export interface GameResult {
   winner: number;
-  reason: string;
+  reason: GameEndReason;
+  detail?: string;
   moves: string[];
+  // FEN of the starting position followed by the position after every ply
+  fens: string[];
+  timeControl: TimeControl;
+  clocks: MoveClock[];
+  searches: MoveSearch[];
+  forfeit?: SandboxForfeit;
+  adjudication?: AdjudicationEvidence;
+  engineOutput?: string;
 }
 
 export interface EngineInfo {
   version: string;
   ready: boolean;
   cores: number;
-} 
\ No newline at end of file
+}
@@ -0,0 +1,338 @@
+import { ChildProcess, spawn } from 'child_process'
+import { INITIAL_FEN } from './chess-rules'
+import { AgentArtifact } from './compiler'
+import { SandboxRunner, SandboxViolation } from './sandbox'
+import { TOOLCHAINS } from './toolchains'
+import { SearchInfo } from './types/chess'
+
+// Talks UCI to a sandboxed agent one line at a time. Output is buffered until a newline, so a
+// reply split across pipe chunks ("best" + "move e2e4\n") is seen whole, and several replies in one
+// chunk are seen one by one. Lines nobody is waiting for are queued for the next read.
+
+export interface UciTranscriptLine {
+  from: 'server' | 'agent'
+  line: string
+  // Since the transcript was started
+  atMs: number
+}
+
+// The process the client talks to: a sandboxed agent, or a trusted engine such as Stockfish that
+// runs directly and never reports a violation
+export interface UciProcess {
+  readonly child: ChildProcess
+  readonly violation: SandboxViolation | null
+  readonly detail: string
+  kill(): void
+}
+
+// Sent with setoption, by option name
+export type UciOptions = Record<string, string | number>
+
+export interface UciBestMove {
+  // The move token, e.g. "e2e4" or "(none)"
+  move: string
+  ponder?: string
+  // Merged from the info lines printed during the search
+  info: SearchInfo
+}
+
+export class UciTimeoutError extends Error {
+  constructor(readonly timeoutMs: number, expected: string) {
+    super(`Agent did not send ${expected} within ${timeoutMs}ms`)
+    this.name = 'UciTimeoutError'
+  }
+}
+
+export class UciExitError extends Error {
+  constructor(expected: string) {
+    super(`Agent exited before sending ${expected}`)
+    this.name = 'UciExitError'
+  }
+}
+
+interface PendingRead {
+  predicate: (line: string) => boolean
+  resolve: (line: string) => void
+  reject: (error: Error) => void
+  expected: string
+  timer: NodeJS.Timeout
+}
+
+// Transcripts are kept for reports; an engine printing info lines for seconds would fill memory
+const MAX_TRANSCRIPT_LINES = 200
+// Unread lines kept for the next read, and the longest line accepted
+const MAX_QUEUED_LINES = 1000
+const MAX_LINE_LENGTH = 64 * 1024
+
+// Numeric info fields and where they go
+const INFO_NUMBERS: Record<string, keyof SearchInfo> = {
+  depth: 'depth',
+  seldepth: 'seldepth',
+  nodes: 'nodes',
+  nps: 'nps',
+  time: 'timeMs'
+}
+
+// Fields of one info line. Engines print partial lines (e.g. only currmove), so the caller merges
+// them into what earlier lines reported. "info string" is free text and carries no fields.
+export function parseInfoLine(line: string): SearchInfo {
+  const tokens = line.trim().split(/\s+/)
+  const info: SearchInfo = {}
+  if (tokens[0] !== 'info') return info
+
+  for (let i = 1; i < tokens.length; i++) {
+    const token = tokens[i]
+    if (token === 'string') break
+    if (token === 'multipv' && tokens[i + 1] !== '1') {
+      // Secondary lines describe other moves than the one played
+      return {}
+    }
+    if (token in INFO_NUMBERS) {
+      const value = Number(tokens[i + 1])
+      if (Number.isFinite(value)) (info[INFO_NUMBERS[token]] as number) = value
+      i++
+    } else if (token === 'score') {
+      const value = Number(tokens[i + 2])
+      if (tokens[i + 1] === 'cp' && Number.isFinite(value)) {
+        info.scoreCp = value
+        delete info.scoreMate
+      } else if (tokens[i + 1] === 'mate' && Number.isFinite(value)) {
+        info.scoreMate = value
+        delete info.scoreCp
+      }
+      i += 2
+    } else if (token === 'pv') {
+      // The principal variation runs to the end of the line
+      info.pv = tokens.slice(i + 1)
+      break
+    }
+  }
+  return info
+}
+
+// "position startpos moves ..." when the game started from the initial position
+export function positionCommand(startFen: string, moves: string[]): string {
+  const base = startFen === INITIAL_FEN ? 'position startpos' : `position fen ${startFen}`
+  return moves.length > 0 ? `${base} moves ${moves.join(' ')}` : base
+}
+
+export class UciClient {
+  private buffer = ''
+  private readonly queue: string[] = []
+  private pending: PendingRead | null = null
+  private exitedValue = false
+  private readonly exitListeners: (() => void)[] = []
+  private transcriptValue: UciTranscriptLine[] = []
+  private transcriptStartedAt = Date.now()
+  private searching = false
+  private engineNameValue: string | undefined
+
+  constructor(readonly sandboxed: UciProcess) {
+    const child = sandboxed.child
+    child.stdout?.on('data', (data: Buffer) => this.receive(data.toString()))
+    // close rather than exit: by then the last output has been read
+    child.on('close', () => {
+      this.exitedValue = true
+      if (this.pending) {
+        const { reject, timer, expected } = this.pending
+        clearTimeout(timer)
+        this.pending = null
+        reject(new UciExitError(expected))
+      }
+      for (const listener of this.exitListeners.splice(0)) listener()
+    })
+    // A process that cannot start also closes; the reason is kept for the report
+    child.on('error', error => this.record('agent', `[failed to start: ${error.message}]`))
+    // A closed pipe is reported through the exit above
+    child.stdin?.on('error', () => {})
+  }
+
+  // Starts an agent artifact with its language's runtime
+  static spawn(sandbox: SandboxRunner, artifact: AgentArtifact): UciClient {
+    const toolchain = TOOLCHAINS[artifact.language]
+    const sandboxed = sandbox.spawn(toolchain.run.command, toolchain.run.args, {
+      binds: [{ source: artifact.path, target: `/sandbox/${toolchain.artifactName}` }],
+      env: toolchain.run.env
+    })
+    if (!sandboxed.child.stdin || !sandboxed.child.stdout) {
+      sandboxed.kill()
+      throw new Error('Failed to initialize bot process')
+    }
+    return new UciClient(sandboxed)
+  }
+
+  // Starts a trusted engine binary outside the sandbox
+  static start(command: string, args: string[] = []): UciClient {
+    const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'ignore'] })
+    return new UciClient({
+      child,
+      violation: null,
+      detail: '',
+      kill: () => {
+        child.kill('SIGKILL')
+      }
+    })
+  }
+
+  get exited(): boolean {
+    return this.exitedValue
+  }
+
+  // From "id name" during the handshake
+  get engineName(): string | undefined {
+    return this.engineNameValue
+  }
+
+  get transcript(): UciTranscriptLine[] {
+    return this.transcriptValue
+  }
+
+  // Starts a new transcript and returns the previous one
+  takeTranscript(): UciTranscriptLine[] {
+    const transcript = this.transcriptValue
+    this.transcriptValue = []
+    this.transcriptStartedAt = Date.now()
+    return transcript
+  }
+
+  send(command: string): void {
+    this.record('server', command)
+    const stdin = this.sandboxed.child.stdin
+    if (this.exitedValue || !stdin?.writable) {
+      throw new UciExitError(`a reply to ${command}`)
+    }
+    stdin.write(`${command}\n`)
+  }
+
+  // Resolves with the first line the predicate accepts. Lines before it are consumed, which is how
+  // info output during a search is skipped.
+  readUntil(predicate: (line: string) => boolean, timeoutMs: number, expected: string): Promise<string> {
+    if (this.pending) {
+      return Promise.reject(new Error('Only one read at a time'))
+    }
+    while (this.queue.length > 0) {
+      const line = this.queue.shift()!
+      if (predicate(line)) return Promise.resolve(line)
+    }
+    if (this.exitedValue) {
+      return Promise.reject(new UciExitError(expected))
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending = null
+        reject(new UciTimeoutError(timeoutMs, expected))
+      }, timeoutMs)
+      this.pending = { predicate, resolve, reject, expected, timer }
+    })
+  }
+
+  // uci until uciok, then isready until readyok; each gets the full timeout
+  async handshake(timeoutMs: number): Promise<void> {
+    this.send('uci')
+    await this.readUntil(line => {
+      if (line.startsWith('id name ')) this.engineNameValue = line.slice('id name '.length)
+      return line === 'uciok'
+    }, timeoutMs, 'uciok')
+    await this.ready(timeoutMs)
+  }
+
+  async ready(timeoutMs: number): Promise<void> {
+    this.send('isready')
+    await this.readUntil(line => line === 'readyok', timeoutMs, 'readyok')
+  }
+
+  async newGame(timeoutMs: number): Promise<void> {
+    this.send('ucinewgame')
+    await this.ready(timeoutMs)
+  }
+
+  setOption(name: string, value?: string | number): void {
+    this.send(value === undefined ? `setoption name ${name}` : `setoption name ${name} value ${value}`)
+  }
+
+  // Starts a search; its result is read with readBestMove
+  go(command: string): void {
+    this.send(command)
+    this.searching = true
+  }
+
+  // Asks a running search to finish; it still answers with bestmove
+  stop(): void {
+    if (this.searching && !this.exitedValue) this.send('stop')
+  }
+
+  // Resolves with the next bestmove line and what the info lines before it reported
+  async readBestMove(timeoutMs: number): Promise<UciBestMove> {
+    let info: SearchInfo = {}
+    const line = await this.readUntil(line => {
+      if (line.startsWith('info ')) info = { ...info, ...parseInfoLine(line) }
+      return /^bestmove(\s|$)/.test(line)
+    }, timeoutMs, 'bestmove')
+    this.searching = false
+
+    const tokens = line.split(/\s+/)
+    return {
+      move: tokens[1] ?? '',
+      ...(tokens[2] === 'ponder' && tokens[3] ? { ponder: tokens[3] } : {}),
+      info
+    }
+  }
+
+  // Resolves true once the process has exited, false if it is still running after timeoutMs
+  waitForExit(timeoutMs: number): Promise<boolean> {
+    if (this.exitedValue) return Promise.resolve(true)
+    return new Promise(resolve => {
+      const timer = setTimeout(() => resolve(false), timeoutMs)
+      this.exitListeners.push(() => {
+        clearTimeout(timer)
+        resolve(true)
+      })
+    })
+  }
+
+  // Stops any search and asks the agent to quit, then kills whatever is left of the sandbox
+  close(): void {
+    if (!this.exitedValue && this.sandboxed.child.stdin?.writable) {
+      this.sandboxed.child.stdin.write(this.searching ? 'stop\nquit\n' : 'quit\n')
+    }
+    this.sandboxed.kill()
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk
+    let newline = this.buffer.search(/\r?\n/)
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline).trim()
+      this.buffer = this.buffer.slice(this.buffer[newline] === '\r' ? newline + 2 : newline + 1)
+      if (line) this.deliver(line)
+      newline = this.buffer.search(/\r?\n/)
+    }
+    // Output that never ends a line is cut into lines rather than buffered forever
+    if (this.buffer.length > MAX_LINE_LENGTH) {
+      const line = this.buffer.trim()
+      this.buffer = ''
+      if (line) this.deliver(line)
+    }
+  }
+
+  private deliver(line: string): void {
+    this.record('agent', line)
+    if (this.pending?.predicate(line)) {
+      const { resolve, timer } = this.pending
+      clearTimeout(timer)
+      this.pending = null
+      resolve(line)
+    } else if (!this.pending) {
+      this.queue.push(line)
+      if (this.queue.length > MAX_QUEUED_LINES) this.queue.shift()
+    }
+  }
+
+  private record(from: UciTranscriptLine['from'], line: string): void {
+    if (this.transcriptValue.length > MAX_TRANSCRIPT_LINES) return
+    this.transcriptValue.push(this.transcriptValue.length === MAX_TRANSCRIPT_LINES
+      ? { from, line: '[transcript truncated]', atMs: Date.now() - this.transcriptStartedAt }
+      : { from, line, atMs: Date.now() - this.transcriptStartedAt })
+  }
+}
@@ -0,0 +1,216 @@
+import { INITIAL_FEN, Position, applyUciMove, findLegalMove, parseFen } from './chess-rules'
+import { AgentArtifact } from './compiler'
+import { SandboxRunner } from './sandbox'
+import { UciClient, UciTimeoutError, UciTranscriptLine } from './uci-client'
+
+// Pre-flight check run on every new build: the agent is started on its own and walked through the
+// parts of UCI a match relies on. Each check keeps the transcript of what was sent and received, so
+// a failing agent can be fixed without playing a match to find out.
+
+// Bumped whenever checks are added or changed, so stored reports are run again
+export const CONFORMANCE_SUITE_VERSION = 1
+
+export interface ConformanceCheck {
+  name: string
+  passed: boolean
+  detail?: string
+  transcript: UciTranscriptLine[]
+}
+
+export interface ConformanceReport {
+  suiteVersion: number
+  passed: boolean
+  // From "id name", if the agent sent one
+  engineName?: string
+  checks: ConformanceCheck[]
+  durationMs: number
+  checkedAt: Date
+}
+
+const HANDSHAKE_TIMEOUT_MS = 5000
+// On top of the time a go command allows, for process start and pipe latency
+const SEARCH_SLACK_MS = 2000
+
+const START_MOVES = ['e2e4', 'e7e5', 'g1f3']
+// A middlegame position with castling rights for both sides, and one with an en passant capture
+const TEST_FEN = 'r1bqk2r/pppp1ppp/2n2n2/2b1p3/2B1P3/3P1N2/PPP2PPP/RNBQK2R w KQkq - 1 5'
+const EN_PASSANT_FEN = 'rnbqkbnr/ppp1p1pp/8/3pPp2/8/8/PPPP1PPP/RNBQKBNR w KQkq f6 0 3'
+
+interface CheckOutcome {
+  passed: boolean
+  detail?: string
+}
+
+type CheckRunner = (client: UciClient) => Promise<CheckOutcome>
+
+function positionAfter(fen: string, moves: string[]): Position {
+  return moves.reduce((position, move) => applyUciMove(position, move), parseFen(fen))
+}
+
+// Sends a search and checks that the reply is a legal move in the searched position
+async function expectLegalMove(
+  client: UciClient,
+  position: Position,
+  positionCommand: string,
+  goCommand: string,
+  allowedMs: number
+): Promise<CheckOutcome> {
+  client.send(positionCommand)
+  client.go(goCommand)
+  const startedAt = Date.now()
+  const { move } = await client.readBestMove(allowedMs + SEARCH_SLACK_MS)
+  const elapsedMs = Date.now() - startedAt
+  if (!findLegalMove(position, move)) {
+    return { passed: false, detail: `bestmove ${move || '(empty)'} is not legal in this position` }
+  }
+  return { passed: true, detail: `bestmove ${move} after ${elapsedMs}ms` }
+}
+
+const CHECKS: { name: string; run: CheckRunner }[] = [
+  {
+    name: 'uci',
+    run: async client => {
+      client.send('uci')
+      await client.readUntil(line => line === 'uciok', HANDSHAKE_TIMEOUT_MS, 'uciok')
+      return { passed: true }
+    }
+  },
+  {
+    name: 'isready',
+    run: async client => {
+      client.send('isready')
+      await client.readUntil(line => line === 'readyok', HANDSHAKE_TIMEOUT_MS, 'readyok')
+      return { passed: true }
+    }
+  },
+  {
+    name: 'ucinewgame',
+    run: async client => {
+      client.send('ucinewgame')
+      client.send('isready')
+      await client.readUntil(line => line === 'readyok', HANDSHAKE_TIMEOUT_MS, 'readyok after ucinewgame')
+      return { passed: true }
+    }
+  },
+  {
+    name: 'position startpos moves',
+    run: client => expectLegalMove(
+      client,
+      positionAfter(INITIAL_FEN, START_MOVES),
+      `position startpos moves ${START_MOVES.join(' ')}`,
+      'go movetime 500',
+      500
+    )
+  },
+  {
+    name: 'position fen',
+    run: client => expectLegalMove(client, parseFen(TEST_FEN), `position fen ${TEST_FEN}`, 'go movetime 500', 500)
+  },
+  {
+    name: 'position fen moves',
+    run: client => expectLegalMove(
+      client,
+      positionAfter(EN_PASSANT_FEN, ['e5f6', 'g7f6']),
+      `position fen ${EN_PASSANT_FEN} moves e5f6 g7f6`,
+      'go movetime 500',
+      500
+    )
+  },
+  {
+    name: 'go wtime btime',
+    run: client => expectLegalMove(
+      client,
+      parseFen(TEST_FEN),
+      `position fen ${TEST_FEN}`,
+      'go wtime 3000 btime 3000 winc 100 binc 100',
+      3000
+    )
+  },
+  {
+    name: 'go depth',
+    run: client => expectLegalMove(client, parseFen(INITIAL_FEN), 'position startpos', 'go depth 2', 3000)
+  },
+  {
+    name: 'go nodes',
+    run: client => expectLegalMove(client, parseFen(INITIAL_FEN), 'position startpos', 'go nodes 10000', 3000)
+  },
+  {
+    name: 'go infinite / stop',
+    run: async client => {
+      const position = parseFen(INITIAL_FEN)
+      client.send('position startpos')
+      client.go('go infinite')
+      let move: string
+      let stoppedEarly = false
+      try {
+        move = (await client.readBestMove(500)).move
+        stoppedEarly = true
+      } catch (error) {
+        if (!(error instanceof UciTimeoutError)) throw error
+        client.stop()
+        move = (await client.readBestMove(SEARCH_SLACK_MS)).move
+      }
+      if (!findLegalMove(position, move)) {
+        return { passed: false, detail: `bestmove ${move || '(empty)'} is not legal in this position` }
+      }
+      // Not strictly UCI, but harmless in matches, which never search infinitely
+      return stoppedEarly
+        ? { passed: true, detail: `bestmove ${move} was sent before stop` }
+        : { passed: true, detail: `bestmove ${move} after stop` }
+    }
+  },
+  {
+    name: 'quit',
+    run: async client => {
+      client.send('quit')
+      const exited = await client.waitForExit(HANDSHAKE_TIMEOUT_MS)
+      return exited
+        ? { passed: true }
+        : { passed: false, detail: `Still running ${HANDSHAKE_TIMEOUT_MS}ms after quit` }
+    }
+  }
+]
+
+export async function runConformanceSuite(sandbox: SandboxRunner, artifact: AgentArtifact): Promise<ConformanceReport> {
+  const startedAt = Date.now()
+  const checks: ConformanceCheck[] = []
+  const client = UciClient.spawn(sandbox, artifact)
+
+  try {
+    for (const check of CHECKS) {
+      // Without the handshake every other check would only wait for its timeout
+      if (checks.length > 0 && !checks[0].passed) {
+        checks.push({ name: check.name, passed: false, detail: 'Skipped: the uci handshake failed', transcript: [] })
+        continue
+      }
+
+      client.takeTranscript()
+      let outcome: CheckOutcome
+      try {
+        outcome = await check.run(client)
+      } catch (error) {
+        outcome = { passed: false, detail: error instanceof Error ? error.message : String(error) }
+      }
+      if (client.sandboxed.violation) {
+        outcome = { passed: false, detail: `Stopped by sandbox (${client.sandboxed.violation}): ${client.sandboxed.detail}` }
+      }
+      checks.push({ name: check.name, ...outcome, transcript: client.takeTranscript() })
+    }
+  } finally {
+    client.close()
+  }
+
+  const handshake = checks[0].transcript
+  const engineName = handshake
+    .find(entry => entry.from === 'agent' && entry.line.startsWith('id name '))
+    ?.line.slice('id name '.length)
+
+  return {
+    suiteVersion: CONFORMANCE_SUITE_VERSION,
+    passed: checks.every(check => check.passed),
+    engineName,
+    checks,
+    durationMs: Date.now() - startedAt,
+    checkedAt: new Date()
+  }
+}
@@ -11,6 +11,9 @@ import usersRouter from './routes/users';
 import statsRouter from './routes/stats';
 import uploadRouter from './routes/upload';
 import chessRouter from './routes/chess';
+import agentsRouter from './routes/agents';
+import { dropLegacyAgentIndex } from './services/agents';
+import { runCompetitionLifecycle } from './services/competition-lifecycle';
 
 // Load environment variables based on NODE_ENV
 if (process.env.NODE_ENV === 'production') {
@@ -21,6 +24,8 @@ if (process.env.NODE_ENV === 'production') {
 
 const app: Express = express();
 const PORT = process.env.PORT || 5000;
+// How often competitions are checked for a start or end date that has passed; 0 turns the scheduler off
+const COMPETITION_SCHEDULER_INTERVAL_MS = Number(process.env.COMPETITION_SCHEDULER_INTERVAL_MS ?? 60 * 1000);
 
 // CORS configuration
 const allowedOrigins = [
@@ -67,7 +72,9 @@ if (!fs.existsSync(uploadsDir)) {
 }
 
 // Connect to MongoDB
-dbConnect();
+dbConnect()
+  .then(dropLegacyAgentIndex)
+  .catch(error => console.error('Failed to migrate agent indexes:', error));
 
 // Create a router for the health check
 const healthRouter = express.Router();
@@ -88,6 +95,7 @@ app.use('/api/users', usersRouter);
 app.use('/api/stats', statsRouter);
 app.use('/api/upload', uploadRouter);
 app.use('/api/chess', chessRouter);
+app.use('/api/agents', agentsRouter);
 app.use('/health', healthRouter);
 
 // Error handling middleware
@@ -96,6 +104,24 @@ app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
   res.status(500).json({ error: 'Something broke!', details: err.message });
 });
 
+// Competition lifecycle scheduler
+async function runScheduler(): Promise<void> {
+  try {
+    await dbConnect();
+    const { opened, closed } = await runCompetitionLifecycle();
+    if (opened > 0 || closed > 0) {
+      console.log(`Competition scheduler opened ${opened} and closed ${closed} competition(s)`);
+    }
+  } catch (error) {
+    console.error('Competition scheduler failed:', error);
+  }
+}
+
+if (COMPETITION_SCHEDULER_INTERVAL_MS > 0) {
+  runScheduler();
+  setInterval(runScheduler, COMPETITION_SCHEDULER_INTERVAL_MS);
+}
+
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT} in ${process.env.NODE_ENV || 'development'} mode`);
   console.log(`Server URL: ${process.env.NODE_ENV === 'production' ? 'https://co3pe.onrender.com' : 'http://localhost:5000'}`);
@@ -1,13 +1,27 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+// A wallet can own several agents; each has its own name, versions, stats and rating
 export interface IAgent extends Document {
   name: string;
+  // Owner
   walletAddress: string;
+  // Version played in matchmaking, challenges and competitions
+  activeVersion?: mongoose.Types.ObjectId;
+  // The active version's source (uploads/agents/<fileId>.cpp)
+  fileId?: string;
   wins: number;
   losses: number;
   draws: number;
   points: number;
   rank: number;
+  // Glicko-2 rating, updated after every rated match
+  rating: number;
+  ratingDeviation: number;
+  ratingVolatility: number;
+  ratedGames: number;
+  lastRatedAt?: Date;
+  // When matchmaking last scheduled a game for this agent
+  lastMatchedAt?: Date;
   status: 'active' | 'inactive';
   createdAt: Date;
 }
@@ -21,18 +35,27 @@ type AgentModel = mongoose.Model<IAgent, {}, IAgentMethods>;
 const AgentSchema = new Schema({
   name: { type: String, required: true },
   walletAddress: { type: String, required: true, index: true },
+  activeVersion: { type: Schema.Types.ObjectId, ref: 'AgentVersion' },
+  fileId: String,
   wins: { type: Number, default: 0 },
   losses: { type: Number, default: 0 },
   draws: { type: Number, default: 0 },
   points: { type: Number, default: 0 },
   rank: { type: Number, default: 0 },
+  rating: { type: Number, default: 1500 },
+  ratingDeviation: { type: Number, default: 350 },
+  ratingVolatility: { type: Number, default: 0.06 },
+  ratedGames: { type: Number, default: 0 },
+  lastRatedAt: Date,
+  lastMatchedAt: Date,
   status: { type: String, enum: ['active', 'inactive'], default: 'active' },
   createdAt: { type: Date, default: Date.now }
 });
 
 // Add index for faster queries
-AgentSchema.index({ walletAddress: 1 }, { unique: true });
+AgentSchema.index({ walletAddress: 1, name: 1 }, { unique: true }); // Names are unique per owner
 AgentSchema.index({ points: -1 }); // For leaderboard sorting
+AgentSchema.index({ rating: -1 }); // For rating leaderboard sorting
 AgentSchema.index({ status: 1 }); // For filtering active agents
 
 // Add method to update agent stats
@@ -0,0 +1,57 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { AGENT_LANGUAGES, AgentLanguage } from '../engine/toolchains';
+
+// One immutable upload of an agent. Versions are numbered per agent from 1; the agent's
+// activeVersion is the one played on the ladder and in competitions.
+export interface IAgentVersion extends Document {
+  agent: mongoose.Types.ObjectId;
+  walletAddress: string;
+  version: number;
+  // Source at uploads/agents/<fileId><extension>, the extension telling the language
+  fileId: string;
+  language?: AgentLanguage;
+  originalName?: string;
+  // SHA-256 of the source; uploading the same source again reuses its version
+  sourceHash: string;
+  // Latest build of the source, with its log; a version whose build failed cannot be activated
+  build?: mongoose.Types.ObjectId;
+  // Cached executable (or checked script) from a successful build
+  artifactPath?: string;
+  compiledAt?: Date;
+  notes?: string;
+  // Results of every finished match this version played
+  stats: {
+    wins: number;
+    losses: number;
+    draws: number;
+  };
+  uploadedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AgentVersionSchema = new Schema({
+  agent: { type: Schema.Types.ObjectId, ref: 'Agent', required: true },
+  walletAddress: { type: String, required: true },
+  version: { type: Number, required: true },
+  fileId: { type: String, required: true },
+  language: { type: String, enum: AGENT_LANGUAGES },
+  originalName: String,
+  sourceHash: { type: String, required: true },
+  build: { type: Schema.Types.ObjectId, ref: 'Build' },
+  artifactPath: String,
+  compiledAt: Date,
+  notes: { type: String, maxLength: 500 },
+  stats: {
+    wins: { type: Number, default: 0 },
+    losses: { type: Number, default: 0 },
+    draws: { type: Number, default: 0 }
+  },
+  uploadedAt: { type: Date, default: Date.now }
+}, { timestamps: true });
+
+AgentVersionSchema.index({ agent: 1, version: -1 }, { unique: true });
+AgentVersionSchema.index({ agent: 1, sourceHash: 1 });
+AgentVersionSchema.index({ fileId: 1 }, { unique: true });
+
+export default mongoose.model<IAgentVersion>('AgentVersion', AgentVersionSchema);
@@ -0,0 +1,73 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { BracketSide, BracketSource, NodeGameKind } from '../services/bracket';
+
+export interface IBracketGame {
+  kind: NodeGameKind;
+  // Which of the node's entrants plays white
+  whiteSlot: 0 | 1;
+  match?: mongoose.Types.ObjectId;
+  scheduledAt: Date;
+  // Points for white, set once the game is over
+  whiteScore?: number;
+  completedAt?: Date;
+}
+
+// walkover: only one entrant turned up; skipped: no entrants, or a grand final reset that was not needed
+export type BracketOutcome = 'played' | 'walkover' | 'skipped';
+
+// One knockout pairing: a pair of games with colors swapped, plus tiebreak games when the pair is level
+export interface IBracketNode extends Document {
+  competition: mongoose.Types.ObjectId;
+  key: string;
+  bracket: BracketSide;
+  round: number;
+  slot: number;
+  sources: BracketSource[];
+  resetOf?: string;
+  // Both entrants, written once every source is decided; null for a bye
+  entrants: (mongoose.Types.ObjectId | null)[];
+  resolvedAt?: Date;
+  games: IBracketGame[];
+  winner?: mongoose.Types.ObjectId;
+  loser?: mongoose.Types.ObjectId;
+  outcome?: BracketOutcome;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BracketGameSchema = new Schema({
+  kind: { type: String, enum: ['main', 'tiebreak', 'armageddon'], required: true },
+  whiteSlot: { type: Number, enum: [0, 1], required: true },
+  match: { type: Schema.Types.ObjectId, ref: 'Match' },
+  scheduledAt: { type: Date, required: true },
+  whiteScore: { type: Number, enum: [0, 0.5, 1] },
+  completedAt: Date
+}, { _id: false });
+
+const BracketNodeSchema = new Schema({
+  competition: { type: Schema.Types.ObjectId, ref: 'Competition', required: true },
+  key: { type: String, required: true },
+  bracket: { type: String, enum: ['winners', 'losers', 'final'], required: true },
+  round: { type: Number, required: true },
+  slot: { type: Number, required: true },
+  sources: [{
+    _id: false,
+    kind: { type: String, enum: ['seed', 'winner', 'loser'], required: true },
+    seed: Number,
+    node: String
+  }],
+  resetOf: String,
+  entrants: { type: [{ type: Schema.Types.ObjectId, ref: 'Agent' }], default: [] },
+  resolvedAt: Date,
+  games: { type: [BracketGameSchema], default: [] },
+  winner: { type: Schema.Types.ObjectId, ref: 'Agent' },
+  loser: { type: Schema.Types.ObjectId, ref: 'Agent' },
+  outcome: { type: String, enum: ['played', 'walkover', 'skipped'] },
+  completedAt: Date
+}, { timestamps: true });
+
+BracketNodeSchema.index({ competition: 1, key: 1 }, { unique: true });
+BracketNodeSchema.index({ 'games.match': 1 });
+
+export default mongoose.model<IBracketNode>('BracketNode', BracketNodeSchema);
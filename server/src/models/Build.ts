@@ -0,0 +1,68 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { AGENT_LANGUAGES, AgentLanguage } from '../engine/toolchains';
+import { ConformanceReport } from '../engine/uci-conformance';
+
+export const BUILD_STATES = {
+  SUCCEEDED: 'succeeded',
+  FAILED: 'failed'
+} as const;
+
+export type BuildState = typeof BUILD_STATES[keyof typeof BUILD_STATES];
+
+const TranscriptLineSchema = new Schema({
+  from: { type: String, enum: ['server', 'agent'], required: true },
+  line: { type: String, required: true },
+  atMs: Number
+}, { _id: false });
+
+const ConformanceCheckSchema = new Schema({
+  name: { type: String, required: true },
+  passed: { type: Boolean, required: true },
+  detail: String,
+  transcript: [TranscriptLineSchema]
+}, { _id: false });
+
+// Shared with submissions, which keep the report they were accepted or rejected with
+export const ConformanceReportSchema = new Schema({
+  suiteVersion: { type: Number, required: true },
+  passed: { type: Boolean, required: true },
+  engineName: String,
+  checks: [ConformanceCheckSchema],
+  durationMs: Number,
+  checkedAt: Date
+}, { _id: false });
+
+// The latest build of one source in one language. Versions with the same source share it, and
+// building the source again (e.g. after a failure) updates it.
+export interface IBuild extends Document {
+  language: AgentLanguage;
+  sourceHash: string;
+  status: BuildState;
+  toolchainVersion: string;
+  // Everything the toolchain printed, cut at 64KB
+  log: string;
+  // Cached executable or checked script; only set when the build succeeded
+  artifactPath?: string;
+  durationMs: number;
+  builtAt: Date;
+  // UCI conformance of the artifact; only checked once the build succeeded
+  conformance?: ConformanceReport;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BuildSchema = new Schema({
+  language: { type: String, enum: AGENT_LANGUAGES, required: true },
+  sourceHash: { type: String, required: true },
+  status: { type: String, enum: Object.values(BUILD_STATES), required: true },
+  toolchainVersion: String,
+  log: { type: String, default: '' },
+  artifactPath: String,
+  durationMs: Number,
+  builtAt: { type: Date, default: Date.now },
+  conformance: ConformanceReportSchema
+}, { timestamps: true });
+
+BuildSchema.index({ language: 1, sourceHash: 1 }, { unique: true });
+
+export default mongoose.model<IBuild>('Build', BuildSchema);
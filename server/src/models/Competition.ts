@@ -1,4 +1,8 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { AdjudicationRules, TimeControl } from '../engine/types/chess';
+import { KNOCKOUT_FORMATS, KNOCKOUT_TIEBREAKS, KnockoutFormat, KnockoutTiebreak } from '../services/bracket';
+import { OPENING_SELECTIONS, OpeningOptions } from '../services/openings';
+import { TOURNAMENT_FORMATS, TournamentFormat } from '../services/tournament-pairing';
 
 export interface ICompetition extends Document {
   title: string;
@@ -12,8 +16,39 @@ export interface ICompetition extends Document {
   createdBy: mongoose.Types.ObjectId;
   submissions: {
     agent: mongoose.Types.ObjectId;
+    version?: mongoose.Types.ObjectId;
     submittedAt: Date;
   }[];
+  timeControl?: TimeControl;
+  // Opening suite the games start from; the server's default suite, if any, otherwise
+  openings?: OpeningOptions;
+  // Thresholds for deciding games by evaluation; any left out take the server's defaults
+  adjudication?: Partial<AdjudicationRules>;
+  // Tournament the lifecycle scheduler starts at startDate; a round robin unless set
+  tournamentOptions?: {
+    format: TournamentFormat | KnockoutFormat;
+    rounds?: number;
+    tiebreak?: KnockoutTiebreak;
+  };
+  // Set once the competition has started; the entry list is frozen from then on
+  submissionsLockedAt?: Date;
+  // Set when the tournament is started from the submitted agents
+  tournament?: {
+    format: TournamentFormat | KnockoutFormat;
+    // Knockouts only: how drawn games are settled
+    tiebreak?: KnockoutTiebreak;
+    rounds: number;
+    // 0 until the first round is paired
+    currentRound: number;
+    // Agents in seed order
+    entrants: mongoose.Types.ObjectId[];
+    // The version each entrant was submitted with, in the same order; null for entries from before
+    // versions were pinned, which play the agent's active version
+    entrantVersions?: (mongoose.Types.ObjectId | null)[];
+    winnerAgent?: mongoose.Types.ObjectId;
+    startedAt: Date;
+    completedAt?: Date;
+  };
   createdAt: Date;
   updatedAt: Date;
 }
@@ -34,12 +69,55 @@ const CompetitionSchema: Schema = new Schema({
   createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   submissions: [{
     agent: { type: Schema.Types.ObjectId, ref: 'Agent' },
+    version: { type: Schema.Types.ObjectId, ref: 'AgentVersion' },
     submittedAt: { type: Date, default: Date.now }
   }],
+  // Time control applied to every match played in this competition
+  timeControl: {
+    type: { type: String, enum: ['increment', 'sudden_death', 'movetime'] },
+    baseMs: Number,
+    incrementMs: Number,
+    moveTimeMs: Number
+  },
+  openings: {
+    suite: String,
+    selection: { type: String, enum: OPENING_SELECTIONS },
+    position: Number
+  },
+  adjudication: {
+    resignCp: Number,
+    resignPlies: Number,
+    drawCp: Number,
+    drawAfterMove: Number,
+    drawPlies: Number,
+    endgamePieces: Number,
+    nodes: Number
+  },
+  tournamentOptions: {
+    format: { type: String, enum: [...TOURNAMENT_FORMATS, ...KNOCKOUT_FORMATS] },
+    rounds: Number,
+    tiebreak: { type: String, enum: KNOCKOUT_TIEBREAKS }
+  },
+  submissionsLockedAt: Date,
+  tournament: {
+    format: { type: String, enum: [...TOURNAMENT_FORMATS, ...KNOCKOUT_FORMATS] },
+    tiebreak: { type: String, enum: KNOCKOUT_TIEBREAKS },
+    rounds: Number,
+    currentRound: Number,
+    entrants: { type: [{ type: Schema.Types.ObjectId, ref: 'Agent' }], default: undefined },
+    entrantVersions: { type: [{ type: Schema.Types.ObjectId, ref: 'AgentVersion' }], default: undefined },
+    winnerAgent: { type: Schema.Types.ObjectId, ref: 'Agent' },
+    startedAt: Date,
+    completedAt: Date
+  },
   createdAt: { type: Date, default: Date.now },
   updatedAt: { type: Date, default: Date.now }
 });
 
+// The lifecycle scheduler looks competitions up by status and date
+CompetitionSchema.index({ status: 1, startDate: 1 });
+CompetitionSchema.index({ status: 1, endDate: 1 });
+
 // Update the updatedAt timestamp before saving
 CompetitionSchema.pre('save', function(this: ICompetition, next) {
   this.updatedAt = new Date();
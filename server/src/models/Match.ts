@@ -0,0 +1,169 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ADJUDICATION_RULES, AdjudicationEvidence, AdjudicationRules, GAME_END_REASONS, GameEndReason, MoveClock, MoveSearch, SandboxForfeit, TimeControl } from '../engine/types/chess';
+import { MatchOpening } from '../services/openings';
+
+export const MATCH_STATES = {
+  QUEUED: 'queued',
+  INITIALIZING: 'initializing',
+  RUNNING: 'running',
+  COMPLETED: 'completed',
+  ERROR: 'error'
+} as const;
+
+export type MatchState = typeof MATCH_STATES[keyof typeof MATCH_STATES];
+
+// player identifies the side for the whole match set; color is the side's pieces in this game
+export interface IMatchPlayer {
+  player: 1 | 2;
+  color: 'w' | 'b';
+  agent?: mongoose.Types.ObjectId;
+  walletAddress?: string;
+  name: string;
+  fileId?: string;
+  // Set for the built-in opponents of practice matches
+  houseBot?: string;
+}
+
+export interface IMatch extends Document {
+  status: MatchState;
+  message: string;
+  players: IMatchPlayer[];
+  competition?: mongoose.Types.ObjectId;
+  // The set this game belongs to and its number in it, starting at 1. Games in a set are rated
+  // with the set rather than on their own.
+  matchSet?: mongoose.Types.ObjectId;
+  game?: number;
+  // False for practice games, which never change ratings
+  rated: boolean;
+  // The suite position the game starts from; the initial position when unset
+  opening?: MatchOpening;
+  moves: string[];
+  fens: string[];
+  result?: {
+    winner: number;
+    reason: GameEndReason;
+    detail?: string;
+    // Set when Stockfish's evaluation decided the game
+    adjudication?: AdjudicationEvidence;
+  };
+  forfeit?: SandboxForfeit;
+  timeControl?: TimeControl;
+  // The rules the game may be adjudicated by; played out to the ply cap when unset
+  adjudicationRules?: AdjudicationRules;
+  clocks: MoveClock[];
+  // The engines' reported depth, score and principal variation for each ply
+  searches: MoveSearch[];
+  engineVersion: string;
+  engineOutput?: string;
+  error?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  durationMs?: number;
+  // Set once the result has been applied to the players' ratings
+  ratedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MatchPlayerSchema = new Schema({
+  player: { type: Number, enum: [1, 2], required: true },
+  color: { type: String, enum: ['w', 'b'], required: true },
+  agent: { type: Schema.Types.ObjectId, ref: 'Agent' },
+  walletAddress: String,
+  name: { type: String, required: true },
+  fileId: String,
+  houseBot: String
+}, { _id: false });
+
+const MatchSchema = new Schema({
+  status: {
+    type: String,
+    enum: Object.values(MATCH_STATES),
+    default: MATCH_STATES.QUEUED
+  },
+  message: { type: String, default: '' },
+  players: { type: [MatchPlayerSchema], required: true },
+  competition: { type: Schema.Types.ObjectId, ref: 'Competition' },
+  matchSet: { type: Schema.Types.ObjectId, ref: 'MatchSet' },
+  game: Number,
+  rated: { type: Boolean, default: true },
+  opening: {
+    suite: String,
+    index: Number,
+    name: String,
+    fen: String
+  },
+  moves: { type: [String], default: [] },
+  fens: { type: [String], default: [] },
+  result: {
+    winner: { type: Number, enum: [0, 1, 2] },
+    reason: { type: String, enum: Object.values(GAME_END_REASONS) },
+    detail: String,
+    adjudication: {
+      rule: { type: String, enum: ADJUDICATION_RULES },
+      ply: Number,
+      evaluations: {
+        type: [{
+          _id: false,
+          ply: Number,
+          scoreCp: Number,
+          scoreMate: Number,
+          depth: Number,
+          bestMove: String
+        }],
+        default: undefined
+      },
+      pieces: Number,
+      rules: Schema.Types.Mixed,
+      engine: String
+    }
+  },
+  forfeit: {
+    player: Number,
+    violation: { type: String, enum: ['cpu_limit', 'memory_limit', 'process_limit'] },
+    detail: String
+  },
+  timeControl: {
+    type: { type: String, enum: ['increment', 'sudden_death', 'movetime'] },
+    baseMs: Number,
+    incrementMs: Number,
+    moveTimeMs: Number
+  },
+  adjudicationRules: Schema.Types.Mixed,
+  clocks: [{
+    _id: false,
+    ply: Number,
+    color: { type: String, enum: ['w', 'b'] },
+    elapsedMs: Number,
+    whiteMs: Number,
+    blackMs: Number
+  }],
+  searches: [{
+    _id: false,
+    ply: Number,
+    depth: Number,
+    seldepth: Number,
+    scoreCp: Number,
+    scoreMate: Number,
+    nodes: Number,
+    nps: Number,
+    timeMs: Number,
+    pv: { type: [String], default: undefined }
+  }],
+  engineVersion: { type: String, required: true },
+  engineOutput: String,
+  error: String,
+  startedAt: Date,
+  completedAt: Date,
+  durationMs: Number,
+  ratedAt: Date
+}, { timestamps: true });
+
+// Match history per agent and wallet, newest first
+MatchSchema.index({ 'players.agent': 1, createdAt: -1 });
+MatchSchema.index({ 'players.walletAddress': 1, createdAt: -1 });
+MatchSchema.index({ competition: 1, createdAt: -1 });
+MatchSchema.index({ status: 1 });
+MatchSchema.index({ matchSet: 1, game: 1 });
+
+export default mongoose.model<IMatch>('Match', MatchSchema);
@@ -0,0 +1,68 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { TimeControl } from '../engine/types/chess';
+
+export const JOB_STATES = {
+  QUEUED: 'queued',
+  RUNNING: 'running',
+  COMPLETED: 'completed',
+  FAILED: 'failed'
+} as const;
+
+export type JobState = typeof JOB_STATES[keyof typeof JOB_STATES];
+
+// practice: a user's agent against a house bot, unrated and scored on the points leaderboard
+// head_to_head: two uploaded agents (matchmaking, challenges, competitions), rated but not scored
+export type MatchJobKind = 'practice' | 'head_to_head';
+
+export interface IMatchJob extends Document {
+  match: mongoose.Types.ObjectId;
+  kind: MatchJobKind;
+  status: JobState;
+  payload: {
+    // Uploaded sources, or "house:<id>" for a house bot
+    player1Path: string;
+    player2Path: string;
+    timeControl: TimeControl;
+  };
+  attempts: number;
+  maxAttempts: number;
+  runAfter: Date;
+  lockedBy?: string;
+  lockedAt?: Date;
+  heartbeatAt?: Date;
+  lastError?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MatchJobSchema = new Schema({
+  match: { type: Schema.Types.ObjectId, ref: 'Match', required: true },
+  kind: { type: String, enum: ['practice', 'head_to_head'], required: true },
+  status: {
+    type: String,
+    enum: Object.values(JOB_STATES),
+    default: JOB_STATES.QUEUED
+  },
+  payload: {
+    player1Path: { type: String, required: true },
+    player2Path: { type: String, required: true },
+    timeControl: { type: Schema.Types.Mixed, required: true }
+  },
+  attempts: { type: Number, default: 0 },
+  maxAttempts: { type: Number, default: 3 },
+  runAfter: { type: Date, default: Date.now },
+  lockedBy: String,
+  lockedAt: Date,
+  heartbeatAt: Date,
+  lastError: String,
+  completedAt: Date
+}, { timestamps: true });
+
+// Claim order: oldest runnable job first
+MatchJobSchema.index({ status: 1, runAfter: 1, createdAt: 1 });
+// Finding jobs whose worker stopped heartbeating
+MatchJobSchema.index({ status: 1, heartbeatAt: 1 });
+MatchJobSchema.index({ match: 1 });
+
+export default mongoose.model<IMatchJob>('MatchJob', MatchJobSchema);
@@ -0,0 +1,86 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { TimeControl } from '../engine/types/chess';
+import { MatchJobKind } from './MatchJob';
+
+export const MATCH_SET_STATES = {
+  RUNNING: 'running',
+  COMPLETED: 'completed',
+  ERROR: 'error'
+} as const;
+
+export type MatchSetState = typeof MATCH_SET_STATES[keyof typeof MATCH_SET_STATES];
+
+// Who plays the set. Colors are per game and stored on each match.
+export interface IMatchSetPlayer {
+  player: 1 | 2;
+  agent?: mongoose.Types.ObjectId;
+  walletAddress?: string;
+  name: string;
+  fileId?: string;
+  // Set for the built-in opponents of practice matches
+  houseBot?: string;
+}
+
+// A pairing played as several games with alternating colors: player 1 has white in the odd games,
+// player 2 in the even ones. The set, not each game, is the rated unit.
+export interface IMatchSet extends Document {
+  kind: MatchJobKind;
+  status: MatchSetState;
+  players: IMatchSetPlayer[];
+  competition?: mongoose.Types.ObjectId;
+  // False for practice sets, which never change ratings
+  rated: boolean;
+  timeControl: TimeControl;
+  // The games in playing order
+  matches: mongoose.Types.ObjectId[];
+  // Points per player once every game is over: 1 per win, 0.5 per draw
+  score?: {
+    player1: number;
+    player2: number;
+  };
+  // 0 when the set is drawn
+  winner?: number;
+  error?: string;
+  completedAt?: Date;
+  // Set once the result has been applied to the players' ratings
+  ratedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MatchSetPlayerSchema = new Schema({
+  player: { type: Number, enum: [1, 2], required: true },
+  agent: { type: Schema.Types.ObjectId, ref: 'Agent' },
+  walletAddress: String,
+  name: { type: String, required: true },
+  fileId: String,
+  houseBot: String
+}, { _id: false });
+
+const MatchSetSchema = new Schema({
+  kind: { type: String, enum: ['practice', 'head_to_head'], required: true },
+  status: {
+    type: String,
+    enum: Object.values(MATCH_SET_STATES),
+    default: MATCH_SET_STATES.RUNNING
+  },
+  players: { type: [MatchSetPlayerSchema], required: true },
+  competition: { type: Schema.Types.ObjectId, ref: 'Competition' },
+  rated: { type: Boolean, default: true },
+  timeControl: { type: Schema.Types.Mixed, required: true },
+  matches: [{ type: Schema.Types.ObjectId, ref: 'Match' }],
+  score: {
+    player1: Number,
+    player2: Number
+  },
+  winner: { type: Number, enum: [0, 1, 2] },
+  error: String,
+  completedAt: Date,
+  ratedAt: Date
+}, { timestamps: true });
+
+MatchSetSchema.index({ 'players.agent': 1, createdAt: -1 });
+MatchSetSchema.index({ 'players.walletAddress': 1, createdAt: -1 });
+MatchSetSchema.index({ status: 1 });
+
+export default mongoose.model<IMatchSet>('MatchSet', MatchSetSchema);
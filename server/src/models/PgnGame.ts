@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// opening: a line matches can start from instead of the initial position
+// fixture: a game with a known outcome, kept for regression testing the rules and adjudication
+export const PGN_GAME_PURPOSES = ['opening', 'fixture'] as const;
+
+export type PgnGamePurpose = typeof PGN_GAME_PURPOSES[number];
+
+export interface IPgnGame extends Document {
+  purpose: PgnGamePurpose;
+  name: string;
+  headers: Map<string, string>;
+  startFen: string;
+  moves: string[];
+  san: string[];
+  endFen: string;
+  result: '1-0' | '0-1' | '1/2-1/2' | '*';
+  // Hash of the start position and move list, used to skip duplicate uploads
+  lineKey: string;
+  source?: string;
+  uploadedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PgnGameSchema = new Schema({
+  purpose: { type: String, enum: PGN_GAME_PURPOSES, required: true },
+  name: { type: String, required: true },
+  headers: { type: Map, of: String, default: {} },
+  startFen: { type: String, required: true },
+  moves: { type: [String], default: [] },
+  san: { type: [String], default: [] },
+  endFen: { type: String, required: true },
+  result: { type: String, enum: ['1-0', '0-1', '1/2-1/2', '*'], default: '*' },
+  lineKey: { type: String, required: true },
+  source: String,
+  uploadedBy: String
+}, { timestamps: true });
+
+PgnGameSchema.index({ purpose: 1, createdAt: -1 });
+// The same line uploaded twice is stored once per purpose
+PgnGameSchema.index({ purpose: 1, lineKey: 1 }, { unique: true });
+
+export default mongoose.model<IPgnGame>('PgnGame', PgnGameSchema);
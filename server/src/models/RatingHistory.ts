@@ -0,0 +1,51 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// One entry per agent per rated match or match set
+export interface IRatingHistory extends Document {
+  agent: mongoose.Types.ObjectId;
+  walletAddress: string;
+  // For a match set, its first game
+  match: mongoose.Types.ObjectId;
+  matchSet?: mongoose.Types.ObjectId;
+  games: number;
+  opponent: {
+    agent?: mongoose.Types.ObjectId;
+    name: string;
+    rating: number;
+    deviation: number;
+  };
+  // 1 for a win, 0.5 for a draw, 0 for a loss; for a set, the share of its points (0.75 for 1.5 of 2)
+  score: number;
+  ratingBefore: number;
+  deviationBefore: number;
+  rating: number;
+  deviation: number;
+  volatility: number;
+  createdAt: Date;
+}
+
+const RatingHistorySchema = new Schema({
+  agent: { type: Schema.Types.ObjectId, ref: 'Agent', required: true },
+  walletAddress: { type: String, required: true },
+  match: { type: Schema.Types.ObjectId, ref: 'Match', required: true },
+  matchSet: { type: Schema.Types.ObjectId, ref: 'MatchSet' },
+  games: { type: Number, default: 1 },
+  opponent: {
+    agent: { type: Schema.Types.ObjectId, ref: 'Agent' },
+    name: { type: String, required: true },
+    rating: { type: Number, required: true },
+    deviation: { type: Number, required: true }
+  },
+  score: { type: Number, min: 0, max: 1, required: true },
+  ratingBefore: { type: Number, required: true },
+  deviationBefore: { type: Number, required: true },
+  rating: { type: Number, required: true },
+  deviation: { type: Number, required: true },
+  volatility: { type: Number, required: true }
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+RatingHistorySchema.index({ agent: 1, createdAt: -1 });
+RatingHistorySchema.index({ walletAddress: 1, createdAt: -1 });
+RatingHistorySchema.index({ match: 1 });
+
+export default mongoose.model<IRatingHistory>('RatingHistory', RatingHistorySchema);
@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ConformanceReport } from '../engine/uci-conformance';
+import { ConformanceReportSchema } from './Build';
+
+// pending: entered, waiting for the competition to start
+// processing: validated and playing in the tournament
+// completed: the tournament is over and score is final
+// failed: the agent could not play (e.g. its source is missing or failed the UCI check), see notes
+export const SUBMISSION_STATES = {
+  PENDING: 'pending',
+  PROCESSING: 'processing',
+  COMPLETED: 'completed',
+  FAILED: 'failed'
+} as const;
+
+export type SubmissionState = typeof SUBMISSION_STATES[keyof typeof SUBMISSION_STATES];
+
+// A user's entry in a competition: one agent per user, replaced by submitting again
+export interface ISubmission extends Document {
+  competition: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  walletAddress: string;
+  agent: mongoose.Types.ObjectId;
+  // The version entered, played in every tournament game whatever the agent's active version is
+  // later. Missing on entries from before versions were pinned.
+  version?: mongoose.Types.ObjectId;
+  // The entered version's source
+  fileId: string;
+  submittedAt: Date;
+  // Tournament points, or bracket games won in a knockout
+  score: number;
+  status: SubmissionState;
+  fileUrl: string;
+  notes?: string;
+  // UCI conformance report of the submitted source, with transcripts of failed checks
+  conformance?: ConformanceReport;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SubmissionSchema = new Schema({
+  competition: { type: Schema.Types.ObjectId, ref: 'Competition', required: true },
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  walletAddress: { type: String, required: true },
+  agent: { type: Schema.Types.ObjectId, ref: 'Agent', required: true },
+  version: { type: Schema.Types.ObjectId, ref: 'AgentVersion' },
+  fileId: { type: String, required: true },
+  submittedAt: { type: Date, default: Date.now },
+  score: { type: Number, default: 0 },
+  status: {
+    type: String,
+    enum: Object.values(SUBMISSION_STATES),
+    default: SUBMISSION_STATES.PENDING
+  },
+  fileUrl: { type: String, required: true },
+  notes: String,
+  conformance: ConformanceReportSchema
+}, { timestamps: true });
+
+SubmissionSchema.index({ competition: 1, user: 1 }, { unique: true });
+SubmissionSchema.index({ competition: 1, score: -1 });
+SubmissionSchema.index({ walletAddress: 1, submittedAt: -1 });
+
+export default mongoose.model<ISubmission>('Submission', SubmissionSchema);
@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// One board of one tournament round. A pairing without black is a bye. Double round robins play a
+// single game per pairing, as each pairing meets again with colors swapped; other formats play a
+// two-game match set from one opening, with the pairing's white playing white in the first game.
+export interface ITournamentPairing extends Document {
+  competition: mongoose.Types.ObjectId;
+  round: number;
+  board: number;
+  white: mongoose.Types.ObjectId;
+  black?: mongoose.Types.ObjectId;
+  match?: mongoose.Types.ObjectId;
+  matchSet?: mongoose.Types.ObjectId;
+  // Set when a tick claims the pairing to queue its games
+  scheduledAt?: Date;
+  // Tournament points for each side, set once the game or set is over: 1 for winning it, 0.5 for a draw
+  whiteScore?: number;
+  blackScore?: number;
+  // The game was scored without being played, e.g. a missing agent or a failed match
+  forfeit: boolean;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TournamentPairingSchema = new Schema({
+  competition: { type: Schema.Types.ObjectId, ref: 'Competition', required: true },
+  round: { type: Number, required: true },
+  board: { type: Number, required: true },
+  white: { type: Schema.Types.ObjectId, ref: 'Agent', required: true },
+  black: { type: Schema.Types.ObjectId, ref: 'Agent' },
+  match: { type: Schema.Types.ObjectId, ref: 'Match' },
+  matchSet: { type: Schema.Types.ObjectId, ref: 'MatchSet' },
+  scheduledAt: Date,
+  whiteScore: { type: Number, enum: [0, 0.5, 1] },
+  blackScore: { type: Number, enum: [0, 0.5, 1] },
+  forfeit: { type: Boolean, default: false },
+  completedAt: Date
+}, { timestamps: true });
+
+// A round is paired once, even if two ticks race to create it
+TournamentPairingSchema.index({ competition: 1, round: 1, board: 1 }, { unique: true });
+TournamentPairingSchema.index({ match: 1 });
+TournamentPairingSchema.index({ matchSet: 1 });
+
+export default mongoose.model<ITournamentPairing>('TournamentPairing', TournamentPairingSchema);
@@ -3,6 +3,14 @@ import express from "express";
 import dbConnect from "../lib/mongodb"; // Correct path
 import Agent from "../models/Agent"; // Correct path
 import User from "../models/User";
+import {
+  AgentVersionError,
+  activateVersion,
+  listAgentVersions,
+  listWalletVersions,
+  rollbackVersion
+} from "../services/agent-versions";
+import { BuildError, getVersionBuild } from "../services/builds";
 
 const router = express.Router();
 
@@ -86,4 +94,110 @@ router.get('/user/:walletAddress', async (req, res) => {
   }
 });
 
+// Versions of a wallet's agent, newest first
+router.get('/user/:walletAddress/versions', async (req, res) => {
+  try {
+    await dbConnect();
+    return res.json(await listWalletVersions(req.params.walletAddress));
+  } catch (error) {
+    if (error instanceof AgentVersionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Failed to fetch agent versions:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch agent versions',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.get('/:agentId/versions', async (req, res) => {
+  try {
+    await dbConnect();
+    return res.json(await listAgentVersions(req.params.agentId));
+  } catch (error) {
+    if (error instanceof AgentVersionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Failed to fetch agent versions:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch agent versions',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Make a version the one played on the ladder and in competitions
+// Build of a version, with the full toolchain log
+router.get('/:agentId/versions/:versionId/build', async (req, res) => {
+  try {
+    await dbConnect();
+    const build = await getVersionBuild(req.params.agentId, req.params.versionId);
+    return res.json({
+      id: String(build._id),
+      status: build.status,
+      language: build.language,
+      toolchainVersion: build.toolchainVersion,
+      durationMs: build.durationMs,
+      builtAt: build.builtAt,
+      log: build.log,
+      conformance: build.conformance ?? null
+    });
+  } catch (error) {
+    if (error instanceof BuildError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Failed to get agent build:', error);
+    return res.status(500).json({
+      error: 'Failed to get agent build',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.post('/:agentId/versions/:versionId/activate', async (req, res) => {
+  try {
+    const { walletAddress } = req.body;
+    if (!walletAddress) {
+      return res.status(400).json({ error: 'walletAddress is required' });
+    }
+
+    await dbConnect();
+    const agent = await activateVersion(req.params.agentId, req.params.versionId, walletAddress);
+    return res.json(await listAgentVersions(String(agent._id)));
+  } catch (error) {
+    if (error instanceof AgentVersionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Failed to activate agent version:', error);
+    return res.status(500).json({
+      error: 'Failed to activate agent version',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Go back to the version before the active one
+router.post('/:agentId/rollback', async (req, res) => {
+  try {
+    const { walletAddress } = req.body;
+    if (!walletAddress) {
+      return res.status(400).json({ error: 'walletAddress is required' });
+    }
+
+    await dbConnect();
+    const agent = await rollbackVersion(req.params.agentId, walletAddress);
+    return res.json(await listAgentVersions(String(agent._id)));
+  } catch (error) {
+    if (error instanceof AgentVersionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Failed to roll back agent version:', error);
+    return res.status(500).json({
+      error: 'Failed to roll back agent version',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 export default router; // Ensure this line is present
\ No newline at end of file
@@ -1,13 +1,30 @@
-import express, { Request } from 'express';
-import { ChessEngine } from '../engine/chess-engine';
+import express, { Request, Response } from 'express';
+import { ChessEngine, ENGINE_VERSION } from '../engine/chess-engine';
+import { AdjudicationRules, TimeControl } from '../engine/types/chess';
+import { parseAdjudicationRules } from '../engine/adjudication';
+import { DEFAULT_HOUSE_BOT, HOUSE_BOTS, findHouseBot, houseBotAvailable, houseBotPath } from '../engine/house-bots';
+import { parseTimeControl } from '../engine/time-control';
+import { StockfishRequestError, StockfishUnavailableError, parseStockfishRequest, stockfish } from '../engine/stockfish';
 import multer from 'multer';
 import { google } from 'googleapis';
-import path from 'path';
 import fs from 'fs';
 import Agent from '../models/Agent';
+import AgentVersion from '../models/AgentVersion';
+import Match, { IMatch, MATCH_STATES } from '../models/Match';
+import { IMatchJob } from '../models/MatchJob';
+import MatchSet from '../models/MatchSet';
+import PgnGame, { PGN_GAME_PURPOSES } from '../models/PgnGame';
+import RatingHistory from '../models/RatingHistory';
+import { getJobForMatch } from '../services/match-queue';
+import { importPgn, matchToPgn } from '../services/match-pgn';
+import { LEADERBOARD_SORTS, parseLeaderboardSort } from '../services/rating';
+import { OpeningError, OpeningOptions, listOpeningSuites, loadOpeningSuite, parseOpeningOptions } from '../services/openings';
+import { MatchmakingError, ScheduledMatchSet, challengeAgent, createMatchSet, parseSetGames, requestMatch } from '../services/matchmaking';
+import { AgentSelectionError, ownerNames } from '../services/agents';
+import { uploadedSourcePath } from '../services/builds';
 import { spawn } from 'child_process';
+import { ServerResponse } from 'http';
 import mongoose from 'mongoose';
-import { v4 as uuidv4 } from 'uuid';
 
 // Define a compatible File type
 type MulterFile = {
@@ -26,36 +43,9 @@ type MulterFile = {
 type FileFilterCallback = (error: Error | null, acceptFile: boolean) => void;
 type FilenameCallback = (error: Error | null, filename: string) => void;
 
-// Define match states
-const MATCH_STATES = {
-  INITIALIZING: 'initializing',
-  RUNNING: 'running',
-  COMPLETED: 'completed',
-  ERROR: 'error'
-} as const;
-
-type MatchState = typeof MATCH_STATES[keyof typeof MATCH_STATES];
-
-interface MatchData {
-  status: MatchState;
-  message: string;
-  engineProcess?: any;
-  moves: string[];
-  winner?: string;
-  engineOutput?: string;
-  createdAt: number;
-  lastUpdated: number;
-  error?: string;
-  fileId?: string;
-  walletAddress?: string;
-}
-
 const router = express.Router();
 const engine = new ChessEngine();
 
-// Create a Map to store active matches with proper typing
-const matches: Map<string, MatchData> = new Map();
-
 // Configure Google Drive
 const credentials = {
   type: process.env.GOOGLE_DRIVE_TYPE,
@@ -115,10 +105,21 @@ const upload = multer({
   }
 });
 
-// Add path to Stockfish executable - adjust this path based on your system
-const STOCKFISH_PATH = process.platform === 'win32' 
-  ? path.join(process.cwd(), 'src/engine/stockfish/stockfish.exe')  // Windows
-  : path.join(process.cwd(), 'src/engine/stockfish/stockfish');     // Linux/Mac
+// PGN uploads are parsed and then deleted
+const pgnUpload = multer({
+  storage: multer.diskStorage({
+    destination: './uploads/pgn',
+    filename: function(req, file, cb) {
+      cb(null, `${Date.now()}-${file.originalname}`);
+    }
+  }),
+  fileFilter: function(req, file, cb) {
+    cb(null, file.originalname.toLowerCase().endsWith('.pgn'));
+  },
+  limits: {
+    fileSize: 5 * 1024 * 1024 // 5MB limit
+  }
+});
 
 // Get engine status
 router.get('/status', async (req, res) => {
@@ -130,6 +131,32 @@ router.get('/status', async (req, res) => {
   }
 });
 
+// Stockfish lookups, answered by the local pool; each takes { fen, moveTimeMs?, depth?, nodes?, skillLevel? }
+function stockfishRoute(run: (request: ReturnType<typeof parseStockfishRequest>) => Promise<unknown>) {
+  return async (req: Request, res: Response) => {
+    try {
+      res.json(await run(parseStockfishRequest(req.body)));
+    } catch (error) {
+      if (error instanceof StockfishRequestError || error instanceof StockfishUnavailableError) {
+        return res.status(error.status).json({ status: 'error', message: error.message });
+      }
+      console.error('Stockfish request failed:', error);
+      res.status(500).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  };
+}
+
+// Score (from white's point of view), best move and principal variation
+router.post('/stockfish/evaluate', stockfishRoute(({ fen, search }) => stockfish.evaluate(fen, search)));
+
+router.post('/stockfish/bestmove', stockfishRoute(async ({ fen, search }) => ({ bestMove: await stockfish.bestMove(fen, search) })));
+
+// Whether the game is decided in this position; also takes thresholdCp
+router.post('/stockfish/adjudicate', stockfishRoute(({ fen, search, thresholdCp }) => stockfish.adjudicate(fen, search, thresholdCp)));
+
 // Upload agent
 router.post('/upload', upload.single('file'), async (req, res) => {
   try {
@@ -183,6 +210,33 @@ router.get('/agent/:wallet', async (req, res) => {
   }
 });
 
+// Rating history of a wallet's agents, newest first; ?agentId= narrows it to one of them
+router.get('/agent/:wallet/ratings', async (req, res) => {
+  try {
+    const limit = Math.min(Number(req.query.limit) || 50, 500);
+    const { agentId } = req.query;
+    const query: Record<string, unknown> = { walletAddress: req.params.wallet };
+    if (agentId) {
+      if (!mongoose.Types.ObjectId.isValid(String(agentId))) {
+        return res.status(400).json({ error: 'Invalid agent ID' });
+      }
+      query.agent = agentId;
+    }
+    const history = await RatingHistory.find(query)
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .select('match matchSet games opponent score ratingBefore rating deviation volatility createdAt');
+
+    res.json(history);
+  } catch (error) {
+    console.error('Failed to get rating history:', error);
+    res.status(500).json({
+      error: 'Failed to get rating history',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Get leaderboard
 router.get('/leaderboard', async (req, res) => {
   try {
@@ -195,20 +249,30 @@ router.get('/leaderboard', async (req, res) => {
       });
     }
 
+    const sort = parseLeaderboardSort(req.query.sort);
+    if (!sort) {
+      return res.status(400).json({ error: `sort must be one of: ${Object.keys(LEADERBOARD_SORTS).join(', ')}` });
+    }
+
     const agents = await Agent.find({ status: 'active' })
-      .sort({ points: -1, wins: -1 }) // Sort by points first, then wins
+      .sort(LEADERBOARD_SORTS[sort])
       .limit(100) // Limit to top 100 agents
-      .select('name walletAddress wins losses draws points');
+      .select('name walletAddress wins losses draws points rating ratingDeviation ratedGames');
+    const owners = await ownerNames(agents.map(agent => agent.walletAddress));
 
     // Add rank to each agent
     const leaderboard = agents.map((agent, index) => ({
       id: agent._id,
       name: agent.name || 'Anonymous',
       owner: agent.walletAddress,
+      ownerName: owners.get(agent.walletAddress),
       wins: agent.wins || 0,
       losses: agent.losses || 0,
       draws: agent.draws || 0,
       points: agent.points || 0,
+      rating: Math.round(agent.rating),
+      ratingDeviation: Math.round(agent.ratingDeviation),
+      ratedGames: agent.ratedGames || 0,
       rank: index + 1
     }));
 
@@ -222,25 +286,52 @@ router.get('/leaderboard', async (req, res) => {
   }
 });
 
-// Validate match state
-function isValidMatchState(state: string): state is MatchState {
-  return Object.values(MATCH_STATES).includes(state as MatchState);
-}
-
-// Validate match data
-function validateMatchData(match: MatchData): boolean {
-  return (
-    isValidMatchState(match.status) &&
-    typeof match.message === 'string' &&
-    Array.isArray(match.moves) &&
-    typeof match.createdAt === 'number' &&
-    typeof match.lastUpdated === 'number'
-  );
+// API responses keep describing the winner from the user's point of view
+function winnerLabel(winner: number): string {
+  return winner === 1 ? 'user' : winner === 2 ? 'bot' : 'draw';
 }
 
-// Generate a unique match ID
-function generateMatchId(): string {
-  return uuidv4();
+function serializeMatch(match: IMatch, job?: IMatchJob | null) {
+  const result = match.result?.reason ? {
+    winner: winnerLabel(match.result.winner),
+    reason: match.result.reason,
+    detail: match.result.detail,
+    adjudication: match.result.adjudication,
+    moves: match.moves,
+    timeControl: match.timeControl,
+    clocks: match.clocks,
+    searches: match.searches,
+    forfeit: match.forfeit,
+    engineOutput: match.engineOutput
+  } : undefined;
+
+  return {
+    matchId: String(match._id),
+    status: match.status,
+    message: match.message,
+    players: match.players,
+    matchSet: match.matchSet ? String(match.matchSet) : undefined,
+    game: match.game,
+    rated: match.rated,
+    opening: match.opening?.fen ? match.opening : undefined,
+    moves: match.moves,
+    fens: match.fens,
+    result,
+    timeControl: match.timeControl,
+    engineVersion: match.engineVersion,
+    startedAt: match.startedAt,
+    completedAt: match.completedAt,
+    durationMs: match.durationMs,
+    engineOutput: match.engineOutput,
+    job: job ? {
+      id: String(job._id),
+      status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      runAfter: job.runAfter,
+      lastError: job.lastError
+    } : undefined
+  };
 }
 
 // Get match status
@@ -248,7 +339,7 @@ router.get('/match', async (req, res) => {
   try {
     const { matchId } = req.query;
     
-    if (!matchId || typeof matchId !== 'string') {
+    if (!matchId || typeof matchId !== 'string' || !mongoose.Types.ObjectId.isValid(matchId)) {
       console.log('Invalid matchId provided:', matchId);
       return res.status(400).json({ 
         error: 'Valid match ID is required',
@@ -256,7 +347,7 @@ router.get('/match', async (req, res) => {
       });
     }
 
-    const match = matches.get(matchId);
+    const match = await Match.findById(matchId);
     
     if (!match) {
       console.log('Match not found:', matchId);
@@ -266,52 +357,15 @@ router.get('/match', async (req, res) => {
       });
     }
 
-    if (!validateMatchData(match)) {
-      console.error('Invalid match data found:', match);
-      return res.status(500).json({
-        error: 'Invalid match data',
-        status: 'error'
-      });
-    }
-
     console.log('Match status:', {
       matchId,
       status: match.status,
       message: match.message,
-      moves: match.moves?.length || 0,
-      hasEngineOutput: !!match.engineOutput
+      moves: match.moves.length
     });
 
-    if (match.status === MATCH_STATES.COMPLETED && match.winner !== undefined) {
-      const result = {
-        winner: match.winner,
-        reason: match.message,
-        moves: match.moves,
-        engineOutput: match.engineOutput
-      };
-      return res.json({
-        status: match.status,
-        message: match.message,
-        moves: match.moves,
-        result,
-        engineOutput: match.engineOutput
-      });
-    }
-
-    // Return the match status
-    const response = {
-      status: match.status,
-      message: match.message,
-      result: match.winner ? {
-        winner: match.winner,
-        reason: match.message,
-        moves: match.moves
-      } : undefined,
-      engineOutput: match.engineOutput
-    };
-
-    console.log('Sending response:', response);
-    res.json(response);
+    const job = await getJobForMatch(matchId);
+    res.json(serializeMatch(match, job));
   } catch (error) {
     console.error('Error getting match status:', error);
     res.status(500).json({
@@ -322,160 +376,393 @@ router.get('/match', async (req, res) => {
   }
 });
 
-// Update the match endpoint to handle errors properly
-router.post('/match', async (req, res) => {
-  let matchId: string | null = null;
-  
+// A match set: its players, score once decided, and each game with the colors played
+router.get('/match-sets/:setId', async (req, res) => {
   try {
-    const { fileId, walletAddress } = req.body;
-    console.log('Starting match with walletAddress:', walletAddress);
-    
-    if (!walletAddress || !fileId) {
-      return res.status(400).json({
-        status: 'error',
-        message: 'Missing required parameters: walletAddress and fileId'
-      });
+    const { setId } = req.params;
+    const set = mongoose.Types.ObjectId.isValid(setId) ? await MatchSet.findById(setId) : null;
+    if (!set) {
+      return res.status(404).json({ status: 'error', message: 'Match set not found' });
     }
 
-    // Initialize match state with a unique ID
-    matchId = generateMatchId();
-    const matchState: MatchData = {
-      status: MATCH_STATES.INITIALIZING,
-      message: 'Initializing chess engine...',
-      moves: [],
-      engineOutput: '',
-      createdAt: Date.now(),
-      lastUpdated: Date.now(),
-      fileId,
-      walletAddress
-    };
-    
-    // Store the match state
-    matches.set(matchId, matchState);
-    console.log('Match initialized with ID:', matchId);
+    const games = await Match.find({ matchSet: set._id })
+      .sort({ game: 1 })
+      .select('game status message players opening result completedAt');
 
-    // Get the full paths for the agents
-    const userAgentPath = path.join(process.cwd(), 'uploads', 'agents', `${fileId}.cpp`);
-    const aggressiveBotPath = path.join(process.cwd(), 'src', 'engine', 'agents', 'aggressive_bot.cpp');
+    res.json({
+      setId: String(set._id),
+      kind: set.kind,
+      rated: set.rated,
+      status: set.status,
+      players: set.players,
+      timeControl: set.timeControl,
+      score: set.score,
+      winner: set.winner,
+      error: set.error,
+      ratedAt: set.ratedAt,
+      completedAt: set.completedAt,
+      games: games.map(game => ({
+        matchId: String(game._id),
+        game: game.game,
+        status: game.status,
+        message: game.message,
+        players: game.players,
+        opening: game.opening?.fen ? game.opening : undefined,
+        result: game.result?.reason ? { ...game.result, winner: winnerLabel(game.result.winner) } : undefined,
+        completedAt: game.completedAt
+      }))
+    });
+  } catch (error) {
+    console.error('Failed to get match set:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
 
-    console.log('Checking file paths:');
-    console.log('User agent path:', userAgentPath);
-    console.log('Aggressive bot path:', aggressiveBotPath);
+// Opening suites matches can start from
+router.get('/openings', async (req, res) => {
+  try {
+    res.json({ suites: await listOpeningSuites() });
+  } catch (error) {
+    console.error('Failed to list opening suites:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
 
-    // Verify files exist
-    if (!fs.existsSync(userAgentPath)) {
-      throw new Error(`User agent not found at path: ${userAgentPath}`);
+// The positions of one opening suite, by index
+router.get('/openings/:suite', async (req, res) => {
+  try {
+    res.json(await loadOpeningSuite(req.params.suite));
+  } catch (error) {
+    if (error instanceof OpeningError) {
+      return res.status(error.status).json({ status: 'error', message: error.message });
     }
-    if (!fs.existsSync(aggressiveBotPath)) {
-      throw new Error(`Aggressive bot not found at path: ${aggressiveBotPath}`);
+    console.error('Failed to load opening suite:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// How often a match stream checks the database for new plies; the worker writes them from another process
+const STREAM_POLL_INTERVAL_MS = 500;
+// Comment lines keep idle streams open through proxies
+const STREAM_KEEPALIVE_MS = 15000;
+
+// Stream a match as Server-Sent Events: its status, every ply as it is played, then the result
+router.get('/match/:matchId/stream', async (req, res) => {
+  const { matchId } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(matchId)) {
+    return res.status(400).json({ error: 'Valid match ID is required', status: 'error' });
+  }
+
+  try {
+    const initial = await Match.findById(matchId);
+    if (!initial) {
+      return res.status(404).json({ error: 'Match not found', status: 'error' });
     }
 
-    // Return the matchId immediately
-    res.json({ 
-      status: MATCH_STATES.INITIALIZING,
-      matchId,
-      message: 'Match initialization started'
+    // Events are written to the raw Node response as they happen rather than sent as one body
+    const stream = res as unknown as ServerResponse;
+    stream.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
     });
 
-    // Initialize the engine
-    try {
-      console.log('Initializing chess engine...');
-      await engine.initialize();
-      console.log('Chess engine initialized successfully');
-      
-      // Update match status to running
-      const match = matches.get(matchId);
-      if (match) {
-        match.status = MATCH_STATES.RUNNING;
-        match.message = 'Match in progress...';
-        match.lastUpdated = Date.now();
-        console.log('Match status updated to running');
+    const send = (event: string, data: unknown) => {
+      stream.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    let sentPlies = 0;
+    let lastStatus = '';
+    let closed = false;
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(poller);
+      clearInterval(keepAlive);
+      stream.end();
+    };
+
+    const publish = async (match: IMatch) => {
+      // A retried job replays the game from the first move
+      if (match.moves.length < sentPlies) {
+        sentPlies = 0;
+        send('reset', { fen: match.fens[0] });
       }
 
-      // Run the match asynchronously
-      console.log('Starting match between agents...');
-      const result = await engine.runMatch(userAgentPath, aggressiveBotPath);
-      console.log('Match completed with result:', result);
-      
-      // Update match status and database based on result
-      const updatedMatch = matches.get(matchId);
-      if (updatedMatch) {
-        updatedMatch.status = MATCH_STATES.COMPLETED;
-        updatedMatch.lastUpdated = Date.now();
-        
-        if (result.winner === 1) {
-          updatedMatch.winner = 'user';
-          updatedMatch.message = 'Match completed. Your agent won! (+2 points)';
-        } else if (result.winner === 2) {
-          updatedMatch.winner = 'bot';
-          updatedMatch.message = 'Match completed. The aggressive bot won. (+0 points)';
-        } else {
-          updatedMatch.winner = 'draw';
-          updatedMatch.message = 'Match completed. The game ended in a draw. (+1 point)';
-        }
-        
-        updatedMatch.moves = result.moves;
-        updatedMatch.engineOutput = result.engineOutput || '';
-        
-        console.log('Match completed successfully:', {
-          winner: updatedMatch.winner,
-          reason: result.reason,
-          moves: result.moves.length
+      const statusKey = `${match.status}:${match.message}`;
+      if (statusKey !== lastStatus) {
+        lastStatus = statusKey;
+        const job = await getJobForMatch(matchId);
+        send('status', {
+          status: match.status,
+          message: match.message,
+          attempts: job?.attempts,
+          maxAttempts: job?.maxAttempts
         });
+      }
 
-        // Update or create agent in database
-        try {
-          const agent = await Agent.findOneAndUpdate(
-            { walletAddress },
-            {
-              $inc: {
-                wins: result.winner === 1 ? 1 : 0,
-                losses: result.winner === 2 ? 1 : 0,
-                draws: result.winner === 0 ? 1 : 0,
-                points: result.winner === 1 ? 2 : result.winner === 2 ? 0 : 1
-              },
-              $setOnInsert: {
-                name: 'Anonymous',
-                status: 'active',
-                createdAt: new Date()
-              }
-            },
-            { upsert: true, new: true }
-          );
-
-          console.log('Agent stats updated in database:', {
-            walletAddress,
-            wins: agent.wins,
-            losses: agent.losses,
-            draws: agent.draws,
-            points: agent.points
-          });
-        } catch (dbError) {
-          console.error('Failed to update agent stats:', dbError);
-          // Continue even if database update fails
+      for (; sentPlies < match.moves.length; sentPlies++) {
+        send('move', {
+          ply: sentPlies + 1,
+          move: match.moves[sentPlies],
+          fen: match.fens[sentPlies + 1],
+          clock: match.clocks[sentPlies],
+          search: match.searches[sentPlies]
+        });
+      }
+
+      if (match.status === MATCH_STATES.COMPLETED || match.status === MATCH_STATES.ERROR) {
+        send('result', serializeMatch(match));
+        close();
+      }
+    };
+
+    let polling = false;
+    const poller = setInterval(async () => {
+      if (polling || closed) return;
+      polling = true;
+      try {
+        const match = await Match.findById(matchId);
+        if (!match) {
+          send('status', { status: MATCH_STATES.ERROR, message: 'Match not found' });
+          close();
+        } else if (!closed) {
+          await publish(match);
         }
+      } catch (error) {
+        console.error('Match stream poll failed:', error);
+      } finally {
+        polling = false;
       }
+    }, STREAM_POLL_INTERVAL_MS);
+
+    const keepAlive = setInterval(() => stream.write(': keep-alive\n\n'), STREAM_KEEPALIVE_MS);
+
+    stream.on('close', close);
+    publish(initial).catch(error => {
+      console.error('Match stream failed:', error);
+      close();
+    });
+  } catch (error) {
+    console.error('Failed to stream match:', error);
+    res.status(500).json({
+      error: 'Failed to stream match',
+      status: 'error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Download a finished match as PGN
+router.get('/match/:matchId/pgn', async (req, res) => {
+  try {
+    const { matchId } = req.params;
+    const match = mongoose.Types.ObjectId.isValid(matchId) ? await Match.findById(matchId) : null;
+
+    if (!match) {
+      return res.status(404).json({ error: 'Match not found', status: 'error' });
+    }
+    if (match.status !== MATCH_STATES.COMPLETED) {
+      return res.status(409).json({ error: 'Match has not finished yet', status: match.status });
+    }
+
+    const pgn = await matchToPgn(match);
+    const raw = res as unknown as ServerResponse;
+    raw.setHeader('Content-Type', 'application/x-chess-pgn; charset=utf-8');
+    raw.setHeader('Content-Disposition', `attachment; filename="match-${matchId}.pgn"`);
+    res.send(pgn);
+  } catch (error) {
+    console.error('Failed to export PGN:', error);
+    res.status(500).json({
+      error: 'Failed to export PGN',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Import PGN games as opening lines or regression fixtures, from a .pgn upload or a "pgn" text field
+router.post('/pgn', pgnUpload.single('file'), async (req, res) => {
+  try {
+    const { purpose, wallet } = req.body;
+    let text = req.body.pgn;
+    if (req.file) {
+      text = await fs.promises.readFile(req.file.path, 'utf8');
+      await fs.promises.unlink(req.file.path).catch(() => undefined);
+    }
+
+    if (!PGN_GAME_PURPOSES.includes(purpose)) {
+      return res.status(400).json({ error: `purpose must be one of: ${PGN_GAME_PURPOSES.join(', ')}` });
+    }
+    if (!text || typeof text !== 'string') {
+      return res.status(400).json({ error: 'Missing PGN file or text' });
+    }
+
+    let result;
+    try {
+      result = await importPgn(text, purpose, { source: req.file?.originalname, uploadedBy: wallet });
     } catch (error) {
-      console.error('Match failed:', error);
-      const match = matches.get(matchId);
-      if (match) {
-        match.status = MATCH_STATES.ERROR;
-        match.message = error instanceof Error ? error.message : 'Internal server error';
-        match.error = error instanceof Error ? error.message : 'Unknown error';
-        match.lastUpdated = Date.now();
+      if (error instanceof Error && error.message.startsWith('Invalid')) {
+        return res.status(400).json({ error: error.message });
       }
+      throw error;
     }
+
+    console.log('PGN imported:', { purpose, ...result });
+    res.json({ message: 'PGN imported successfully', ...result });
   } catch (error) {
-    console.error('Failed to start match:', error);
-    if (matchId) {
-      const match = matches.get(matchId);
-      if (match) {
-        match.status = MATCH_STATES.ERROR;
-        match.message = error instanceof Error ? error.message : 'Internal server error';
-        match.error = error instanceof Error ? error.message : 'Unknown error';
-        match.lastUpdated = Date.now();
+    console.error('Failed to import PGN:', error);
+    res.status(500).json({
+      error: 'Failed to import PGN',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// List imported PGN games, newest first
+router.get('/pgn', async (req, res) => {
+  try {
+    const { purpose } = req.query;
+    const limit = Math.min(Number(req.query.limit) || 50, 200);
+
+    const query: Record<string, unknown> = {};
+    if (purpose) {
+      query.purpose = purpose;
+    }
+
+    const games = await PgnGame.find(query)
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .select('purpose name startFen san endFen result source uploadedBy createdAt');
+
+    res.json(games);
+  } catch (error) {
+    console.error('Failed to list PGN games:', error);
+    res.status(500).json({
+      error: 'Failed to list PGN games',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// List match history, newest first
+router.get('/matches', async (req, res) => {
+  try {
+    const { wallet, agentId } = req.query;
+    const limit = Math.min(Number(req.query.limit) || 20, 100);
+
+    const query: Record<string, unknown> = {};
+    if (wallet) {
+      if (typeof wallet !== 'string') {
+        return res.status(400).json({ error: 'Invalid wallet address' });
+      }
+      query['players.walletAddress'] = wallet;
+    }
+    if (agentId) {
+      if (!mongoose.Types.ObjectId.isValid(agentId)) {
+        return res.status(400).json({ error: 'Invalid agent ID' });
       }
+      query['players.agent'] = agentId;
+    }
+
+    const matches = await Match.find(query)
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .select('status message players matchSet game rated result timeControl engineVersion startedAt completedAt durationMs createdAt');
+
+    res.json(matches);
+  } catch (error) {
+    console.error('Failed to list matches:', error);
+    res.status(500).json({
+      error: 'Failed to list matches',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// The built-in practice opponents, weakest first; unavailable ones cannot be picked on this server
+router.get('/house-bots', (req, res) => {
+  res.json({
+    default: DEFAULT_HOUSE_BOT,
+    bots: HOUSE_BOTS.map(bot => ({ ...bot, available: houseBotAvailable(bot) }))
+  });
+});
+
+// Queue an unrated practice match set against a house bot (opponent, the aggressive bot by
+// default), the user's agent having white in the odd games
+router.post('/match', async (req, res) => {
+  try {
+    const { fileId, walletAddress } = req.body;
+    console.log('Starting match with walletAddress:', walletAddress);
+    
+    if (!walletAddress || !fileId) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Missing required parameters: walletAddress and fileId'
+      });
+    }
+
+    let timeControl: TimeControl;
+    let games: number;
+    let openings: OpeningOptions | undefined;
+    let adjudication: AdjudicationRules;
+    try {
+      timeControl = parseTimeControl(req.body.timeControl);
+      games = parseSetGames(req.body.games);
+      openings = await parseOpeningOptions(req.body.openings);
+      adjudication = parseAdjudicationRules(req.body.adjudication);
+    } catch (error) {
+      return res.status(error instanceof OpeningError ? error.status : 400).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Invalid time control'
+      });
+    }
+
+    // The uploaded version tells which of the wallet's agents is practising
+    const version = await AgentVersion.findOne({ fileId, walletAddress }).select('agent');
+    const userAgent = version ? await Agent.findById(version.agent).select('_id name') : null;
+
+    const opponent = findHouseBot(req.body.opponent ? String(req.body.opponent) : DEFAULT_HOUSE_BOT);
+    if (!opponent) {
+      return res.status(400).json({
+        status: 'error',
+        message: `opponent must be one of: ${HOUSE_BOTS.map(bot => bot.id).join(', ')}`
+      });
+    }
+    if (!houseBotAvailable(opponent)) {
+      return res.status(503).json({ status: 'error', message: `${opponent.name} is not available on this server` });
     }
+
+    const userAgentPath = uploadedSourcePath(String(fileId));
+    console.log('User agent path:', userAgentPath);
+    if (!userAgentPath) {
+      throw new Error(`User agent not found for file ID: ${fileId}`);
+    }
+
+    const scheduled = await createMatchSet('practice', [
+      {
+        player: { agent: userAgent?._id as mongoose.Types.ObjectId | undefined, walletAddress, name: userAgent?.name || 'Anonymous', fileId },
+        sourcePath: userAgentPath
+      },
+      { player: { name: opponent.name, houseBot: opponent.id }, sourcePath: houseBotPath(opponent) }
+    ], timeControl, games, undefined, openings, adjudication);
+    console.log('Match set queued:', { setId: String(scheduled.set._id), games, opponent: opponent.id });
+
+    // Return immediately; workers pick the games up
+    res.json(scheduledSetResponse(scheduled));
+  } catch (error) {
+    console.error('Failed to start match:', error);
     return res.status(500).json({
       status: 'error',
       message: error instanceof Error ? error.message : 'Internal server error'
@@ -483,6 +770,102 @@ router.post('/match', async (req, res) => {
   }
 });
 
+// matchId is the first game, which clients that follow one game at a time start with
+function scheduledSetResponse({ set, games }: ScheduledMatchSet) {
+  return {
+    status: MATCH_STATES.QUEUED,
+    setId: String(set._id),
+    matchId: String(games[0].match._id),
+    matchIds: games.map(({ match }) => String(match._id)),
+    jobId: String(games[0].job._id),
+    games: games.map(({ match }) => ({
+      game: match.game,
+      matchId: String(match._id),
+      players: match.players.map(player => ({
+        player: player.player,
+        color: player.color,
+        agentId: player.agent ? String(player.agent) : undefined,
+        name: player.name,
+        walletAddress: player.walletAddress
+      }))
+    })),
+    message: `Match set of ${games.length} games queued`
+  };
+}
+
+// Which of the wallet's agents to act for; optional while the wallet has only one
+function optionalId(value: unknown): string | undefined {
+  return value === undefined || value === null || value === '' ? undefined : String(value);
+}
+
+function sendMatchmakingError(res: Response, error: unknown) {
+  if (error instanceof MatchmakingError || error instanceof AgentSelectionError) {
+    return res.status(error.status).json({ status: 'error', message: error.message });
+  }
+  console.error('Matchmaking failed:', error);
+  return res.status(500).json({
+    status: 'error',
+    message: error instanceof Error ? error.message : 'Internal server error'
+  });
+}
+
+// Queue a rated match set against another user's agent picked by rating
+router.post('/matchmaking', async (req, res) => {
+  try {
+    const { walletAddress } = req.body;
+    if (!walletAddress) {
+      return res.status(400).json({ status: 'error', message: 'Missing required parameter: walletAddress' });
+    }
+
+    let timeControl: TimeControl;
+    try {
+      timeControl = parseTimeControl(req.body.timeControl);
+    } catch (error) {
+      return res.status(400).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Invalid time control'
+      });
+    }
+
+    const games = parseSetGames(req.body.games);
+    const scheduled = await requestMatch(walletAddress, optionalId(req.body.agentId), timeControl, games);
+    console.log('Matchmaking match set queued:', { walletAddress, setId: String(scheduled.set._id) });
+    res.json(scheduledSetResponse(scheduled));
+  } catch (error) {
+    return sendMatchmakingError(res, error);
+  }
+});
+
+// Challenge a specific agent to a rated match set; the challenger plays white in the first game
+router.post('/challenge', async (req, res) => {
+  try {
+    const { walletAddress, opponentId } = req.body;
+    if (!walletAddress || !opponentId) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Missing required parameters: walletAddress and opponentId'
+      });
+    }
+
+    let timeControl: TimeControl;
+    try {
+      timeControl = parseTimeControl(req.body.timeControl);
+    } catch (error) {
+      return res.status(400).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Invalid time control'
+      });
+    }
+
+    const games = parseSetGames(req.body.games);
+    const scheduled = await challengeAgent(walletAddress, optionalId(req.body.agentId), String(opponentId), timeControl, games);
+    console.log('Challenge queued:', { walletAddress, opponentId, setId: String(scheduled.set._id) });
+    res.json(scheduledSetResponse(scheduled));
+  } catch (error) {
+    return sendMatchmakingError(res, error);
+  }
+});
+
 // Helper function to download file from Google Drive
 async function downloadFromDrive(fileId: string, dest: string) {
   try {
@@ -521,17 +904,4 @@ router.get('/agents/:wallet', async (req, res) => {
   }
 });
 
-// Clean up completed matches periodically
-setInterval(() => {
-  const now = Date.now();
-  for (const [id, match] of matches.entries()) {
-    // Keep matches for 2 hours before cleaning up
-    if ((match.status === MATCH_STATES.COMPLETED || match.status === MATCH_STATES.ERROR) && 
-        (now - match.lastUpdated > 7200000)) {
-      console.log('Cleaning up old match:', id);
-      matches.delete(id);
-    }
-  }
-}, 300000); // Check every 5 minutes
-
 export default router; 
\ No newline at end of file
@@ -3,21 +3,25 @@ import express from "express";
 import dbConnect from "../lib/mongodb"; // Correct path
 import Competition from "../models/Competition"; // Correct path
 import { ChessEngine } from '../engine/chess-engine'
-import path from 'path'
+import { AdjudicationRules, TimeControl } from '../engine/types/chess'
+import { parseAdjudicationRules } from '../engine/adjudication'
+import { parseTimeControl } from '../engine/time-control'
 import Agent from '../models/Agent';
-import fs from 'fs';
+import Match, { MATCH_STATES } from '../models/Match';
+import { getJobForMatch } from '../services/match-queue';
+import { MatchmakingError, createAgentMatchSet, parseSetGames } from '../services/matchmaking';
+import { OpeningError, OpeningOptions, competitionOpenings, parseOpeningOptions } from '../services/openings';
+import { AgentSelectionError, ownerNames, resolveOwnedAgent } from '../services/agents';
+import { LEADERBOARD_SORTS, parseLeaderboardSort } from '../services/rating';
+import { TournamentError, getTournamentBracket, getTournamentStandings, startTournament } from '../services/tournament';
+import { TOURNAMENT_FORMATS } from '../services/tournament-pairing';
+import { KNOCKOUT_FORMATS, KNOCKOUT_TIEBREAKS } from '../services/bracket';
+import { SubmissionError, joinCompetition, leaveCompetition, listSubmissions, submitAgent } from '../services/submissions';
+import mongoose from 'mongoose';
 
 const router = express.Router();
 const engine = new ChessEngine();
 
-// Create a Map to store active matches
-const matches: Map<string, {
-  status: string;
-  message: string;
-  moves: string[];
-  winner?: string;
-}> = new Map();
-
 router.get("/", async (req, res) => {
   try {
     await dbConnect();
@@ -53,8 +57,6 @@ router.get('/chess/status', async (req, res) => {
       error: 'Failed to get engine status',
       details: error instanceof Error ? error.message : 'Unknown error'
     });
-  } finally {
-    engine.cleanup();
   }
 });
 
@@ -75,20 +77,30 @@ router.get('/chess/agents/:wallet', async (req, res) => {
 router.get('/leaderboard', async (req, res) => {
   try {
     // Get all active agents with their current stats
+    const sort = parseLeaderboardSort(req.query.sort);
+    if (!sort) {
+      return res.status(400).json({ error: `sort must be one of: ${Object.keys(LEADERBOARD_SORTS).join(', ')}` });
+    }
+
     const agents = await Agent.find({ status: 'active' })
-      .sort({ points: -1, wins: -1 }) // Sort by points first, then wins
+      .sort(LEADERBOARD_SORTS[sort])
       .limit(100) // Limit to top 100 agents
-      .select('name walletAddress wins losses draws points');
+      .select('name walletAddress wins losses draws points rating ratingDeviation ratedGames');
 
     // Add rank to each agent
+    const owners = await ownerNames(agents.map(agent => agent.walletAddress));
     const leaderboard = agents.map((agent, index) => ({
       id: agent._id,
       name: agent.name || 'Anonymous', // Fallback to Anonymous if no name
       owner: agent.walletAddress,
+      ownerName: owners.get(agent.walletAddress),
       wins: agent.wins || 0,
       losses: agent.losses || 0,
       draws: agent.draws || 0,
       points: agent.points || 0,
+      rating: Math.round(agent.rating),
+      ratingDeviation: Math.round(agent.ratingDeviation),
+      ratedGames: agent.ratedGames || 0,
       rank: index + 1
     }));
 
@@ -102,10 +114,10 @@ router.get('/leaderboard', async (req, res) => {
   }
 });
 
-// Start a match between two agents
+// Start a match set between two agents, the first agent having white in the odd games
 router.post('/match', async (req, res) => {
   try {
-    const { walletAddress1, walletAddress2 } = req.body;
+    const { walletAddress1, walletAddress2, agentId1, agentId2, competitionId } = req.body;
     
     if (!walletAddress1 || !walletAddress2) {
       return res.status(400).json({
@@ -114,67 +126,59 @@ router.post('/match', async (req, res) => {
       });
     }
 
-    // Initialize match state
-    const matchId = Date.now().toString();
-    matches.set(matchId, {
-      status: 'initializing',
-      message: 'Initializing chess engine...',
-      moves: []
-    });
-
-    // Return the matchId immediately
-    res.json({ 
-      status: 'initializing',
-      matchId,
-      message: 'Match initialization started'
-    });
-
-    // Initialize the engine
+    // An explicit time control, opening suite or adjudication wins over the competition's configured one
+    let timeControl: TimeControl;
+    let games: number;
+    let openings: OpeningOptions | undefined;
+    let adjudication: AdjudicationRules;
     try {
-      console.log('Initializing chess engine...');
-      await engine.initialize();
-      console.log('Chess engine initialized successfully');
-      
-      // Update match status to running
-      const match = matches.get(matchId)!;
-      match.status = 'running';
-      match.message = 'Match in progress...';
-      console.log('Match status updated to running');
-
-      // Run the match asynchronously
-      console.log('Starting match between agents...');
-      const result = await engine.runMatch(
-        path.join(process.cwd(), 'uploads', 'agents', `${walletAddress1}.cpp`),
-        path.join(process.cwd(), 'uploads', 'agents', `${walletAddress2}.cpp`)
-      );
-      console.log('Match completed with result:', result);
-      
-      // Update match status based on result
-      if (result.winner === 1) {
-        match.status = 'completed';
-        match.winner = 'agent1';
-        match.message = 'Match completed. Agent 1 won!';
-      } else if (result.winner === 2) {
-        match.status = 'completed';
-        match.winner = 'agent2';
-        match.message = 'Match completed. Agent 2 won!';
-      } else {
-        match.status = 'completed';
-        match.winner = 'draw';
-        match.message = 'Match completed. The game ended in a draw.';
+      games = parseSetGames(req.body.games);
+      let requested = req.body.timeControl;
+      let requestedAdjudication = req.body.adjudication;
+      openings = await parseOpeningOptions(req.body.openings);
+      if (competitionId && (!requested || !openings || !requestedAdjudication)) {
+        await dbConnect();
+        const competition = await Competition.findById(competitionId).select('timeControl openings adjudication').lean();
+        if (!requested) requested = competition?.timeControl?.type ? competition.timeControl : undefined;
+        if (!openings) openings = competitionOpenings(competition?.openings);
+        if (!requestedAdjudication) requestedAdjudication = competition?.adjudication;
       }
-
-      match.moves = result.moves;
-      console.log('Match completed successfully');
-
+      timeControl = parseTimeControl(requested);
+      adjudication = parseAdjudicationRules(requestedAdjudication);
     } catch (error) {
-      console.error('Match failed:', error);
-      const match = matches.get(matchId)!;
-      match.status = 'error';
-      match.message = error instanceof Error ? error.message : 'Internal server error';
+      if (error instanceof OpeningError) {
+        return res.status(error.status).json({ status: 'error', message: error.message });
+      }
+      return res.status(400).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Invalid time control'
+      });
     }
 
+    // Each side plays the chosen agent's active version; agentId can be left out for a wallet with one agent
+    await dbConnect();
+    const [agent1, agent2] = await Promise.all([
+      resolveOwnedAgent(walletAddress1, agentId1 ? String(agentId1) : undefined, { status: 'active' }),
+      resolveOwnedAgent(walletAddress2, agentId2 ? String(agentId2) : undefined, { status: 'active' })
+    ]);
+
+    const competition = competitionId && mongoose.Types.ObjectId.isValid(competitionId) ? competitionId : undefined;
+    const { set, games: scheduled } = await createAgentMatchSet(agent1, agent2, timeControl, games, competition, openings, adjudication);
+
+    // Return the IDs immediately; workers pick the jobs up. matchId is the first game.
+    res.json({ 
+      status: MATCH_STATES.QUEUED,
+      setId: String(set._id),
+      matchId: String(scheduled[0].match._id),
+      matchIds: scheduled.map(({ match }) => String(match._id)),
+      jobId: String(scheduled[0].job._id),
+      message: `Match set of ${games} games queued`
+    });
+
   } catch (error) {
+    if (error instanceof MatchmakingError || error instanceof AgentSelectionError) {
+      return res.status(error.status).json({ status: 'error', message: error.message });
+    }
     console.error('Failed to start match:', error);
     return res.status(500).json({
       status: 'error',
@@ -187,7 +191,7 @@ router.post('/match', async (req, res) => {
 router.get('/match/:matchId/status', async (req, res) => {
   try {
     const { matchId } = req.params;
-    const match = matches.get(matchId);
+    const match = mongoose.Types.ObjectId.isValid(matchId) ? await Match.findById(matchId) : null;
 
     if (!match) {
       return res.status(404).json({
@@ -196,11 +200,25 @@ router.get('/match/:matchId/status', async (req, res) => {
       });
     }
 
+    const winner = match.result?.reason
+      ? match.result.winner === 1 ? 'agent1' : match.result.winner === 2 ? 'agent2' : 'draw'
+      : undefined;
+
+    const job = await getJobForMatch(matchId);
+
     res.json({
       status: match.status,
       message: match.message,
-      winner: match.winner,
-      moves: match.moves
+      attempts: job?.attempts,
+      lastError: job?.lastError,
+      winner,
+      reason: match.result?.reason,
+      moves: match.moves,
+      fens: match.fens,
+      timeControl: match.timeControl,
+      clocks: match.clocks,
+      searches: match.searches,
+      forfeit: match.forfeit
     });
 
   } catch (error) {
@@ -212,4 +230,175 @@ router.get('/match/:matchId/status', async (req, res) => {
   }
 });
 
+// Start the competition's tournament between its submitted agents
+router.post('/:competitionId/tournament', async (req, res) => {
+  try {
+    const { format, tiebreak } = req.body;
+    const rounds = req.body.rounds === undefined || req.body.rounds === '' ? undefined : Number(req.body.rounds);
+    const formats = [...TOURNAMENT_FORMATS, ...KNOCKOUT_FORMATS];
+
+    if (!formats.includes(format)) {
+      return res.status(400).json({ error: `format must be one of: ${formats.join(', ')}` });
+    }
+    if (tiebreak !== undefined && !KNOCKOUT_TIEBREAKS.includes(tiebreak)) {
+      return res.status(400).json({ error: `tiebreak must be one of: ${KNOCKOUT_TIEBREAKS.join(', ')}` });
+    }
+
+    await dbConnect();
+    const competition = await startTournament(req.params.competitionId, { format, rounds, tiebreak });
+
+    res.json({
+      message: 'Tournament started',
+      competitionId: String(competition._id),
+      format: competition.tournament?.format,
+      tiebreak: competition.tournament?.tiebreak,
+      rounds: competition.tournament?.rounds,
+      entrants: competition.tournament?.entrants.length
+    });
+  } catch (error) {
+    if (error instanceof TournamentError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Failed to start tournament:', error);
+    res.status(500).json({
+      error: 'Failed to start tournament',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Tournament standings and pairings, round by round
+router.get('/:competitionId/standings', async (req, res) => {
+  try {
+    await dbConnect();
+    res.json(await getTournamentStandings(req.params.competitionId));
+  } catch (error) {
+    if (error instanceof TournamentError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Failed to get standings:', error);
+    res.status(500).json({
+      error: 'Failed to get standings',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Knockout bracket with every node's entrants, games and winner
+router.get('/:competitionId/bracket', async (req, res) => {
+  try {
+    await dbConnect();
+    res.json(await getTournamentBracket(req.params.competitionId));
+  } catch (error) {
+    if (error instanceof TournamentError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Failed to get bracket:', error);
+    res.status(500).json({
+      error: 'Failed to get bracket',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Enter the competition; entries can change until it starts
+router.post('/:competitionId/join', async (req, res) => {
+  try {
+    const { walletAddress } = req.body;
+    if (!walletAddress) {
+      return res.status(400).json({ error: 'walletAddress is required' });
+    }
+
+    await dbConnect();
+    const competition = await joinCompetition(req.params.competitionId, walletAddress);
+    res.json({
+      message: 'Joined competition',
+      competitionId: String(competition._id),
+      participants: competition.participants.length
+    });
+  } catch (error) {
+    if (error instanceof SubmissionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Failed to join competition:', error);
+    res.status(500).json({
+      error: 'Failed to join competition',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Withdraw from the competition along with any submitted agent
+router.post('/:competitionId/leave', async (req, res) => {
+  try {
+    const { walletAddress } = req.body;
+    if (!walletAddress) {
+      return res.status(400).json({ error: 'walletAddress is required' });
+    }
+
+    await dbConnect();
+    const competition = await leaveCompetition(req.params.competitionId, walletAddress);
+    res.json({
+      message: 'Left competition',
+      competitionId: String(competition._id),
+      participants: competition.participants.length
+    });
+  } catch (error) {
+    if (error instanceof SubmissionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Failed to leave competition:', error);
+    res.status(500).json({
+      error: 'Failed to leave competition',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Submit a version of one of the user's agents (their only agent if agentId is left out, its active
+// version if versionId is)
+router.post('/:competitionId/submissions', async (req, res) => {
+  try {
+    const { walletAddress, agentId, versionId } = req.body;
+    if (!walletAddress) {
+      return res.status(400).json({ error: 'walletAddress is required' });
+    }
+
+    await dbConnect();
+    const submission = await submitAgent(
+      req.params.competitionId,
+      walletAddress,
+      agentId === undefined || agentId === '' ? undefined : String(agentId),
+      versionId === undefined || versionId === '' ? undefined : String(versionId)
+    );
+    res.status(201).json(submission);
+  } catch (error) {
+    if (error instanceof SubmissionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Failed to submit agent:', error);
+    res.status(500).json({
+      error: 'Failed to submit agent',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Every submission with its processing status and score
+router.get('/:competitionId/submissions', async (req, res) => {
+  try {
+    await dbConnect();
+    res.json(await listSubmissions(req.params.competitionId));
+  } catch (error) {
+    if (error instanceof SubmissionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Failed to list submissions:', error);
+    res.status(500).json({
+      error: 'Failed to list submissions',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 export default router; // Ensure this line is present
\ No newline at end of file
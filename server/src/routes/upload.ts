@@ -4,6 +4,11 @@ import multer from "multer";
 import fs from "fs";
 import path from "path";
 import { ChessEngine } from '../engine/chess-engine'
+import { AGENT_EXTENSIONS, TOOLCHAINS, languageOf } from '../engine/toolchains'
+import dbConnect from "../lib/mongodb";
+import { BUILD_STATES } from "../models/Build";
+import { AgentVersionError, createVersion } from "../services/agent-versions";
+import { uploadedSourcePath, validateSource } from "../services/builds";
 
 const router = express.Router();
 
@@ -21,9 +26,9 @@ const storage = multer.diskStorage({
     cb(null, uploadDir);
   },
   filename: (req, file, cb) => {
-    // Generate a unique filename with .cpp extension
+    // Generate a unique filename; the extension tells the build which toolchain to use
     const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    const filename = `${uniqueSuffix}.cpp`;
+    const filename = `${uniqueSuffix}${path.extname(file.originalname).toLowerCase()}`;
     console.log('Generated filename:', filename);
     cb(null, filename);
   }
@@ -32,8 +37,8 @@ const storage = multer.diskStorage({
 const upload = multer({ 
   storage,
   fileFilter: (req, file, cb) => {
-    // Only allow .cpp files
-    if (!file.originalname.endsWith('.cpp')) {
+    // Only allow sources of a supported language
+    if (!languageOf(file.originalname)) {
       console.error('Invalid file type:', file.originalname);
       cb(null, false);
       return;
@@ -55,7 +60,7 @@ router.post("/agent", upload.single("file"), async (req, res) => {
 
   if (!req.file) {
     console.log('No file in request');
-    return res.status(400).json({ error: "No file uploaded" });
+    return res.status(400).json({ error: `No file uploaded. Supported sources: ${AGENT_EXTENSIONS.join(', ')}` });
   }
 
   if (!req.body.wallet) {
@@ -72,18 +77,73 @@ router.post("/agent", upload.single("file"), async (req, res) => {
     console.log('File saved successfully at:', req.file.path);
 
     // Get the file ID from the filename (without extension)
-    const fileId = path.basename(req.file.filename, '.cpp');
+    const fileId = path.basename(req.file.filename, path.extname(req.file.filename));
     console.log('Generated fileId:', fileId);
 
-    // Return the file information
+    // Compiled and checked for UCI once here; matches use the cached artifact. The log and the
+    // conformance report are kept either way.
+    await dbConnect();
+    const { build, conformance } = await validateSource(req.file.path);
+
+    // Every upload is kept as a version of one of the wallet's agents
+    const { agent, version, created } = await createVersion({
+      walletAddress: req.body.wallet,
+      fileId,
+      originalName: req.file.originalname,
+      notes: req.body.notes || undefined,
+      agentId: req.body.agentId || undefined,
+      name: req.body.name || undefined,
+      build,
+      activate: req.body.activate !== 'false'
+    });
+    const buildSummary = {
+      id: String(build._id),
+      status: build.status,
+      language: build.language,
+      toolchainVersion: build.toolchainVersion,
+      durationMs: build.durationMs
+    };
+
+    if (build.status !== BUILD_STATES.SUCCEEDED) {
+      return res.status(422).json({
+        error: `Your ${TOOLCHAINS[build.language].label} agent did not build. See the build log of version ${version.version}.`,
+        agentId: String(agent._id),
+        versionId: String(version._id),
+        version: version.version,
+        build: { ...buildSummary, log: build.log }
+      });
+    }
+
+    if (conformance && !conformance.passed) {
+      const failedChecks = conformance.checks.filter(check => !check.passed).map(check => check.name);
+      return res.status(422).json({
+        error: `Your agent failed the UCI check (${failedChecks.join(', ')}). See the report of version ${version.version}.`,
+        agentId: String(agent._id),
+        versionId: String(version._id),
+        version: version.version,
+        build: buildSummary,
+        conformance
+      });
+    }
+
+    // Return the file information; an identical earlier upload is reused
     res.json({
       success: true,
-      fileId,
-      message: 'File uploaded successfully',
+      fileId: version.fileId,
+      message: created ? 'File uploaded successfully' : `Same source as version ${version.version}`,
       name: req.file.originalname,
-      path: req.file.path
+      path: uploadedSourcePath(version.fileId),
+      agentId: String(agent._id),
+      versionId: String(version._id),
+      version: version.version,
+      active: String(agent.activeVersion) === String(version._id),
+      build: buildSummary,
+      conformance
     });
   } catch (error) {
+    if (error instanceof AgentVersionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('Error processing upload:', error);
     res.status(500).json({
       error: 'Failed to process upload',
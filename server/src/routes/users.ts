@@ -57,25 +57,22 @@ router.get('/:id', async (req, res) => {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    // Find the agent for this user
-    const agent = await Agent.findOne({ walletAddress }).lean();
-    console.log('Agent found:', agent ? 'Yes' : 'No'); // Debug log
+    // Find the agents of this user, best first
+    const agents = await Agent.find({ walletAddress }).sort({ points: -1, createdAt: 1 }).lean();
+    console.log('Agents found:', agents.length); // Debug log
 
-    // Calculate rank if agent exists
-    let rank = 0;
-    if (agent) {
+    // Calculate each agent's rank
+    const rankedAgents = await Promise.all(agents.map(async agent => {
       // Count agents with more points than this one
       const higherRankedAgents = await Agent.countDocuments({ points: { $gt: agent.points } });
-      rank = higherRankedAgents + 1; // Rank is 1-based
-    }
+      return { ...agent, rank: higherRankedAgents + 1 }; // Rank is 1-based
+    }));
 
-    // Return user with agent data
+    // Return user with agent data; agent is their best one
     return res.json({
       ...user,
-      agent: agent ? {
-        ...agent,
-        rank
-      } : {
+      agents: rankedAgents,
+      agent: rankedAgents.length > 0 ? rankedAgents[0] : {
         name: 'Anonymous',
         wins: 0,
         losses: 0,
@@ -0,0 +1,29 @@
+// src/services/activity.ts
+import Activity, { IActivity } from '../models/Activity';
+
+// Activities nobody in particular caused, such as competition state changes, are logged under this user
+export const SYSTEM_USER = 'system';
+
+// Users' activities are keyed by wallet address, which is what the activity feed filters on
+export async function recordActivity(
+  user: string,
+  type: IActivity['type'],
+  title: string,
+  description: string,
+  metadata: IActivity['metadata'] = {}
+): Promise<void> {
+  try {
+    await Activity.create({ user, type, title, description, metadata });
+  } catch (error) {
+    // The activity feed is informational; a failed write must not undo the change it describes
+    console.error('Failed to record activity:', { title, error });
+  }
+}
+
+export async function recordSystemActivity(
+  title: string,
+  description: string,
+  metadata: IActivity['metadata'] = {}
+): Promise<void> {
+  await recordActivity(SYSTEM_USER, 'system', title, description, metadata);
+}
@@ -0,0 +1,247 @@
+// src/services/agent-versions.ts
+// Every upload becomes an immutable, numbered version of the uploader's agent. The agent's
+// activeVersion, mirrored in its fileId which matchmaking plays, can be switched to any version, so
+// rolling back is just activating an earlier one. Tournaments play the version each entry was
+// submitted with instead.
+import crypto from 'crypto';
+import fs from 'fs';
+import mongoose from 'mongoose';
+import { GameResult } from '../engine/types/chess';
+import Agent, { IAgent } from '../models/Agent';
+import AgentVersion, { IAgentVersion } from '../models/AgentVersion';
+import Build, { BUILD_STATES, IBuild } from '../models/Build';
+import { IMatch } from '../models/Match';
+import User from '../models/User';
+import { AgentSelectionError, resolveOwnedAgent } from './agents';
+import { uploadedSourcePath } from './builds';
+import { ServiceError } from './errors';
+
+// Attempts at taking the next version number when uploads race
+const MAX_VERSION_CLAIMS = 5;
+
+export class AgentVersionError extends ServiceError {}
+
+export interface CreateVersionOptions {
+  walletAddress: string;
+  fileId: string;
+  originalName?: string;
+  notes?: string;
+  // The agent to add the version to; otherwise the agent with this name, created if need be
+  agentId?: string;
+  name?: string;
+  // Build of the uploaded source. A version that failed to build or failed the UCI conformance
+  // check is stored but not activated on upload.
+  build?: IBuild;
+  // New versions that built become active unless this is false; an agent's first one always does
+  activate?: boolean;
+}
+
+export function hashSource(sourcePath: string): string {
+  return crypto.createHash('sha256').update(fs.readFileSync(sourcePath)).digest('hex');
+}
+
+// Without an agent ID or name the upload goes to the wallet's only agent, or a new 'Anonymous' one
+async function findOrCreateAgent(walletAddress: string, agentId?: string, name?: string): Promise<IAgent> {
+  if (agentId !== undefined || !name) {
+    try {
+      return await resolveOwnedAgent(walletAddress, agentId);
+    } catch (error) {
+      if (!(error instanceof AgentSelectionError)) throw error;
+      if (agentId !== undefined || error.status !== 404) {
+        throw new AgentVersionError(error.message, error.status);
+      }
+    }
+  }
+
+  const agentName = name || 'Anonymous';
+  const existing = await Agent.findOne({ walletAddress, name: agentName });
+  if (existing) return existing;
+
+  try {
+    const agent = await Agent.create({ name: agentName, walletAddress });
+    await User.updateOne({ walletAddress }, { $inc: { 'stats.totalAgents': 1 } });
+    return agent;
+  } catch (error) {
+    // A concurrent upload created it first
+    if ((error as { code?: number }).code !== 11000) throw error;
+    return (await Agent.findOne({ walletAddress, name: agentName }))!;
+  }
+}
+
+async function setActiveVersion(agent: IAgent, version: IAgentVersion): Promise<IAgent> {
+  const updated = await Agent.findByIdAndUpdate(
+    agent._id,
+    { $set: { activeVersion: version._id, fileId: version.fileId } },
+    { new: true }
+  );
+  console.log('Agent version activated:', { agentId: String(agent._id), version: version.version });
+  return updated!;
+}
+
+// Stores an uploaded source as a new version. Uploading a source the agent already has returns
+// that version instead, and the duplicate file is removed.
+export async function createVersion(
+  options: CreateVersionOptions
+): Promise<{ agent: IAgent; version: IAgentVersion; created: boolean }> {
+  const sourcePath = uploadedSourcePath(options.fileId);
+  if (!sourcePath) {
+    throw new AgentVersionError('Uploaded source not found', 404);
+  }
+  const sourceHash = hashSource(sourcePath);
+  let agent = await findOrCreateAgent(options.walletAddress, options.agentId, options.name);
+  const { build } = options;
+  const playable = !build || (build.status === BUILD_STATES.SUCCEEDED && build.conformance?.passed !== false);
+  const buildFields = build
+    ? {
+        build: build._id,
+        language: build.language,
+        ...(build.artifactPath ? { artifactPath: build.artifactPath, compiledAt: build.builtAt } : {})
+      }
+    : {};
+
+  const duplicate = await AgentVersion.findOne({ agent: agent._id, sourceHash });
+  if (duplicate) {
+    if (duplicate.fileId !== options.fileId) {
+      fs.rmSync(sourcePath, { force: true });
+    }
+    // The source may have been built again, e.g. after a toolchain fix
+    if (build) {
+      await AgentVersion.updateOne({ _id: duplicate._id }, { $set: buildFields });
+    }
+    if (playable && options.activate !== false && String(agent.activeVersion) !== String(duplicate._id)) {
+      agent = await setActiveVersion(agent, duplicate);
+    }
+    return { agent, version: duplicate, created: false };
+  }
+
+  let version: IAgentVersion | null = null;
+  for (let attempt = 0; attempt < MAX_VERSION_CLAIMS && !version; attempt++) {
+    const latest = await AgentVersion.findOne({ agent: agent._id }).sort({ version: -1 }).select('version');
+    try {
+      version = await AgentVersion.create({
+        agent: agent._id,
+        walletAddress: options.walletAddress,
+        version: (latest?.version ?? 0) + 1,
+        fileId: options.fileId,
+        originalName: options.originalName,
+        sourceHash,
+        notes: options.notes,
+        ...buildFields
+      });
+    } catch (error) {
+      // Another upload took this number
+      if ((error as { code?: number }).code !== 11000) throw error;
+    }
+  }
+  if (!version) {
+    throw new AgentVersionError('Too many simultaneous uploads, please try again', 409);
+  }
+
+  console.log('Agent version created:', { agentId: String(agent._id), version: version.version, fileId: options.fileId });
+  if (playable && (options.activate !== false || !agent.activeVersion)) {
+    agent = await setActiveVersion(agent, version);
+  }
+  return { agent, version, created: true };
+}
+
+async function findOwnedAgent(agentId: string, walletAddress: string): Promise<IAgent> {
+  const agent = mongoose.Types.ObjectId.isValid(agentId) ? await Agent.findById(agentId) : null;
+  if (!agent) {
+    throw new AgentVersionError('Agent not found', 404);
+  }
+  if (agent.walletAddress !== walletAddress) {
+    throw new AgentVersionError('Only the owner can change the active version', 403);
+  }
+  return agent;
+}
+
+async function activate(agent: IAgent, version: IAgentVersion): Promise<IAgent> {
+  if (!uploadedSourcePath(version.fileId)) {
+    throw new AgentVersionError(`The source of version ${version.version} is no longer available`, 409);
+  }
+  // The same rule as on upload: a version must build and pass the UCI conformance check
+  const build = version.build ? await Build.findById(version.build).select('status conformance.passed') : null;
+  if (build && build.status !== BUILD_STATES.SUCCEEDED) {
+    throw new AgentVersionError(`Version ${version.version} did not build`, 409);
+  }
+  if (build?.conformance?.passed === false) {
+    throw new AgentVersionError(`Version ${version.version} failed the UCI conformance check`, 409);
+  }
+  return setActiveVersion(agent, version);
+}
+
+export async function activateVersion(agentId: string, versionId: string, walletAddress: string): Promise<IAgent> {
+  const agent = await findOwnedAgent(agentId, walletAddress);
+  const version = mongoose.Types.ObjectId.isValid(versionId)
+    ? await AgentVersion.findOne({ _id: versionId, agent: agent._id })
+    : null;
+  if (!version) {
+    throw new AgentVersionError('Version not found', 404);
+  }
+  return activate(agent, version);
+}
+
+// Activates the version before the active one
+export async function rollbackVersion(agentId: string, walletAddress: string): Promise<IAgent> {
+  const agent = await findOwnedAgent(agentId, walletAddress);
+  const active = agent.activeVersion ? await AgentVersion.findById(agent.activeVersion) : null;
+  if (!active) {
+    throw new AgentVersionError('Agent has no active version', 409);
+  }
+
+  const previous = await AgentVersion.findOne({ agent: agent._id, version: { $lt: active.version } }).sort({ version: -1 });
+  if (!previous) {
+    throw new AgentVersionError(`Version ${active.version} is the earliest version`, 409);
+  }
+  return activate(agent, previous);
+}
+
+async function listVersions(agent: IAgent) {
+  const versions = await AgentVersion.find({ agent: agent._id })
+    .sort({ version: -1 })
+    .populate('build', 'status language toolchainVersion durationMs builtAt conformance.passed')
+    .lean();
+  return {
+    agent: {
+      _id: String(agent._id),
+      name: agent.name,
+      walletAddress: agent.walletAddress,
+      activeVersion: agent.activeVersion ? String(agent.activeVersion) : undefined
+    },
+    versions: versions.map(version => ({
+      ...version,
+      active: String(version._id) === String(agent.activeVersion)
+    }))
+  };
+}
+
+export async function listAgentVersions(agentId: string) {
+  const agent = mongoose.Types.ObjectId.isValid(agentId) ? await Agent.findById(agentId) : null;
+  if (!agent) {
+    throw new AgentVersionError('Agent not found', 404);
+  }
+  return listVersions(agent);
+}
+
+// Versions of every agent the wallet owns
+export async function listWalletVersions(walletAddress: string) {
+  const agents = await Agent.find({ walletAddress }).sort({ createdAt: 1 });
+  if (agents.length === 0) {
+    throw new AgentVersionError('Agent not found', 404);
+  }
+  return { agents: await Promise.all(agents.map(listVersions)) };
+}
+
+// Adds a finished match to the stats of the versions that played it
+export async function recordVersionResults(match: IMatch, result: GameResult): Promise<void> {
+  for (const player of match.players) {
+    if (!player.fileId) continue;
+
+    const won = result.winner === player.player;
+    const drawn = result.winner === 0;
+    await AgentVersion.updateOne(
+      { fileId: player.fileId },
+      { $inc: { 'stats.wins': won ? 1 : 0, 'stats.losses': !won && !drawn ? 1 : 0, 'stats.draws': drawn ? 1 : 0 } }
+    );
+  }
+}
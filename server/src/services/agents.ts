@@ -0,0 +1,53 @@
+// src/services/agents.ts
+// A wallet can own several named agents, so requests say which one they act for by agent ID.
+// Leaving the ID out only works while the wallet has a single agent.
+import mongoose from 'mongoose';
+import Agent, { IAgent } from '../models/Agent';
+import User from '../models/User';
+import { ServiceError } from './errors';
+
+export class AgentSelectionError extends ServiceError {}
+
+export async function resolveOwnedAgent(
+  walletAddress: string,
+  agentId?: string,
+  filter: Record<string, unknown> = {}
+): Promise<IAgent> {
+  if (agentId !== undefined) {
+    const agent = mongoose.Types.ObjectId.isValid(agentId)
+      ? await Agent.findOne({ ...filter, _id: agentId, walletAddress })
+      : null;
+    if (!agent) {
+      throw new AgentSelectionError('Agent not found', 404);
+    }
+    return agent;
+  }
+
+  const agents = await Agent.find({ ...filter, walletAddress }).limit(2);
+  if (agents.length === 0) {
+    throw new AgentSelectionError('Agent not found', 404);
+  }
+  if (agents.length > 1) {
+    throw new AgentSelectionError('This wallet has several agents; pass agentId to choose one', 400);
+  }
+  return agents[0];
+}
+
+// Usernames of agent owners, for leaderboards
+export async function ownerNames(walletAddresses: string[]): Promise<Map<string, string>> {
+  const users = await User.find({ walletAddress: { $in: [...new Set(walletAddresses)] }, username: { $exists: true } })
+    .select('walletAddress username');
+  return new Map(users.map(user => [user.walletAddress, user.username]));
+}
+
+// Agents used to be unique per wallet. The old unique index has to go before a wallet's second
+// agent can be saved; autoIndex then builds the per-name one.
+export async function dropLegacyAgentIndex(): Promise<void> {
+  const indexes = await Agent.collection.indexes();
+  const legacy = indexes.find(index => index.name === 'walletAddress_1' && index.unique);
+  if (!legacy) return;
+
+  await Agent.collection.dropIndex('walletAddress_1');
+  await Agent.createIndexes();
+  console.log('Dropped the unique wallet index on agents');
+}
@@ -0,0 +1,191 @@
+// src/services/bracket.ts
+// Single- and double-elimination bracket layout and the per-node game logic, including tiebreaks
+// for a level main pair. Like tournament-pairing.ts this is pure: the knockout service stores the
+// nodes and feeds finished games back in.
+
+export const KNOCKOUT_FORMATS = ['single_elimination', 'double_elimination'] as const;
+
+export type KnockoutFormat = typeof KNOCKOUT_FORMATS[number];
+
+// armageddon: one extra game in which black wins on a draw
+// color_swapped_pair: pairs of games with alternating colors, settled by armageddon if still level
+export const KNOCKOUT_TIEBREAKS = ['armageddon', 'color_swapped_pair'] as const;
+
+export type KnockoutTiebreak = typeof KNOCKOUT_TIEBREAKS[number];
+
+export type BracketSide = 'winners' | 'losers' | 'final';
+
+// Where a node's entrant comes from: a seed, or the winner or loser of an earlier node
+export interface BracketSource {
+  kind: 'seed' | 'winner' | 'loser';
+  seed?: number;
+  node?: string;
+}
+
+export interface BracketNodeSpec {
+  key: string;
+  bracket: BracketSide;
+  round: number;
+  slot: number;
+  sources: [BracketSource, BracketSource];
+  // The grand final reset is only played when the losers' bracket champion wins the grand final
+  resetOf?: string;
+}
+
+export type NodeGameKind = 'main' | 'tiebreak' | 'armageddon';
+
+export interface NodeGame {
+  kind: NodeGameKind;
+  // Which of the node's two entrants plays white
+  whiteSlot: 0 | 1;
+  // Points for white; null while the game is being played
+  whiteScore: number | null;
+}
+
+export type NodeDecision =
+  | { next: { kind: NodeGameKind; whiteSlot: 0 | 1 } }
+  | { winnerSlot: 0 | 1 };
+
+// Color-swapped pairs played before falling back to armageddon
+const MAX_TIEBREAK_PAIRS = 2;
+
+export const GRAND_FINAL = 'GF';
+export const GRAND_FINAL_RESET = 'GF2';
+
+// Bracket positions of seeds 1..size so that the top seeds can only meet in the last rounds
+export function seedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const next = order.length * 2;
+    order = order.flatMap(seed => [seed, next + 1 - seed]);
+  }
+  return order;
+}
+
+export function winnersKey(round: number, slot: number): string {
+  return `W${round}-${slot + 1}`;
+}
+
+export function losersKey(round: number, slot: number): string {
+  return `L${round}-${slot + 1}`;
+}
+
+// Every node of the bracket for the given number of entrants. Missing seeds become byes.
+export function buildBracket(entrants: number, format: KnockoutFormat): BracketNodeSpec[] {
+  const size = Math.max(2, Math.pow(2, Math.ceil(Math.log2(entrants))));
+  const winnersRounds = Math.log2(size);
+  const order = seedOrder(size);
+  const nodes: BracketNodeSpec[] = [];
+
+  for (let round = 1; round <= winnersRounds; round++) {
+    const count = size / Math.pow(2, round);
+    for (let slot = 0; slot < count; slot++) {
+      const sources: [BracketSource, BracketSource] = round === 1
+        ? [{ kind: 'seed', seed: order[slot * 2] }, { kind: 'seed', seed: order[slot * 2 + 1] }]
+        : [
+          { kind: 'winner', node: winnersKey(round - 1, slot * 2) },
+          { kind: 'winner', node: winnersKey(round - 1, slot * 2 + 1) }
+        ];
+      nodes.push({ key: winnersKey(round, slot), bracket: 'winners', round, slot, sources });
+    }
+  }
+
+  if (format === 'single_elimination') return nodes;
+
+  // Losers' bracket: odd rounds play survivors against each other, even rounds bring in the losers
+  // of the next winners' round (in reverse order, to put off rematches)
+  const losersRounds = 2 * (winnersRounds - 1);
+  for (let round = 1; round <= losersRounds; round++) {
+    const count = size / Math.pow(2, Math.floor((round + 1) / 2) + 1);
+    for (let slot = 0; slot < count; slot++) {
+      let sources: [BracketSource, BracketSource];
+      if (round === 1) {
+        sources = [
+          { kind: 'loser', node: winnersKey(1, slot * 2) },
+          { kind: 'loser', node: winnersKey(1, slot * 2 + 1) }
+        ];
+      } else if (round % 2 === 0) {
+        sources = [
+          { kind: 'winner', node: losersKey(round - 1, slot) },
+          { kind: 'loser', node: winnersKey(round / 2 + 1, count - 1 - slot) }
+        ];
+      } else {
+        sources = [
+          { kind: 'winner', node: losersKey(round - 1, slot * 2) },
+          { kind: 'winner', node: losersKey(round - 1, slot * 2 + 1) }
+        ];
+      }
+      nodes.push({ key: losersKey(round, slot), bracket: 'losers', round, slot, sources });
+    }
+  }
+
+  const winnersChampion: BracketSource = { kind: 'winner', node: winnersKey(winnersRounds, 0) };
+  const losersChampion: BracketSource = losersRounds > 0
+    ? { kind: 'winner', node: losersKey(losersRounds, 0) }
+    : { kind: 'loser', node: winnersKey(1, 0) };
+
+  nodes.push({ key: GRAND_FINAL, bracket: 'final', round: 1, slot: 0, sources: [winnersChampion, losersChampion] });
+  nodes.push({
+    key: GRAND_FINAL_RESET,
+    bracket: 'final',
+    round: 2,
+    slot: 0,
+    sources: [winnersChampion, losersChampion],
+    resetOf: GRAND_FINAL
+  });
+
+  return nodes;
+}
+
+// The node whose winner takes the tournament, given which nodes ended up being played
+export function championNode(format: KnockoutFormat, entrants: number, resetPlayed: boolean): string {
+  if (format === 'double_elimination') return resetPlayed ? GRAND_FINAL_RESET : GRAND_FINAL;
+  const size = Math.max(2, Math.pow(2, Math.ceil(Math.log2(entrants))));
+  return winnersKey(Math.log2(size), 0);
+}
+
+function scoreFor(game: NodeGame, slot: 0 | 1): number {
+  const whiteScore = game.whiteScore ?? 0;
+  return game.whiteSlot === slot ? whiteScore : 1 - whiteScore;
+}
+
+// What a node between two entrants needs next: another game, or nothing because it has a winner.
+// Returns null while a game is still being played. The main stage is a pair of games with colors
+// swapped, the first entrant having white in the first one.
+export function decideNode(games: NodeGame[], tiebreak: KnockoutTiebreak): NodeDecision | null {
+  if (games.some(game => game.whiteScore === null)) return null;
+  if (games.length === 0) return { next: { kind: 'main', whiteSlot: 0 } };
+  if (games.length === 1) return { next: { kind: 'main', whiteSlot: 1 } };
+
+  const main = games[0];
+  const mainPoints = scoreFor(games[0], 0) + scoreFor(games[1], 0);
+  if (mainPoints !== 1) {
+    return { winnerSlot: mainPoints > 1 ? 0 : 1 };
+  }
+
+  // Black has draw odds in armageddon
+  const armageddon = games.find(game => game.kind === 'armageddon');
+  if (armageddon) {
+    const whiteWon = armageddon.whiteScore === 1;
+    return { winnerSlot: whiteWon ? armageddon.whiteSlot : (1 - armageddon.whiteSlot) as 0 | 1 };
+  }
+
+  if (tiebreak === 'color_swapped_pair') {
+    const tiebreaks = games.filter(game => game.kind === 'tiebreak');
+    if (tiebreaks.length % 2 === 1) {
+      const last = tiebreaks[tiebreaks.length - 1];
+      return { next: { kind: 'tiebreak', whiteSlot: (1 - last.whiteSlot) as 0 | 1 } };
+    }
+    if (tiebreaks.length > 0) {
+      const pair = tiebreaks.slice(-2);
+      const firstSlotPoints = scoreFor(pair[0], 0) + scoreFor(pair[1], 0);
+      if (firstSlotPoints !== 1) return { winnerSlot: firstSlotPoints > 1 ? 0 : 1 };
+    }
+    if (tiebreaks.length / 2 < MAX_TIEBREAK_PAIRS) {
+      return { next: { kind: 'tiebreak', whiteSlot: 0 } };
+    }
+  }
+
+  // Colors are swapped from the first main game
+  return { next: { kind: 'armageddon', whiteSlot: (1 - main.whiteSlot) as 0 | 1 } };
+}
@@ -0,0 +1,154 @@
+// src/services/builds.ts
+// Agent builds. The engine's compiler caches artifacts on disk by language and source hash; every
+// build is also recorded here with its full log, so users can see why an upload did not compile
+// and matches never compile the same source twice. Successful builds are then run through the UCI
+// conformance suite once, before they get near a match.
+import fs from 'fs';
+import path from 'path';
+import mongoose from 'mongoose';
+import { BotSetupError } from '../engine/chess-engine';
+import { AgentArtifact, AgentCompiler, BuildOutput } from '../engine/compiler';
+import { SandboxRunner } from '../engine/sandbox';
+import { AGENT_EXTENSIONS } from '../engine/toolchains';
+import { CONFORMANCE_SUITE_VERSION, ConformanceReport, runConformanceSuite } from '../engine/uci-conformance';
+import AgentVersion, { IAgentVersion } from '../models/AgentVersion';
+import Build, { BUILD_STATES, IBuild } from '../models/Build';
+import { ServiceError } from './errors';
+
+export class BuildError extends ServiceError {}
+
+export const AGENT_UPLOAD_DIR = path.join(process.cwd(), 'uploads', 'agents');
+
+const sandbox = new SandboxRunner();
+const compiler = new AgentCompiler(undefined, sandbox);
+// One suite run per build, however many uploads of the same source arrive at once
+const conformanceChecks = new Map<string, Promise<ConformanceReport>>();
+
+// Uploads are stored as <fileId><extension>, the extension telling the language
+export function uploadedSourcePath(fileId: string): string | null {
+  for (const extension of AGENT_EXTENSIONS) {
+    const sourcePath = path.join(AGENT_UPLOAD_DIR, `${fileId}${extension}`);
+    if (fs.existsSync(sourcePath)) return sourcePath;
+  }
+  return null;
+}
+
+async function recordBuild(output: BuildOutput): Promise<IBuild> {
+  const filter = { language: output.language, sourceHash: output.sourceHash };
+  // Cache hits were recorded when they were built
+  if (output.cached) {
+    const existing = await Build.findOne(filter);
+    if (existing?.status === BUILD_STATES.SUCCEEDED) return existing;
+  }
+
+  const build = await Build.findOneAndUpdate(
+    filter,
+    {
+      $set: {
+        status: output.status === 'succeeded' ? BUILD_STATES.SUCCEEDED : BUILD_STATES.FAILED,
+        toolchainVersion: output.toolchainVersion,
+        log: output.log,
+        durationMs: output.durationMs,
+        builtAt: new Date(),
+        ...(output.artifact ? { artifactPath: output.artifact.path } : {})
+      },
+      // A new artifact has not been checked yet
+      $unset: { conformance: 1, ...(output.artifact ? {} : { artifactPath: 1 }) }
+    },
+    { upsert: true, new: true }
+  );
+  console.log('Agent built:', {
+    language: output.language,
+    sourceHash: output.sourceHash,
+    status: output.status,
+    durationMs: output.durationMs
+  });
+  return build!;
+}
+
+export async function buildSource(sourcePath: string): Promise<IBuild> {
+  return recordBuild(await compiler.build(sourcePath));
+}
+
+// Runs the UCI conformance suite on a successful build and stores the report with it. Reports from
+// the current suite are reused.
+export async function checkConformance(build: IBuild): Promise<ConformanceReport | null> {
+  if (build.status !== BUILD_STATES.SUCCEEDED || !build.artifactPath) return null;
+  if (build.conformance?.suiteVersion === CONFORMANCE_SUITE_VERSION) return build.conformance;
+
+  const key = String(build._id);
+  let check = conformanceChecks.get(key);
+  if (!check) {
+    const artifact: AgentArtifact = { language: build.language, path: build.artifactPath };
+    check = runConformanceSuite(sandbox, artifact)
+      .then(async report => {
+        await Build.updateOne({ _id: build._id }, { $set: { conformance: report } });
+        console.log('Agent conformance checked:', {
+          language: build.language,
+          sourceHash: build.sourceHash,
+          passed: report.passed,
+          durationMs: report.durationMs
+        });
+        return report;
+      })
+      .finally(() => conformanceChecks.delete(key));
+    conformanceChecks.set(key, check);
+  }
+
+  const report = await check;
+  build.conformance = report;
+  return report;
+}
+
+// Builds an uploaded source and checks the result speaks UCI. The report is null when the build
+// failed, as there is nothing to check.
+export async function validateSource(sourcePath: string): Promise<{ build: IBuild; conformance: ConformanceReport | null }> {
+  const build = await buildSource(sourcePath);
+  const conformance = await checkConformance(build);
+  return { build, conformance };
+}
+
+// What a match runs for a source. A source that does not compile cannot play, so this throws.
+export async function artifactFor(sourcePath: string): Promise<AgentArtifact> {
+  const build = await buildSource(sourcePath);
+  if (build.status !== BUILD_STATES.SUCCEEDED || !build.artifactPath) {
+    throw new BotSetupError(`Compilation of ${path.basename(sourcePath)} failed\n${build.log}`);
+  }
+  return { language: build.language, path: build.artifactPath };
+}
+
+// Builds a version's source and links the build to it
+export async function buildVersion(version: IAgentVersion): Promise<IBuild> {
+  const sourcePath = uploadedSourcePath(version.fileId);
+  if (!sourcePath) {
+    throw new BuildError(`The source of version ${version.version} is no longer available`, 409);
+  }
+
+  const build = await buildSource(sourcePath);
+  await AgentVersion.updateOne(
+    { _id: version._id },
+    {
+      $set: {
+        build: build._id,
+        language: build.language,
+        ...(build.artifactPath ? { artifactPath: build.artifactPath, compiledAt: build.builtAt } : {})
+      }
+    }
+  );
+  return build;
+}
+
+// The build of one of an agent's versions, log and conformance report included. Versions uploaded
+// before builds were recorded are built, and builds not yet checked are checked, on first request.
+export async function getVersionBuild(agentId: string, versionId: string): Promise<IBuild> {
+  const version = mongoose.Types.ObjectId.isValid(agentId) && mongoose.Types.ObjectId.isValid(versionId)
+    ? await AgentVersion.findOne({ _id: versionId, agent: agentId })
+    : null;
+  if (!version) {
+    throw new BuildError('Version not found', 404);
+  }
+
+  const build = (version.build ? await Build.findById(version.build) : null) ?? await buildVersion(version);
+  await checkConformance(build);
+  return build;
+}
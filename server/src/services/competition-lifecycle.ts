@@ -0,0 +1,123 @@
+// src/services/competition-lifecycle.ts
+// Moves competitions through their states on schedule: upcoming → active at startDate, which locks
+// submissions and starts the tournament, and active → completed at endDate, which finalises the
+// results. Each transition is claimed atomically, so every API server can run the scheduler.
+import mongoose from 'mongoose';
+import Competition, { ICompetition } from '../models/Competition';
+import { recordSystemActivity } from './activity';
+import { failPendingSubmissions } from './submissions';
+import { StartTournamentOptions, TournamentError, closeTournament, startTournament } from './tournament';
+
+const DEFAULT_TOURNAMENT: StartTournamentOptions = { format: 'round_robin' };
+
+const FORMAT_NAMES: Record<StartTournamentOptions['format'], string> = {
+  round_robin: 'round robin',
+  double_round_robin: 'double round robin',
+  swiss: 'Swiss',
+  single_elimination: 'single-elimination',
+  double_elimination: 'double-elimination'
+};
+
+// Puts a competition whose tournament failed to start for an unexpected reason (e.g. a database
+// error) back to upcoming, so the next tick tries again. One whose tournament did start is left
+// to the tournament sweep.
+async function reopenCompetition(competition: ICompetition): Promise<void> {
+  await Competition.updateOne(
+    { _id: competition._id, status: 'active', 'tournament.format': { $exists: false } },
+    competition.submissionsLockedAt
+      ? { $set: { status: 'upcoming' } }
+      : { $set: { status: 'upcoming' }, $unset: { submissionsLockedAt: 1 } }
+  );
+}
+
+// upcoming → active. Returns false when another scheduler got there first.
+export async function openCompetition(competition: ICompetition): Promise<boolean> {
+  const now = new Date();
+  const opened = await Competition.findOneAndUpdate(
+    { _id: competition._id, status: 'upcoming' },
+    { $set: { status: 'active' }, $min: { submissionsLockedAt: now } },
+    { new: true }
+  );
+  if (!opened) return false;
+
+  const competitionId = String(opened._id);
+  let description: string;
+  if (opened.tournament?.format) {
+    description = 'Submissions are locked and the tournament is already under way.';
+  } else {
+    const options: StartTournamentOptions = opened.tournamentOptions?.format
+      ? { format: opened.tournamentOptions.format, rounds: opened.tournamentOptions.rounds, tiebreak: opened.tournamentOptions.tiebreak }
+      : DEFAULT_TOURNAMENT;
+    try {
+      const started = await startTournament(competitionId, options);
+      description = `Submissions are locked and ${started.tournament?.entrants.length} agents have started a ${FORMAT_NAMES[options.format]} tournament.`;
+    } catch (error) {
+      if (!(error instanceof TournamentError)) {
+        await reopenCompetition(competition);
+        throw error;
+      }
+      // E.g. too few entries: the competition runs without a tournament and completes without a winner
+      description = `Submissions are locked, but the tournament could not start: ${error.message}.`;
+      await failPendingSubmissions(opened._id as mongoose.Types.ObjectId, `The tournament could not start: ${error.message}`);
+      console.warn('Competition opened without a tournament:', { competitionId, reason: error.message });
+    }
+  }
+
+  console.log('Competition opened:', { competitionId, title: opened.title });
+  await recordSystemActivity(`${opened.title} started`, description, {
+    competitionId: opened._id as mongoose.Types.ObjectId,
+    status: 'active'
+  });
+  return true;
+}
+
+// active → completed. A running tournament is cut short and decided on the games played so far.
+export async function closeCompetition(competition: ICompetition): Promise<boolean> {
+  if (competition.tournament?.format) {
+    if (competition.tournament.completedAt) return false;
+    // Records its own activity, and only once however many schedulers get here
+    await closeTournament(competition._id as mongoose.Types.ObjectId);
+    return true;
+  }
+
+  const closed = await Competition.findOneAndUpdate(
+    { _id: competition._id, status: 'active', 'tournament.format': { $exists: false } },
+    { $set: { status: 'completed' } },
+    { new: true }
+  );
+  if (!closed) return false;
+
+  console.log('Competition closed:', { competitionId: String(closed._id), title: closed.title });
+  await recordSystemActivity(`${closed.title} completed`, 'The competition ended without a tournament.', {
+    competitionId: closed._id as mongoose.Types.ObjectId,
+    status: 'completed'
+  });
+  return true;
+}
+
+// One scheduler tick. A competition whose start and end both passed while no scheduler was
+// running is opened and closed in the same tick.
+export async function runCompetitionLifecycle(now: Date = new Date()): Promise<{ opened: number; closed: number }> {
+  let opened = 0;
+  let closed = 0;
+
+  const starting = await Competition.find({ status: 'upcoming', startDate: { $lte: now } }).sort({ startDate: 1 });
+  for (const competition of starting) {
+    try {
+      if (await openCompetition(competition)) opened++;
+    } catch (error) {
+      console.error('Failed to open competition:', { competitionId: String(competition._id), error });
+    }
+  }
+
+  const ending = await Competition.find({ status: 'active', endDate: { $lte: now } }).sort({ endDate: 1 });
+  for (const competition of ending) {
+    try {
+      if (await closeCompetition(competition)) closed++;
+    } catch (error) {
+      console.error('Failed to close competition:', { competitionId: String(competition._id), error });
+    }
+  }
+
+  return { opened, closed };
+}
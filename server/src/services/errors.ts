@@ -0,0 +1,9 @@
+// src/services/errors.ts
+// Errors the services throw for the routes to answer with. Each carries the HTTP status of the
+// answer; the subclasses only tell which service the error comes from.
+export class ServiceError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
@@ -0,0 +1,108 @@
+// src/services/glicko2.ts
+// Glicko-2 rating math as described in Glickman's "Example of the Glicko-2 system". Every rated
+// match is treated as its own rating period.
+
+export interface GlickoRating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+}
+
+export interface GlickoGame {
+  opponent: GlickoRating;
+  // 1 for a win, 0.5 for a draw, 0 for a loss
+  score: number;
+}
+
+export const DEFAULT_RATING: GlickoRating = {
+  rating: 1500,
+  deviation: 350,
+  volatility: 0.06
+};
+
+// Constrains how fast volatility changes; Glickman suggests 0.3 to 1.2
+const TAU = 0.5;
+const SCALE = 173.7178;
+const CONVERGENCE_TOLERANCE = 0.000001;
+// Keeps established ratings responsive and new ones from starting wider than the default
+const MIN_DEVIATION = 30;
+const MAX_DEVIATION = 350;
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + 3 * phi * phi / (Math.PI * Math.PI));
+}
+
+function expectedScore(mu: number, muOpponent: number, phiOpponent: number): number {
+  return 1 / (1 + Math.exp(-g(phiOpponent) * (mu - muOpponent)));
+}
+
+// Step 5: the new volatility, found with the Illinois variant of regula falsi
+function nextVolatility(phi: number, sigma: number, v: number, delta: number): number {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    return ex * (delta * delta - phi * phi - v - ex) / (2 * Math.pow(phi * phi + v + ex, 2)) - (x - a) / (TAU * TAU);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    B = a - k * TAU;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > CONVERGENCE_TOLERANCE) {
+    const C = A + (A - B) * fA / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+
+  return Math.exp(A / 2);
+}
+
+export function updateRating(player: GlickoRating, games: GlickoGame[]): GlickoRating {
+  const mu = (player.rating - 1500) / SCALE;
+  const phi = player.deviation / SCALE;
+  const sigma = player.volatility;
+
+  // A period without games only widens the deviation
+  if (games.length === 0) {
+    const deviation = Math.sqrt(phi * phi + sigma * sigma) * SCALE;
+    return { ...player, deviation: Math.min(MAX_DEVIATION, deviation) };
+  }
+
+  let vInverse = 0;
+  let improvement = 0;
+  for (const game of games) {
+    const muOpponent = (game.opponent.rating - 1500) / SCALE;
+    const phiOpponent = game.opponent.deviation / SCALE;
+    const expected = expectedScore(mu, muOpponent, phiOpponent);
+    vInverse += g(phiOpponent) * g(phiOpponent) * expected * (1 - expected);
+    improvement += g(phiOpponent) * (game.score - expected);
+  }
+  const v = 1 / vInverse;
+  const delta = v * improvement;
+
+  const volatility = nextVolatility(phi, sigma, v, delta);
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const phiNew = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const muNew = mu + phiNew * phiNew * improvement;
+
+  return {
+    rating: muNew * SCALE + 1500,
+    deviation: Math.min(MAX_DEVIATION, Math.max(MIN_DEVIATION, phiNew * SCALE)),
+    volatility
+  };
+}
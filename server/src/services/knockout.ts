@@ -0,0 +1,375 @@
+// src/services/knockout.ts
+// Runs single- and double-elimination brackets. Like the league tick in tournament.ts,
+// advanceKnockout is idempotent: it fills in entrants as feeder nodes finish, records game
+// results, queues the next game of every live node and reports the champion once there is one.
+import mongoose from 'mongoose';
+import { parseAdjudicationRules } from '../engine/adjudication';
+import { DEFAULT_TIME_CONTROL, parseTimeControl } from '../engine/time-control';
+import Agent from '../models/Agent';
+import BracketNode, { IBracketNode } from '../models/BracketNode';
+import Competition, { ICompetition } from '../models/Competition';
+import Match, { MATCH_STATES } from '../models/Match';
+import { uploadedSourcePath } from './builds';
+import { createAgentMatch } from './matchmaking';
+import { competitionOpenings, pairingOpening } from './openings';
+import {
+  GRAND_FINAL_RESET,
+  KNOCKOUT_FORMATS,
+  KnockoutFormat,
+  NodeGame,
+  NodeGameKind,
+  buildBracket,
+  championNode,
+  decideNode
+} from './bracket';
+import { entrantFileId } from './submissions';
+
+// A claimed game whose match was never queued (e.g. the process died) is queued again after this
+const SCHEDULE_STALE_AFTER_MS = 5 * 60 * 1000;
+
+type Entrant = mongoose.Types.ObjectId | null;
+
+export function isKnockoutFormat(format: string): format is KnockoutFormat {
+  return (KNOCKOUT_FORMATS as readonly string[]).includes(format);
+}
+
+export function knockoutRounds(entrants: number): number {
+  return Math.max(1, Math.ceil(Math.log2(entrants)));
+}
+
+// Stores every node of the bracket; safe to call again after an interrupted start
+export async function createBracket(competition: ICompetition): Promise<void> {
+  const tournament = competition.tournament!;
+  const nodes = buildBracket(tournament.entrants.length, tournament.format as KnockoutFormat);
+
+  try {
+    await BracketNode.insertMany(nodes.map(node => ({ competition: competition._id, ...node })), { ordered: false });
+  } catch (error) {
+    if ((error as { code?: number }).code !== 11000) throw error;
+  }
+
+  console.log('Bracket created:', { competitionId: String(competition._id), nodes: nodes.length });
+}
+
+function toNodeGame(game: IBracketNode['games'][number]): NodeGame {
+  return {
+    kind: game.kind,
+    whiteSlot: game.whiteSlot,
+    whiteScore: game.completedAt ? game.whiteScore ?? 0 : null
+  };
+}
+
+// Both entrants of a node, or null while a feeder node is still being played
+function resolveEntrants(
+  node: IBracketNode,
+  byKey: Map<string, IBracketNode>,
+  seeds: mongoose.Types.ObjectId[]
+): [Entrant, Entrant] | null {
+  const entrants: Entrant[] = [];
+  for (const source of node.sources) {
+    if (source.kind === 'seed') {
+      entrants.push(seeds[(source.seed ?? 0) - 1] ?? null);
+      continue;
+    }
+    const feeder = source.node ? byKey.get(source.node) : undefined;
+    if (!feeder?.completedAt) return null;
+    entrants.push((source.kind === 'winner' ? feeder.winner : feeder.loser) ?? null);
+  }
+  return [entrants[0], entrants[1]];
+}
+
+async function completeNode(
+  node: IBracketNode,
+  outcome: IBracketNode['outcome'],
+  winner?: Entrant,
+  loser?: Entrant
+): Promise<void> {
+  const completedAt = new Date();
+  await BracketNode.updateOne(
+    { _id: node._id, completedAt: { $exists: false } },
+    { $set: { outcome, winner: winner ?? undefined, loser: loser ?? undefined, completedAt } }
+  );
+  Object.assign(node, { outcome, winner: winner ?? undefined, loser: loser ?? undefined, completedAt });
+}
+
+// Copies finished match results onto the node's games. A match that failed after all its retries
+// counts as a draw, so the tiebreaks (and ultimately armageddon's draw odds) settle the node.
+async function recordGames(node: IBracketNode): Promise<void> {
+  for (const [index, game] of node.games.entries()) {
+    if (game.completedAt || !game.match) continue;
+
+    const match = await Match.findById(game.match).select('status result');
+    if (!match) continue;
+
+    let whiteScore: number;
+    if (match.status === MATCH_STATES.COMPLETED && match.result?.reason) {
+      // Bracket matches always put white in the player 1 seat
+      whiteScore = match.result.winner === 1 ? 1 : match.result.winner === 2 ? 0 : 0.5;
+    } else if (match.status === MATCH_STATES.ERROR) {
+      whiteScore = 0.5;
+    } else {
+      continue;
+    }
+
+    const completedAt = new Date();
+    await BracketNode.updateOne(
+      { _id: node._id, [`games.${index}.completedAt`]: { $exists: false } },
+      { $set: { [`games.${index}.whiteScore`]: whiteScore, [`games.${index}.completedAt`]: completedAt } }
+    );
+    Object.assign(game, { whiteScore, completedAt });
+  }
+}
+
+// Queues the match for a game that has been added to a node, forfeiting it for a missing agent
+async function queueGame(competition: ICompetition, node: IBracketNode, index: number): Promise<void> {
+  const game = node.games[index];
+  const whiteId = node.entrants[game.whiteSlot];
+  const blackId = node.entrants[1 - game.whiteSlot];
+  const [white, black] = await Promise.all([Agent.findById(whiteId), Agent.findById(blackId)]);
+  const whiteFileId = white ? await entrantFileId(competition, white) : null;
+  const blackFileId = black ? await entrantFileId(competition, black) : null;
+  const whiteReady = !!whiteFileId && !!uploadedSourcePath(whiteFileId);
+  const blackReady = !!blackFileId && !!uploadedSourcePath(blackFileId);
+
+  // An agent whose entered source has gone missing loses the game; if both have, it is scored as a draw
+  if (!white || !black || !whiteReady || !blackReady) {
+    const whiteScore = whiteReady === blackReady ? 0.5 : whiteReady ? 1 : 0;
+    const completedAt = new Date();
+    await BracketNode.updateOne(
+      { _id: node._id, [`games.${index}.completedAt`]: { $exists: false } },
+      { $set: { [`games.${index}.whiteScore`]: whiteScore, [`games.${index}.completedAt`]: completedAt } }
+    );
+    Object.assign(game, { whiteScore, completedAt });
+    console.warn('Bracket game forfeited, agent source missing:', { competitionId: String(competition._id), node: node.key });
+    return;
+  }
+
+  const timeControl = competition.timeControl?.type ? parseTimeControl(competition.timeControl) : DEFAULT_TIME_CONTROL;
+  // Every game between the two, tiebreaks included, starts from the same opening
+  const opening = await pairingOpening(competitionOpenings(competition.openings), String(competition._id), [String(white._id), String(black._id)]);
+  const { match } = await createAgentMatch(
+    white,
+    black,
+    timeControl,
+    competition._id as mongoose.Types.ObjectId,
+    opening,
+    parseAdjudicationRules(competition.adjudication),
+    { white: whiteFileId!, black: blackFileId! }
+  );
+  await BracketNode.updateOne({ _id: node._id }, { $set: { [`games.${index}.match`]: match._id } });
+  game.match = match._id as mongoose.Types.ObjectId;
+
+  if (node.bracket === 'winners') {
+    await Competition.updateOne({ _id: competition._id }, { $max: { 'tournament.currentRound': node.round } });
+  }
+}
+
+// Adds the next game to a node; only one tick can add the game at a given position
+async function addGame(
+  competition: ICompetition,
+  node: IBracketNode,
+  next: { kind: NodeGameKind; whiteSlot: 0 | 1 }
+): Promise<void> {
+  const game = { kind: next.kind, whiteSlot: next.whiteSlot, scheduledAt: new Date() };
+  const index = node.games.length;
+  const claimed = await BracketNode.findOneAndUpdate(
+    { _id: node._id, games: { $size: index } },
+    { $push: { games: game } },
+    { new: true }
+  );
+  if (!claimed) return;
+
+  node.games = claimed.games;
+  await queueGame(competition, node, index);
+}
+
+// Queues again a game that was claimed but never got its match
+async function retryStaleGame(competition: ICompetition, node: IBracketNode): Promise<void> {
+  const index = node.games.findIndex(game => !game.completedAt && !game.match);
+  if (index < 0) return;
+
+  const now = new Date();
+  const game = node.games[index];
+  if (now.getTime() - game.scheduledAt.getTime() < SCHEDULE_STALE_AFTER_MS) return;
+
+  const claimed = await BracketNode.updateOne(
+    { _id: node._id, [`games.${index}.match`]: { $exists: false }, [`games.${index}.scheduledAt`]: game.scheduledAt },
+    { $set: { [`games.${index}.scheduledAt`]: now } }
+  );
+  if (claimed.modifiedCount === 0) return;
+
+  game.scheduledAt = now;
+  await queueGame(competition, node, index);
+}
+
+// Moves a node forward; returns true when it changed in a way the next pass can build on
+async function advanceNode(
+  competition: ICompetition,
+  node: IBracketNode,
+  byKey: Map<string, IBracketNode>
+): Promise<boolean> {
+  const tournament = competition.tournament!;
+
+  if (!node.resolvedAt) {
+    const entrants = resolveEntrants(node, byKey, tournament.entrants);
+    if (!entrants) return false;
+    // The grand final reset also has to wait for the grand final itself
+    if (node.resetOf && !byKey.get(node.resetOf)?.completedAt) return false;
+
+    const resolvedAt = new Date();
+    await BracketNode.updateOne(
+      { _id: node._id, resolvedAt: { $exists: false } },
+      { $set: { entrants, resolvedAt } }
+    );
+    Object.assign(node, { entrants, resolvedAt });
+  }
+
+  const [first, second] = node.entrants;
+
+  if (node.resetOf) {
+    const final = byKey.get(node.resetOf);
+    const losersChampionWon = final?.outcome === 'played' && !!first && String(final.winner) !== String(first);
+    if (!losersChampionWon) {
+      await completeNode(node, 'skipped');
+      return true;
+    }
+  }
+
+  if (!first || !second) {
+    const entrant = first ?? second;
+    await completeNode(node, entrant ? 'walkover' : 'skipped', entrant);
+    return true;
+  }
+
+  await recordGames(node);
+  const decision = decideNode(node.games.map(toNodeGame), tournament.tiebreak ?? 'armageddon');
+  if (!decision) {
+    await retryStaleGame(competition, node);
+    return false;
+  }
+  if ('winnerSlot' in decision) {
+    await completeNode(node, 'played', node.entrants[decision.winnerSlot], node.entrants[1 - decision.winnerSlot]);
+    return true;
+  }
+
+  await addGame(competition, node, decision.next);
+  // A forfeited game is decided straight away, so the node can move on in the same tick
+  return !!node.games[node.games.length - 1]?.completedAt;
+}
+
+// One knockout tick. Returns the champion once the deciding node is over, otherwise null.
+export async function advanceKnockout(competition: ICompetition): Promise<mongoose.Types.ObjectId | null> {
+  const tournament = competition.tournament!;
+
+  let nodes = await BracketNode.find({ competition: competition._id }).sort({ bracket: 1, round: 1, slot: 1 });
+  if (nodes.length === 0) {
+    await createBracket(competition);
+    nodes = await BracketNode.find({ competition: competition._id }).sort({ bracket: 1, round: 1, slot: 1 });
+  }
+  const byKey = new Map(nodes.map(node => [node.key, node]));
+
+  // Completing a node can resolve the nodes it feeds, so keep going until nothing changes
+  let progressed = true;
+  while (progressed) {
+    progressed = false;
+    for (const node of nodes) {
+      if (node.completedAt) continue;
+      if (await advanceNode(competition, node, byKey)) {
+        progressed = true;
+      }
+    }
+  }
+
+  const reset = byKey.get(GRAND_FINAL_RESET);
+  const deciding = byKey.get(championNode(
+    tournament.format as KnockoutFormat,
+    tournament.entrants.length,
+    reset?.outcome === 'played'
+  ));
+  if (reset && !reset.completedAt) return null;
+  return deciding?.completedAt ? deciding.winner ?? null : null;
+}
+
+interface BracketEntrant {
+  agentId: string;
+  name: string;
+  walletAddress?: string;
+  seed: number;
+}
+
+// Bracket games won per agent; byes and walkovers do not count
+export async function bracketScores(competition: ICompetition): Promise<Map<string, number>> {
+  const nodes = await BracketNode.find({ competition: competition._id, outcome: 'played' }).select('winner');
+  const scores = new Map<string, number>();
+  for (const node of nodes) {
+    if (!node.winner) continue;
+    scores.set(String(node.winner), (scores.get(String(node.winner)) ?? 0) + 1);
+  }
+  return scores;
+}
+
+// The whole bracket with entrants, games and results, for rendering the bracket tree
+export async function getBracket(competition: ICompetition) {
+  const tournament = competition.tournament!;
+  const nodes = await BracketNode.find({ competition: competition._id }).sort({ bracket: 1, round: 1, slot: 1 });
+  const byKey = new Map(nodes.map(node => [node.key, node]));
+
+  const agents = await Agent.find({ _id: { $in: tournament.entrants } }).select('name walletAddress rating');
+  const agentById = new Map(agents.map(agent => [String(agent._id), agent]));
+  const seedById = new Map(tournament.entrants.map((id, index) => [String(id), index + 1]));
+
+  const describe = (id: Entrant | undefined): BracketEntrant | null => {
+    if (!id) return null;
+    const agent = agentById.get(String(id));
+    return {
+      agentId: String(id),
+      name: agent?.name || 'Unknown agent',
+      walletAddress: agent?.walletAddress,
+      seed: seedById.get(String(id)) ?? 0
+    };
+  };
+
+  return {
+    competitionId: String(competition._id),
+    title: competition.title,
+    status: competition.status,
+    format: tournament.format,
+    tiebreak: tournament.tiebreak,
+    rounds: tournament.rounds,
+    winnerAgent: tournament.winnerAgent ? String(tournament.winnerAgent) : undefined,
+    startedAt: tournament.startedAt,
+    completedAt: tournament.completedAt,
+    nodes: nodes.map(node => {
+      // Entrants already known from finished feeders are shown before the node is resolved
+      const entrants = node.resolvedAt
+        ? node.entrants
+        : node.sources.map(source => {
+          if (source.kind === 'seed') return tournament.entrants[(source.seed ?? 0) - 1] ?? null;
+          const feeder = source.node ? byKey.get(source.node) : undefined;
+          if (!feeder?.completedAt) return undefined;
+          return (source.kind === 'winner' ? feeder.winner : feeder.loser) ?? null;
+        });
+
+      return {
+        key: node.key,
+        bracket: node.bracket,
+        round: node.round,
+        slot: node.slot,
+        sources: node.sources,
+        // null while still to be decided; JSON has no undefined array items, so byes are flagged apart
+        entrants: entrants.map(id => id === undefined ? null : describe(id)),
+        byes: entrants.map(id => id === null),
+        games: node.games.map(game => ({
+          kind: game.kind,
+          whiteSlot: game.whiteSlot,
+          matchId: game.match ? String(game.match) : undefined,
+          whiteScore: game.whiteScore,
+          completed: !!game.completedAt
+        })),
+        winner: node.winner ? String(node.winner) : undefined,
+        outcome: node.outcome,
+        completed: !!node.completedAt
+      };
+    })
+  };
+}
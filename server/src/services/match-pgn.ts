@@ -0,0 +1,150 @@
+// src/services/match-pgn.ts
+import crypto from 'crypto';
+import { PgnGame as ParsedPgnGame, PgnResult, parsePgn, pgnDate, writePgn } from '../engine/pgn';
+import { describeTimeControl } from '../engine/time-control';
+import { GAME_END_REASON_LABELS, GameEndReason } from '../engine/types/chess';
+import Competition from '../models/Competition';
+import { IMatch } from '../models/Match';
+import PgnGame, { PgnGamePurpose } from '../models/PgnGame';
+
+// Values for the PGN Termination tag
+const TERMINATIONS: Record<GameEndReason, string> = {
+  checkmate: 'normal',
+  stalemate: 'normal',
+  insufficient_material: 'normal',
+  fifty_move_rule: 'normal',
+  threefold_repetition: 'normal',
+  timeout: 'time forfeit',
+  timeout_vs_insufficient_material: 'time forfeit',
+  illegal_move: 'rules infraction',
+  sandbox_violation: 'rules infraction',
+  bot_error: 'rules infraction',
+  move_limit: 'adjudication',
+  adjudication: 'adjudication',
+  adjudication_draw: 'adjudication',
+  endgame_adjudication: 'adjudication'
+};
+
+// The result names the winning player, who may have had either color
+function pgnResult(match: IMatch, whitePlayer: number): PgnResult {
+  if (!match.result?.reason) return '*';
+  if (match.result.winner === 0) return '1/2-1/2';
+  return match.result.winner === whitePlayer ? '1-0' : '0-1';
+}
+
+export async function matchToPgn(match: IMatch): Promise<string> {
+  const white = match.players.find(player => player.color === 'w');
+  const black = match.players.find(player => player.color === 'b');
+  const whitePlayer = white?.player ?? 1;
+
+  let event = 'FightScript Chess AI Arena';
+  if (match.competition) {
+    const competition = await Competition.findById(match.competition).select('title').lean();
+    if (competition?.title) event = competition.title;
+  }
+
+  const headers: Record<string, string> = {
+    Event: event,
+    Site: 'FightScript',
+    Date: pgnDate(match.startedAt ?? match.createdAt),
+    Round: '-',
+    White: white?.name || '?',
+    Black: black?.name || '?'
+  };
+  if (white?.walletAddress) headers.WhiteWallet = white.walletAddress;
+  if (black?.walletAddress) headers.BlackWallet = black.walletAddress;
+  if (match.timeControl?.type) headers.TimeControl = describeTimeControl(match.timeControl);
+  if (match.opening?.name) headers.Opening = match.opening.name;
+  if (match.result?.reason) headers.Termination = TERMINATIONS[match.result.reason];
+  headers.PlyCount = String(match.moves.length);
+  headers.MatchId = String(match._id);
+  if (match.matchSet && match.game) {
+    headers.Round = String(match.game);
+    headers.MatchSetId = String(match.matchSet);
+  }
+
+  let comment: string | undefined;
+  if (match.result?.reason) {
+    const how = GAME_END_REASON_LABELS[match.result.reason];
+    comment = match.result.winner === 0
+      ? `Drawn by ${how}`
+      : `${match.result.winner === whitePlayer ? headers.White : headers.Black} won by ${how}`;
+    if (match.result.detail) comment += `. ${match.result.detail}`;
+  }
+
+  return writePgn({
+    headers,
+    moves: match.moves,
+    startFen: match.fens[0],
+    result: pgnResult(match, whitePlayer),
+    comment
+  });
+}
+
+function lineKeyOf(game: ParsedPgnGame): string {
+  return crypto.createHash('sha1').update(`${game.startFen}|${game.moves.join(' ')}`).digest('hex');
+}
+
+function nameOf(game: ParsedPgnGame, index: number, source?: string): string {
+  const { Opening, Variation, ECO, Event, White, Black } = game.headers;
+  if (Opening) return [ECO, Opening, Variation].filter(Boolean).join(' ');
+  if (White && Black && White !== '?' && Black !== '?') return `${White} vs ${Black}`;
+  if (Event && Event !== '?') return Event;
+  return `${source || 'Upload'} #${index + 1}`;
+}
+
+export interface PgnImportResult {
+  games: number;
+  imported: number;
+  duplicates: number;
+}
+
+// Stores every game of a PGN file for the given purpose. The whole file is rejected if any game
+// is invalid; games already stored for that purpose are skipped.
+export async function importPgn(
+  text: string,
+  purpose: PgnGamePurpose,
+  options: { source?: string; uploadedBy?: string } = {}
+): Promise<PgnImportResult> {
+  const games = parsePgn(text);
+  if (games.length === 0) {
+    throw new Error('Invalid PGN: no games found');
+  }
+
+  games.forEach((game, index) => {
+    if (purpose === 'opening' && game.moves.length === 0 && !game.headers.FEN) {
+      throw new Error(`Invalid PGN (game ${index + 1}): an opening needs moves or a FEN tag`);
+    }
+    if (purpose === 'fixture' && game.result === '*') {
+      throw new Error(`Invalid PGN (game ${index + 1}): a fixture needs a result`);
+    }
+  });
+
+  const result = await PgnGame.bulkWrite(games.map((game, index) => ({
+    updateOne: {
+      filter: { purpose, lineKey: lineKeyOf(game) },
+      update: {
+        $setOnInsert: {
+          purpose,
+          name: nameOf(game, index, options.source),
+          headers: game.headers,
+          startFen: game.startFen,
+          moves: game.moves,
+          san: game.san,
+          endFen: game.fens[game.fens.length - 1],
+          result: game.result,
+          lineKey: lineKeyOf(game),
+          source: options.source,
+          uploadedBy: options.uploadedBy
+        }
+      },
+      upsert: true
+    }
+  })), { ordered: false });
+
+  return {
+    games: games.length,
+    imported: result.upsertedCount,
+    duplicates: games.length - result.upsertedCount
+  };
+}
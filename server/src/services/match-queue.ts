@@ -0,0 +1,169 @@
+// src/services/match-queue.ts
+import mongoose from 'mongoose';
+import MatchJob, { IMatchJob, JOB_STATES, MatchJobKind } from '../models/MatchJob';
+import Match, { MATCH_STATES } from '../models/Match';
+import { settleMatchSet } from './match-sets';
+
+// Base delay before a failed job is retried; doubles with every attempt
+const RETRY_BASE_DELAY_MS = 15000;
+
+export async function enqueueMatchJob(
+  matchId: mongoose.Types.ObjectId | string,
+  kind: MatchJobKind,
+  payload: IMatchJob['payload'],
+  maxAttempts: number = 3
+): Promise<IMatchJob> {
+  return MatchJob.create({ match: matchId, kind, payload, maxAttempts });
+}
+
+// Atomically hands the oldest runnable job to a worker
+export async function claimNextJob(workerId: string): Promise<IMatchJob | null> {
+  const now = new Date();
+  return MatchJob.findOneAndUpdate(
+    { status: JOB_STATES.QUEUED, runAfter: { $lte: now } },
+    {
+      $set: {
+        status: JOB_STATES.RUNNING,
+        lockedBy: workerId,
+        lockedAt: now,
+        heartbeatAt: now
+      },
+      $inc: { attempts: 1 }
+    },
+    { sort: { runAfter: 1, createdAt: 1 }, new: true }
+  );
+}
+
+// Thrown when a worker finds its job was taken from it; nothing more may be written for the job
+export class JobLockLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lost the lock on job ${jobId}`);
+    this.name = 'JobLockLostError';
+  }
+}
+
+// Returns false when the worker no longer owns the job, e.g. after it was requeued as stale
+export async function heartbeatJob(jobId: string, workerId: string): Promise<boolean> {
+  const result = await MatchJob.updateOne(
+    { _id: jobId, status: JOB_STATES.RUNNING, lockedBy: workerId },
+    { $set: { heartbeatAt: new Date() } }
+  );
+  return result.matchedCount > 0;
+}
+
+// Heartbeats before a write that only the job's owner may make, so the job cannot be swept as
+// stale right after
+export async function assertJobLock(jobId: string, workerId: string): Promise<void> {
+  if (!(await heartbeatJob(jobId, workerId))) {
+    throw new JobLockLostError(jobId);
+  }
+}
+
+export async function completeJob(jobId: string, workerId: string): Promise<void> {
+  await MatchJob.updateOne(
+    { _id: jobId, status: JOB_STATES.RUNNING, lockedBy: workerId },
+    { $set: { status: JOB_STATES.COMPLETED, completedAt: new Date() }, $unset: { lockedBy: 1, lockedAt: 1 } }
+  );
+}
+
+// A failed game fails the set it belongs to
+async function markMatchFailed(matchId: mongoose.Types.ObjectId, message: string): Promise<void> {
+  const match = await Match.findByIdAndUpdate(matchId, {
+    status: MATCH_STATES.ERROR,
+    message,
+    error: message,
+    completedAt: new Date()
+  });
+  if (match?.matchSet) {
+    await settleMatchSet(match.matchSet);
+  }
+}
+
+// Requeues the job with exponential backoff, or fails it and its match once attempts run out
+export async function failJob(job: IMatchJob, workerId: string, error: unknown): Promise<void> {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+
+  if (job.attempts < job.maxAttempts) {
+    const delay = RETRY_BASE_DELAY_MS * Math.pow(2, job.attempts - 1);
+    const requeued = await MatchJob.updateOne(
+      { _id: job._id, status: JOB_STATES.RUNNING, lockedBy: workerId },
+      {
+        $set: { status: JOB_STATES.QUEUED, runAfter: new Date(Date.now() + delay), lastError: message },
+        $unset: { lockedBy: 1, lockedAt: 1, heartbeatAt: 1 }
+      }
+    );
+    // A worker that lost the job leaves its match to the new owner
+    if (requeued.modifiedCount !== 1) return;
+    await Match.findByIdAndUpdate(job.match, {
+      status: MATCH_STATES.QUEUED,
+      message: `Match failed (${message}); retrying (attempt ${job.attempts + 1} of ${job.maxAttempts})`
+    });
+    return;
+  }
+
+  const failed = await MatchJob.updateOne(
+    { _id: job._id, status: JOB_STATES.RUNNING, lockedBy: workerId },
+    { $set: { status: JOB_STATES.FAILED, lastError: message, completedAt: new Date() }, $unset: { lockedBy: 1, lockedAt: 1 } }
+  );
+  if (failed.modifiedCount !== 1) return;
+  await markMatchFailed(job.match, message);
+}
+
+// Jobs whose worker died stop heartbeating; hand them back to the queue or fail them
+export async function requeueStaleJobs(staleAfterMs: number): Promise<number> {
+  const cutoff = new Date(Date.now() - staleAfterMs);
+  const stale = await MatchJob.find({ status: JOB_STATES.RUNNING, heartbeatAt: { $lt: cutoff } });
+
+  let recovered = 0;
+  for (const job of stale) {
+    const message = `Worker ${job.lockedBy} stopped responding`;
+    // The job may have heartbeated or been swept by another worker since it was read; its match is
+    // only touched if this sweep took the job
+    if (job.attempts < job.maxAttempts) {
+      const result = await MatchJob.updateOne(
+        { _id: job._id, status: JOB_STATES.RUNNING, heartbeatAt: job.heartbeatAt },
+        {
+          $set: { status: JOB_STATES.QUEUED, runAfter: new Date(), lastError: message },
+          $unset: { lockedBy: 1, lockedAt: 1, heartbeatAt: 1 }
+        }
+      );
+      if (result.modifiedCount !== 1) continue;
+      await Match.findByIdAndUpdate(job.match, { status: MATCH_STATES.QUEUED, message: 'Match requeued after a worker failure' });
+    } else {
+      const result = await MatchJob.updateOne(
+        { _id: job._id, status: JOB_STATES.RUNNING, heartbeatAt: job.heartbeatAt },
+        { $set: { status: JOB_STATES.FAILED, lastError: message, completedAt: new Date() }, $unset: { lockedBy: 1, lockedAt: 1 } }
+      );
+      if (result.modifiedCount !== 1) continue;
+      await markMatchFailed(job.match, message);
+    }
+    recovered++;
+  }
+
+  return recovered;
+}
+
+// Fails the queued (not yet running) jobs of a competition's matches, e.g. once it has ended
+export async function cancelCompetitionJobs(
+  competitionId: mongoose.Types.ObjectId | string,
+  reason: string
+): Promise<number> {
+  const matches = await Match.find({ competition: competitionId, status: MATCH_STATES.QUEUED }).select('_id');
+  const jobs = await MatchJob.find({ match: { $in: matches.map(match => match._id) }, status: JOB_STATES.QUEUED });
+
+  let cancelled = 0;
+  for (const job of jobs) {
+    const result = await MatchJob.updateOne(
+      { _id: job._id, status: JOB_STATES.QUEUED },
+      { $set: { status: JOB_STATES.FAILED, lastError: reason, completedAt: new Date() } }
+    );
+    if (result.modifiedCount === 0) continue;
+    await markMatchFailed(job.match, reason);
+    cancelled++;
+  }
+  return cancelled;
+}
+
+export async function getJobForMatch(matchId: mongoose.Types.ObjectId | string): Promise<IMatchJob | null> {
+  return MatchJob.findOne({ match: matchId }).sort({ createdAt: -1 });
+}
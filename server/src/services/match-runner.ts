@@ -0,0 +1,230 @@
+// src/services/match-runner.ts
+import { AgentProgram, ChessEngine } from '../engine/chess-engine';
+import { houseBotFromPath, houseBotProgram } from '../engine/house-bots';
+import { INITIAL_FEN } from '../engine/chess-rules';
+import { GAME_END_REASON_LABELS, GameResult, PlyUpdate } from '../engine/types/chess';
+import Agent from '../models/Agent';
+import Match, { IMatch, MATCH_STATES } from '../models/Match';
+import { IMatchJob } from '../models/MatchJob';
+import { recordVersionResults } from './agent-versions';
+import { artifactFor } from './builds';
+import { JobLockLostError, assertJobLock } from './match-queue';
+import { settleMatchSet } from './match-sets';
+import { rateMatch } from './rating';
+import { advanceTournament } from './tournament';
+
+// Leaderboard points awarded to the user's agent in a practice match
+export const MATCH_POINTS = {
+  win: 2,
+  draw: 1,
+  loss: 0
+} as const;
+
+const engine = new ChessEngine();
+
+// The engine numbers white 1 and black 2; the match's players keep their numbers whatever color
+// they have in this game
+function toMatchPlayers(match: IMatch, result: GameResult): GameResult {
+  const playerWith = (enginePlayer: number) => {
+    const color = enginePlayer === 1 ? 'w' : 'b';
+    return match.players.find(player => player.color === color)?.player ?? enginePlayer;
+  };
+  return {
+    ...result,
+    winner: result.winner === 0 ? 0 : playerWith(result.winner),
+    ...(result.forfeit ? { forfeit: { ...result.forfeit, player: playerWith(result.forfeit.player) } } : {})
+  };
+}
+
+function describeResult(job: IMatchJob, match: IMatch, result: GameResult): string {
+  const how = GAME_END_REASON_LABELS[result.reason];
+  const done = match.game ? `Game ${match.game} completed.` : 'Match completed.';
+
+  if (job.kind === 'practice') {
+    if (result.winner === 1) {
+      return `${done} Your agent won by ${how}! (+${MATCH_POINTS.win} points)`;
+    }
+    if (result.winner === 2) {
+      const opponent = match.players.find(player => player.player === 2)?.name || 'The house bot';
+      return `${done} ${opponent} won by ${how}. (+${MATCH_POINTS.loss} points)`;
+    }
+    return `${done} The game was drawn by ${how}. (+${MATCH_POINTS.draw} point)`;
+  }
+
+  const winner = match.players.find(player => player.player === result.winner);
+  if (winner) return `${done} ${winner.name} won by ${how}!`;
+  return `${done} The game was drawn by ${how}.`;
+}
+
+// A player path names either an uploaded source, built once and then taken from the build cache, or
+// a house bot. Uploads are built by the engine, so one that fails to compile forfeits; a house bot
+// that cannot be built is the server's problem.
+async function programFor(playerPath: string): Promise<AgentProgram> {
+  const houseBot = houseBotFromPath(playerPath);
+  if (!houseBot) return () => artifactFor(playerPath);
+  const program = houseBotProgram(houseBot);
+  return typeof program === 'string' ? artifactFor(program) : program;
+}
+
+async function awardPracticePoints(match: IMatch, result: GameResult): Promise<void> {
+  const userPlayer = match.players.find(player => player.player === 1);
+  if (!userPlayer?.walletAddress) return;
+  const { walletAddress } = userPlayer;
+
+  try {
+    // Matches from before agents were versioned only know the wallet
+    const agent = await Agent.findOneAndUpdate(
+      userPlayer.agent ? { _id: userPlayer.agent } : { walletAddress, name: 'Anonymous' },
+      {
+        $inc: {
+          wins: result.winner === 1 ? 1 : 0,
+          losses: result.winner === 2 ? 1 : 0,
+          draws: result.winner === 0 ? 1 : 0,
+          points: result.winner === 1 ? MATCH_POINTS.win : result.winner === 2 ? MATCH_POINTS.loss : MATCH_POINTS.draw
+        },
+        $setOnInsert: {
+          walletAddress,
+          status: 'active',
+          createdAt: new Date()
+        }
+      },
+      { upsert: !userPlayer.agent, new: true }
+    );
+    if (!agent) return;
+
+    console.log('Agent stats updated in database:', {
+      agentId: String(agent._id),
+      walletAddress,
+      wins: agent.wins,
+      losses: agent.losses,
+      draws: agent.draws,
+      points: agent.points
+    });
+  } catch (dbError) {
+    console.error('Failed to update agent stats:', dbError);
+    // Continue even if database update fails
+  }
+}
+
+// Plays the match described by a claimed job and stores the outcome. An agent that does not
+// compile or start forfeits the game; infrastructure failures (a missing match, a house bot that
+// cannot run) are thrown so the queue can retry the job.
+// The signal aborts the game once the worker loses the job; the result is then written only if
+// the worker still holds it, and none of the follow-up updates are made otherwise.
+export async function runMatchJob(job: IMatchJob, workerId: string, signal?: AbortSignal): Promise<GameResult> {
+  const match = await Match.findById(job.match);
+  if (!match) {
+    throw new Error(`Match ${job.match} not found`);
+  }
+
+  // A retried job starts the game again from scratch, from the opening if it has one
+  const startFen = match.opening?.fen ?? INITIAL_FEN;
+  const startedAt = new Date();
+  await Match.findByIdAndUpdate(match._id, {
+    status: MATCH_STATES.RUNNING,
+    message: match.game ? `Game ${match.game} in progress...` : 'Match in progress...',
+    moves: [],
+    fens: [startFen],
+    clocks: [],
+    searches: [],
+    startedAt
+  });
+
+  // Plies are appended as they are played so the match can be streamed live. Writes are chained
+  // to keep them in order; a failed write only delays the moves until the final update.
+  let pending: Promise<unknown> = Promise.resolve();
+  const recordPly = (update: PlyUpdate) => {
+    pending = pending
+      .then(() => Match.updateOne(
+        { _id: match._id, status: MATCH_STATES.RUNNING, startedAt },
+        { $push: { moves: update.move, fens: update.fen, clocks: update.clock, searches: update.search } }
+      ))
+      .catch(error => console.error('Failed to record ply:', error));
+  };
+
+  // The payload paths belong to players 1 and 2, who swap colors from game to game within a set
+  const player1HasWhite = match.players.find(player => player.player === 1)?.color !== 'b';
+  const white = await programFor(player1HasWhite ? job.payload.player1Path : job.payload.player2Path);
+  const black = await programFor(player1HasWhite ? job.payload.player2Path : job.payload.player1Path);
+
+  console.log('Starting match between agents...', { matchId: String(match._id), game: match.game, attempt: job.attempts });
+  const result = toMatchPlayers(match, await engine.runMatch(white, black, {
+    timeControl: job.payload.timeControl,
+    startFen,
+    // Games queued before adjudication existed are played out as before
+    adjudication: match.adjudicationRules,
+    onMove: recordPly,
+    signal
+  }));
+  await pending;
+  console.log('Match completed with result:', {
+    matchId: String(match._id),
+    winner: result.winner,
+    reason: result.reason,
+    detail: result.detail,
+    moves: result.moves.length
+  });
+
+  // A game restarted by another worker has a later start
+  const jobId = String(job._id);
+  await assertJobLock(jobId, workerId);
+  const completedAt = new Date();
+  const completed = await Match.findOneAndUpdate({ _id: match._id, status: MATCH_STATES.RUNNING, startedAt }, {
+    status: MATCH_STATES.COMPLETED,
+    message: describeResult(job, match, result),
+    moves: result.moves,
+    fens: result.fens,
+    result: {
+      winner: result.winner,
+      reason: result.reason,
+      detail: result.detail,
+      adjudication: result.adjudication
+    },
+    forfeit: result.forfeit,
+    clocks: result.clocks,
+    searches: result.searches,
+    engineOutput: result.engineOutput || '',
+    completedAt,
+    durationMs: completedAt.getTime() - startedAt.getTime()
+  });
+  if (!completed) {
+    throw new JobLockLostError(jobId);
+  }
+
+  if (job.kind === 'practice') {
+    await awardPracticePoints(match, result);
+  }
+
+  try {
+    await recordVersionResults(match, result);
+  } catch (versionError) {
+    console.error('Failed to update agent version stats:', versionError);
+  }
+
+  // A game of a set is rated with the rest of the set once the last game is over
+  if (match.matchSet) {
+    try {
+      await settleMatchSet(match.matchSet);
+    } catch (setError) {
+      console.error('Failed to settle match set:', setError);
+    }
+  } else {
+    try {
+      await rateMatch(String(match._id));
+    } catch (ratingError) {
+      console.error('Failed to update ratings:', ratingError);
+      // The match result stands even if ratings could not be updated
+    }
+  }
+
+  if (match.competition) {
+    try {
+      await advanceTournament(match.competition);
+    } catch (tournamentError) {
+      // The worker's tournament sweep tries again
+      console.error('Failed to advance tournament:', tournamentError);
+    }
+  }
+
+  return result;
+}
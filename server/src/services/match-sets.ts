@@ -0,0 +1,58 @@
+// src/services/match-sets.ts
+// A match set is decided once all of its games are over. Games are played by whichever workers pick
+// them up, so every game that ends settles the set, and only the last one finds it finished.
+import mongoose from 'mongoose';
+import Match, { MATCH_STATES } from '../models/Match';
+import MatchSet, { IMatchSet, MATCH_SET_STATES } from '../models/MatchSet';
+import { rateMatchSet } from './rating';
+
+// Points of each player over the games, 1 per win and 0.5 per draw
+function setScore(winners: number[]): { player1: number; player2: number } {
+  const points = (player: number) => winners.reduce(
+    (total, winner) => total + (winner === player ? 1 : winner === 0 ? 0.5 : 0),
+    0
+  );
+  return { player1: points(1), player2: points(2) };
+}
+
+// Completes the set once every game is completed and rates it, or marks it failed as soon as one
+// game has failed for good. Returns the set when this call settled it.
+export async function settleMatchSet(setId: mongoose.Types.ObjectId | string): Promise<IMatchSet | null> {
+  const set = await MatchSet.findById(setId);
+  // A set without games has nothing to settle; sets list their games before any is played
+  if (!set || set.status !== MATCH_SET_STATES.RUNNING || set.matches.length === 0) return null;
+
+  const games = await Match.find({ _id: { $in: set.matches } }).sort({ game: 1 }).select('game status result error');
+  const failed = games.find(game => game.status === MATCH_STATES.ERROR);
+  if (failed) {
+    const settled = await MatchSet.findOneAndUpdate(
+      { _id: set._id, status: MATCH_SET_STATES.RUNNING },
+      { $set: { status: MATCH_SET_STATES.ERROR, error: `Game ${failed.game} failed: ${failed.error || 'unknown error'}`, completedAt: new Date() } },
+      { new: true }
+    );
+    if (settled) console.log('Match set failed:', { setId: String(set._id), game: failed.game });
+    return settled;
+  }
+
+  if (games.length < set.matches.length || games.some(game => game.status !== MATCH_STATES.COMPLETED)) {
+    return null;
+  }
+
+  const score = setScore(games.map(game => game.result?.winner ?? 0));
+  const winner = score.player1 > score.player2 ? 1 : score.player2 > score.player1 ? 2 : 0;
+  const settled = await MatchSet.findOneAndUpdate(
+    { _id: set._id, status: MATCH_SET_STATES.RUNNING },
+    { $set: { status: MATCH_SET_STATES.COMPLETED, score, winner, completedAt: new Date() } },
+    { new: true }
+  );
+  if (!settled) return null;
+  console.log('Match set completed:', { setId: String(set._id), score, winner });
+
+  try {
+    await rateMatchSet(String(set._id));
+  } catch (ratingError) {
+    console.error('Failed to update ratings:', ratingError);
+    // The set result stands even if ratings could not be updated
+  }
+  return settled;
+}
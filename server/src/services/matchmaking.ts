@@ -0,0 +1,350 @@
+// src/services/matchmaking.ts
+import mongoose from 'mongoose';
+import { DEFAULT_ADJUDICATION_RULES } from '../engine/adjudication';
+import { ENGINE_VERSION } from '../engine/chess-engine';
+import { AdjudicationRules, TimeControl } from '../engine/types/chess';
+import Agent, { IAgent } from '../models/Agent';
+import Match, { IMatch, MATCH_STATES } from '../models/Match';
+import { IMatchJob, MatchJobKind } from '../models/MatchJob';
+import MatchSet, { IMatchSet, IMatchSetPlayer } from '../models/MatchSet';
+import { resolveOwnedAgent } from './agents';
+import { uploadedSourcePath } from './builds';
+import { ServiceError } from './errors';
+import { enqueueMatchJob } from './match-queue';
+import { MatchOpening, OpeningOptions, defaultOpeningOptions, pickOpenings } from './openings';
+
+// Opponents are looked for in the narrowest band first, widening until someone is found
+export const RATING_BANDS = [100, 200, 400, 800] as const;
+// Agents are not paired with an opponent from their last few matches
+const REMATCH_LOOKBACK = 3;
+
+const ACTIVE_MATCH_STATES = [MATCH_STATES.QUEUED, MATCH_STATES.INITIALIZING, MATCH_STATES.RUNNING];
+
+// Games per match set. Sets have an even number of games so both players have white equally often.
+export const DEFAULT_SET_GAMES = 2;
+export const MAX_SET_GAMES = 10;
+
+export class MatchmakingError extends ServiceError {}
+
+export interface ScheduledMatch {
+  match: IMatch;
+  job: IMatchJob;
+}
+
+export interface ScheduledMatchSet {
+  set: IMatchSet;
+  // In playing order
+  games: ScheduledMatch[];
+}
+
+// One side of a set and the source it plays
+export interface MatchSetSide {
+  player: Omit<IMatchSetPlayer, 'player'>;
+  sourcePath: string;
+}
+
+// Games per set from a request; the default when left out
+export function parseSetGames(value: unknown): number {
+  if (value === undefined || value === null || value === '') return DEFAULT_SET_GAMES;
+  const games = Number(value);
+  if (!Number.isInteger(games) || games < 2 || games > MAX_SET_GAMES || games % 2 !== 0) {
+    throw new MatchmakingError(`games must be an even number from 2 to ${MAX_SET_GAMES}`, 400);
+  }
+  return games;
+}
+
+export function agentSourcePath(agent: IAgent): string | null {
+  return agent.fileId ? uploadedSourcePath(agent.fileId) : null;
+}
+
+// Agents with an uploaded source that can be scheduled
+function playableQuery(): Record<string, unknown> {
+  return { status: 'active', fileId: { $exists: true, $ne: '' } };
+}
+
+async function busyAgentIds(): Promise<Set<string>> {
+  const matches = await Match.find({ status: { $in: ACTIVE_MATCH_STATES } }).select('players.agent');
+  const ids = new Set<string>();
+  for (const match of matches) {
+    for (const player of match.players) {
+      if (player.agent) ids.add(String(player.agent));
+    }
+  }
+  return ids;
+}
+
+async function recentOpponentIds(agent: IAgent): Promise<Set<string>> {
+  const matches = await Match.find({ 'players.agent': agent._id })
+    .sort({ createdAt: -1 })
+    .limit(REMATCH_LOOKBACK)
+    .select('players.agent');
+  const ids = new Set<string>();
+  for (const match of matches) {
+    for (const player of match.players) {
+      if (player.agent && String(player.agent) !== String(agent._id)) ids.add(String(player.agent));
+    }
+  }
+  return ids;
+}
+
+// Queues a single rated game between two agents, e.g. a tournament game whose colors the pairing
+// decided. fileIds pins the sources played instead of the agents' active versions, e.g. the versions
+// a tournament's entrants were submitted with.
+export async function createAgentMatch(
+  white: IAgent,
+  black: IAgent,
+  timeControl: TimeControl,
+  competitionId?: mongoose.Types.ObjectId | string,
+  opening?: MatchOpening,
+  adjudication: AdjudicationRules = DEFAULT_ADJUDICATION_RULES,
+  fileIds: { white?: string; black?: string } = {}
+): Promise<ScheduledMatch> {
+  const whiteFileId = fileIds.white ?? white.fileId;
+  const blackFileId = fileIds.black ?? black.fileId;
+  const whitePath = whiteFileId ? uploadedSourcePath(whiteFileId) : null;
+  const blackPath = blackFileId ? uploadedSourcePath(blackFileId) : null;
+  if (!whitePath || !blackPath) {
+    const missing = !whitePath ? white : black;
+    throw new MatchmakingError(`Agent ${missing.name} has no uploaded source`, 409);
+  }
+
+  const match = await Match.create({
+    status: MATCH_STATES.QUEUED,
+    message: 'Waiting for a match worker...',
+    players: [
+      { player: 1, color: 'w', agent: white._id, walletAddress: white.walletAddress, name: white.name, fileId: whiteFileId },
+      { player: 2, color: 'b', agent: black._id, walletAddress: black.walletAddress, name: black.name, fileId: blackFileId }
+    ],
+    competition: competitionId,
+    opening,
+    timeControl,
+    adjudicationRules: adjudication,
+    engineVersion: ENGINE_VERSION
+  });
+  const matchId = String(match._id);
+
+  const job = await enqueueMatchJob(matchId, 'head_to_head', {
+    player1Path: whitePath,
+    player2Path: blackPath,
+    timeControl
+  });
+
+  const now = new Date();
+  await Agent.updateMany({ _id: { $in: [white._id, black._id] } }, { $set: { lastMatchedAt: now } });
+
+  return { match, job };
+}
+
+// Queues a set of games between two sides with alternating colors: the first side has white in the
+// odd games. Every game is its own match and job, so workers may play them in parallel. Each pair
+// of games starts from the same opening, taken from the given suite or the default one. Practice
+// sets are unrated.
+export async function createMatchSet(
+  kind: MatchJobKind,
+  sides: [MatchSetSide, MatchSetSide],
+  timeControl: TimeControl,
+  games: number = DEFAULT_SET_GAMES,
+  competitionId?: mongoose.Types.ObjectId | string,
+  openings: OpeningOptions | undefined = defaultOpeningOptions(),
+  adjudication: AdjudicationRules = DEFAULT_ADJUDICATION_RULES
+): Promise<ScheduledMatchSet> {
+  const players = sides.map((side, index) => ({ ...side.player, player: index + 1 as 1 | 2 }));
+  const pairOpenings = openings ? await pickOpenings(openings, games / 2) : [];
+  const rated = kind !== 'practice';
+  // The set lists its games before any is queued, so a game that ends at once still finds the
+  // whole set when it settles it
+  const matchIds = Array.from({ length: games }, () => new mongoose.Types.ObjectId());
+  const set = await MatchSet.create({ kind, players, competition: competitionId, rated, timeControl, matches: matchIds });
+
+  const scheduled: ScheduledMatch[] = [];
+  for (let game = 1; game <= games; game++) {
+    const firstHasWhite = game % 2 === 1;
+    const match = await Match.create({
+      _id: matchIds[game - 1],
+      status: MATCH_STATES.QUEUED,
+      message: `Waiting for a match worker (game ${game} of ${games})...`,
+      players: players.map(player => ({
+        ...player,
+        color: (player.player === 1) === firstHasWhite ? 'w' : 'b'
+      })),
+      competition: competitionId,
+      matchSet: set._id,
+      game,
+      rated,
+      opening: pairOpenings[Math.floor((game - 1) / 2)],
+      timeControl,
+      adjudicationRules: adjudication,
+      engineVersion: ENGINE_VERSION
+    });
+    // Paths follow the players; the runner gives white to whoever has it in this game
+    const job = await enqueueMatchJob(String(match._id), kind, {
+      player1Path: sides[0].sourcePath,
+      player2Path: sides[1].sourcePath,
+      timeControl
+    });
+    scheduled.push({ match, job });
+  }
+
+  return { set, games: scheduled };
+}
+
+// Queues a rated set between two agents; the first plays white in the first game. fileIds pins the
+// sources played, as for createAgentMatch.
+export async function createAgentMatchSet(
+  first: IAgent,
+  second: IAgent,
+  timeControl: TimeControl,
+  games: number = DEFAULT_SET_GAMES,
+  competitionId?: mongoose.Types.ObjectId | string,
+  openings: OpeningOptions | undefined = defaultOpeningOptions(),
+  adjudication: AdjudicationRules = DEFAULT_ADJUDICATION_RULES,
+  fileIds: { first?: string; second?: string } = {}
+): Promise<ScheduledMatchSet> {
+  const firstFileId = fileIds.first ?? first.fileId;
+  const secondFileId = fileIds.second ?? second.fileId;
+  const firstPath = firstFileId ? uploadedSourcePath(firstFileId) : null;
+  const secondPath = secondFileId ? uploadedSourcePath(secondFileId) : null;
+  if (!firstPath || !secondPath) {
+    const missing = !firstPath ? first : second;
+    throw new MatchmakingError(`Agent ${missing.name} has no uploaded source`, 409);
+  }
+
+  const side = (agent: IAgent, fileId: string, sourcePath: string): MatchSetSide => ({
+    player: { agent: agent._id as mongoose.Types.ObjectId, walletAddress: agent.walletAddress, name: agent.name, fileId },
+    sourcePath
+  });
+  const scheduled = await createMatchSet(
+    'head_to_head',
+    [side(first, firstFileId!, firstPath), side(second, secondFileId!, secondPath)],
+    timeControl,
+    games,
+    competitionId,
+    openings,
+    adjudication
+  );
+
+  await Agent.updateMany({ _id: { $in: [first._id, second._id] } }, { $set: { lastMatchedAt: new Date() } });
+  return scheduled;
+}
+
+// Finds the closest-rated available opponent within the narrowest band that has one
+export async function findOpponent(agent: IAgent, exclude: Set<string> = new Set()): Promise<IAgent | null> {
+  const skip = new Set([...exclude, ...await recentOpponentIds(agent), String(agent._id)]);
+  const excluded = [...skip].filter(id => mongoose.Types.ObjectId.isValid(id));
+
+  for (const band of RATING_BANDS) {
+    const candidates = await Agent.find({
+      ...playableQuery(),
+      _id: { $nin: excluded },
+      // Never one of the owner's other agents
+      walletAddress: { $ne: agent.walletAddress },
+      rating: { $gte: agent.rating - band, $lte: agent.rating + band }
+    });
+
+    const playable = candidates
+      .filter(candidate => agentSourcePath(candidate))
+      .sort((a, b) => Math.abs(a.rating - agent.rating) - Math.abs(b.rating - agent.rating));
+    if (playable.length > 0) return playable[0];
+  }
+
+  return null;
+}
+
+// Marks an agent as scheduled unless another process got to it first since it was read
+async function claimAgent(agent: IAgent, now: Date): Promise<boolean> {
+  const result = await Agent.updateOne(
+    { _id: agent._id, lastMatchedAt: agent.lastMatchedAt ?? null },
+    { $set: { lastMatchedAt: now } }
+  );
+  return result.modifiedCount > 0;
+}
+
+// The agent who has waited longer since its last scheduled game plays white first
+function colorsFor(a: IAgent, b: IAgent): [IAgent, IAgent] {
+  const waited = (agent: IAgent) => agent.lastMatchedAt?.getTime() ?? 0;
+  return waited(a) <= waited(b) ? [a, b] : [b, a];
+}
+
+// Queues a set for one of a wallet's agents against an opponent picked by rating
+export async function requestMatch(
+  walletAddress: string,
+  agentId: string | undefined,
+  timeControl: TimeControl,
+  games: number = DEFAULT_SET_GAMES
+): Promise<ScheduledMatchSet> {
+  const agent = await resolveOwnedAgent(walletAddress, agentId, { status: 'active' });
+  if (!agentSourcePath(agent)) {
+    throw new MatchmakingError('Upload an agent before joining matchmaking', 409);
+  }
+  const busy = await busyAgentIds();
+  if (busy.has(String(agent._id))) {
+    throw new MatchmakingError('Agent already has a match in progress', 409);
+  }
+
+  const opponent = await findOpponent(agent, busy);
+  if (!opponent) {
+    throw new MatchmakingError('No opponent available right now', 404);
+  }
+
+  const [first, second] = colorsFor(agent, opponent);
+  return createAgentMatchSet(first, second, timeControl, games);
+}
+
+// Queues a set against a specific agent, bypassing rating bands and rematch rules
+export async function challengeAgent(
+  walletAddress: string,
+  agentId: string | undefined,
+  opponentId: string,
+  timeControl: TimeControl,
+  games: number = DEFAULT_SET_GAMES
+): Promise<ScheduledMatchSet> {
+  if (!mongoose.Types.ObjectId.isValid(opponentId)) {
+    throw new MatchmakingError('Invalid opponent agent ID', 400);
+  }
+
+  const [challenger, opponent] = await Promise.all([
+    resolveOwnedAgent(walletAddress, agentId, { status: 'active' }),
+    Agent.findOne({ _id: opponentId, status: 'active' })
+  ]);
+  if (!opponent) {
+    throw new MatchmakingError('Opponent agent not found', 404);
+  }
+  if (String(challenger._id) === String(opponent._id)) {
+    throw new MatchmakingError('An agent cannot challenge itself', 400);
+  }
+
+  // The challenger plays white in the first game
+  return createAgentMatchSet(challenger, opponent, timeControl, games);
+}
+
+// One automatic matchmaking pass: pairs every idle agent, longest-waiting first, with the
+// closest-rated idle opponent. Returns the sets that were queued.
+export async function scheduleRound(
+  timeControl: TimeControl,
+  games: number = DEFAULT_SET_GAMES
+): Promise<ScheduledMatchSet[]> {
+  const busy = await busyAgentIds();
+  const agents = await Agent.find(playableQuery()).sort({ lastMatchedAt: 1, createdAt: 1 });
+  const scheduled: ScheduledMatchSet[] = [];
+
+  for (const agent of agents) {
+    if (busy.has(String(agent._id)) || !agentSourcePath(agent)) continue;
+
+    const opponent = await findOpponent(agent, busy);
+    if (!opponent) continue;
+
+    const [first, second] = colorsFor(agent, opponent);
+    const now = new Date();
+    if (!(await claimAgent(agent, now)) || !(await claimAgent(opponent, now))) continue;
+
+    try {
+      scheduled.push(await createAgentMatchSet(first, second, timeControl, games));
+      busy.add(String(agent._id));
+      busy.add(String(opponent._id));
+    } catch (error) {
+      console.error('Failed to schedule match:', { agent: String(agent._id), opponent: String(opponent._id), error });
+    }
+  }
+
+  return scheduled;
+}
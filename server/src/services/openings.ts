@@ -0,0 +1,226 @@
+// src/services/openings.ts
+// Opening suites: curated start positions, one EPD or PGN file per suite in OPENINGS_DIR, plus the
+// imported suite of openings uploaded as PGN. The games of a pairing share an opening, played once with each color, so deterministic agents do not replay
+// the same game forever and neither side is favoured by the position it starts from.
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { parseEpd } from '../engine/epd';
+import { parsePgn } from '../engine/pgn';
+import PgnGame from '../models/PgnGame';
+import { ServiceError } from './errors';
+
+export const OPENINGS_DIR = process.env.OPENINGS_DIR || path.join(process.cwd(), 'openings');
+
+// The suite of PGN games imported with the opening purpose, in upload order
+export const IMPORTED_SUITE = 'imported';
+
+// sample: a position drawn from the suite for each pairing; fixed: one position for every game
+export const OPENING_SELECTIONS = ['sample', 'fixed'] as const;
+
+export type OpeningSelection = typeof OPENING_SELECTIONS[number];
+
+const SUITE_FORMATS = { '.epd': 'epd', '.pgn': 'pgn' } as const;
+
+type SuiteFormat = typeof SUITE_FORMATS[keyof typeof SUITE_FORMATS] | 'imported';
+
+export class OpeningError extends ServiceError {}
+
+export interface OpeningPosition {
+  index: number;
+  name: string;
+  fen: string;
+}
+
+export interface OpeningSuite {
+  name: string;
+  format: SuiteFormat;
+  positions: OpeningPosition[];
+}
+
+// How a competition, or the server by default, picks openings
+export interface OpeningOptions {
+  suite: string;
+  selection?: OpeningSelection;
+  // The position played by every game with the fixed selection
+  position?: number;
+}
+
+// The opening a match was started from
+export interface MatchOpening {
+  suite: string;
+  index: number;
+  name: string;
+  fen: string;
+}
+
+// Parsed suites by file, dropped when the file changes
+const suites = new Map<string, { mtimeMs: number; suite: OpeningSuite }>();
+
+function suiteFile(name: string): { file: string; format: SuiteFormat } | null {
+  // Suite names are file names; anything else could reach outside the directory
+  if (!/^[\w-]+$/.test(name)) return null;
+  for (const [extension, format] of Object.entries(SUITE_FORMATS)) {
+    const file = path.join(OPENINGS_DIR, `${name}${extension}`);
+    if (fs.existsSync(file)) return { file, format };
+  }
+  return null;
+}
+
+function positionsOf(name: string, format: SuiteFormat, text: string): OpeningPosition[] {
+  if (format === 'epd') {
+    return parseEpd(text).map((record, index) => ({
+      index,
+      name: record.operations.id || record.operations.c0 || `${name} #${index + 1}`,
+      fen: record.fen
+    }));
+  }
+
+  // A PGN game's opening is the position after its last move
+  return parsePgn(text).map((game, index) => {
+    const { ECO, Opening, Variation } = game.headers;
+    return {
+      index,
+      name: Opening ? [ECO, Opening, Variation].filter(Boolean).join(' ') : game.san.join(' ') || `${name} #${index + 1}`,
+      fen: game.fens[game.fens.length - 1]
+    };
+  });
+}
+
+// Imported openings start where their moves end. Uploads only add games, so indexes stay put.
+async function loadImportedSuite(): Promise<OpeningSuite> {
+  const games = await PgnGame.find({ purpose: 'opening' }).sort({ createdAt: 1, _id: 1 }).select('name endFen').lean();
+  if (games.length === 0) {
+    throw new OpeningError(`Opening suite ${IMPORTED_SUITE} has no positions`, 422);
+  }
+  return {
+    name: IMPORTED_SUITE,
+    format: 'imported',
+    positions: games.map((game, index) => ({ index, name: game.name, fen: game.endFen }))
+  };
+}
+
+export async function loadOpeningSuite(name: string): Promise<OpeningSuite> {
+  if (name === IMPORTED_SUITE) return loadImportedSuite();
+
+  const found = suiteFile(name);
+  if (!found) {
+    throw new OpeningError(`Opening suite ${name} not found`, 404);
+  }
+
+  const { mtimeMs } = fs.statSync(found.file);
+  const cached = suites.get(found.file);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.suite;
+
+  let positions: OpeningPosition[];
+  try {
+    positions = positionsOf(name, found.format, fs.readFileSync(found.file, 'utf8'));
+  } catch (error) {
+    throw new OpeningError(`Opening suite ${name}: ${error instanceof Error ? error.message : String(error)}`, 422);
+  }
+  if (positions.length === 0) {
+    throw new OpeningError(`Opening suite ${name} has no positions`, 422);
+  }
+
+  const suite: OpeningSuite = { name, format: found.format, positions };
+  suites.set(found.file, { mtimeMs, suite });
+  return suite;
+}
+
+// Every suite in the directory, with its size, then the imported suite once it has openings.
+// Suites that do not parse are listed with the error.
+export async function listOpeningSuites(): Promise<{ name: string; format: SuiteFormat; positions?: number; error?: string }[]> {
+  const files = fs.existsSync(OPENINGS_DIR)
+    ? fs.readdirSync(OPENINGS_DIR).filter(file => path.extname(file) in SUITE_FORMATS).sort()
+    : [];
+  const listed: { name: string; format: SuiteFormat; positions?: number; error?: string }[] = [];
+  for (const file of files) {
+    const name = path.basename(file, path.extname(file));
+    // The imported suite takes the name over from a file
+    if (name === IMPORTED_SUITE) continue;
+    const format = SUITE_FORMATS[path.extname(file) as keyof typeof SUITE_FORMATS];
+    try {
+      listed.push({ name, format, positions: (await loadOpeningSuite(name)).positions.length });
+    } catch (error) {
+      listed.push({ name, format, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const imported = await PgnGame.countDocuments({ purpose: 'opening' });
+  if (imported > 0) {
+    listed.push({ name: IMPORTED_SUITE, format: 'imported', positions: imported });
+  }
+  return listed;
+}
+
+// Opening options from a request or a competition: a suite name, or { suite, selection, position }.
+// Undefined when none were given.
+export async function parseOpeningOptions(value: unknown): Promise<OpeningOptions | undefined> {
+  if (value === undefined || value === null || value === '') return undefined;
+  const raw = typeof value === 'string' ? { suite: value } : value as Record<string, unknown>;
+  if (typeof raw !== 'object' || typeof raw.suite !== 'string' || !raw.suite) {
+    throw new OpeningError('openings must name a suite', 400);
+  }
+
+  const selection = raw.selection ?? 'sample';
+  if (!OPENING_SELECTIONS.includes(selection as OpeningSelection)) {
+    throw new OpeningError(`openings.selection must be one of: ${OPENING_SELECTIONS.join(', ')}`, 400);
+  }
+
+  const suite = await loadOpeningSuite(raw.suite);
+  const position = raw.position === undefined || raw.position === null ? undefined : Number(raw.position);
+  if (position !== undefined && (!Number.isInteger(position) || position < 0 || position >= suite.positions.length)) {
+    throw new OpeningError(`openings.position must be from 0 to ${suite.positions.length - 1}`, 400);
+  }
+
+  return { suite: suite.name, selection: selection as OpeningSelection, position };
+}
+
+// Applied outside competitions and to competitions without a suite of their own
+export function defaultOpeningOptions(): OpeningOptions | undefined {
+  const suite = process.env.DEFAULT_OPENING_SUITE;
+  return suite ? { suite, selection: 'sample' } : undefined;
+}
+
+// A competition's own suite, or the default one
+export function competitionOpenings(openings?: OpeningOptions): OpeningOptions | undefined {
+  if (!openings?.suite) return defaultOpeningOptions();
+  return { suite: openings.suite, selection: openings.selection, position: openings.position };
+}
+
+// Openings for `count` pairings. Samples do not repeat until the suite runs out. With a key the
+// draw is the same every time, so a pairing met again, e.g. with colors reversed in a double round
+// robin, gets its opening again.
+export async function pickOpenings(options: OpeningOptions, count: number, key?: string): Promise<MatchOpening[]> {
+  const suite = await loadOpeningSuite(options.suite);
+  const toMatchOpening = (position: OpeningPosition): MatchOpening => ({ suite: suite.name, ...position });
+
+  if (options.selection === 'fixed') {
+    const position = suite.positions[options.position ?? 0];
+    if (!position) {
+      throw new OpeningError(`Opening suite ${suite.name} has no position ${options.position}`, 422);
+    }
+    return Array.from({ length: count }, () => toMatchOpening(position));
+  }
+
+  const rank = (position: OpeningPosition) => key
+    ? crypto.createHash('sha1').update(`${key}:${position.index}`).digest('hex')
+    : crypto.randomBytes(8).toString('hex');
+  const ranked = suite.positions
+    .map(position => ({ position, rank: rank(position) }))
+    .sort((a, b) => a.rank.localeCompare(b.rank))
+    .map(({ position }) => position);
+  return Array.from({ length: count }, (_, index) => toMatchOpening(ranked[index % ranked.length]));
+}
+
+// The opening of a single competition game, the same for every game two agents play against each
+// other, so the legs of a double round robin and the games of a knockout pairing play it with both
+// colors.
+export async function pairingOpening(
+  options: OpeningOptions | undefined,
+  competitionId: string,
+  agentIds: string[]
+): Promise<MatchOpening | undefined> {
+  if (!options?.suite) return undefined;
+  return (await pickOpenings(options, 1, [competitionId, ...[...agentIds].sort()].join(':')))[0];
+}
@@ -0,0 +1,203 @@
+// src/services/rating.ts
+import mongoose from 'mongoose';
+import Agent, { IAgent } from '../models/Agent';
+import Match, { IMatchPlayer, MATCH_STATES } from '../models/Match';
+import MatchSet, { IMatchSetPlayer, MATCH_SET_STATES } from '../models/MatchSet';
+import RatingHistory from '../models/RatingHistory';
+import { GlickoRating, updateRating } from './glicko2';
+
+// The rating house bots are rated against in legacy matches and sets, which have no rated flag and
+// so count. It is a fixed reference point that never moves, so beating a house bot over and over
+// earns less each time instead of farming the leaderboard.
+export const HOUSE_BOT_RATING: GlickoRating = {
+  rating: 1200,
+  deviation: 50,
+  volatility: 0.06
+};
+
+export const LEADERBOARD_SORTS = {
+  rating: { rating: -1, ratingDeviation: 1 },
+  points: { points: -1, wins: -1 },
+  wins: { wins: -1, points: -1 }
+} as const;
+
+export type LeaderboardSort = keyof typeof LEADERBOARD_SORTS;
+
+// Attempts at writing one agent's new rating when other games keep rating it at the same time
+const MAX_RATING_ATTEMPTS = 5;
+
+// Leaderboards rank by rating unless asked otherwise; returns null for unknown values
+export function parseLeaderboardSort(value: unknown): LeaderboardSort | null {
+  if (value === undefined || value === '') return 'rating';
+  return typeof value === 'string' && value in LEADERBOARD_SORTS ? value as LeaderboardSort : null;
+}
+
+function ratingOf(agent: IAgent): GlickoRating {
+  return {
+    rating: agent.rating,
+    deviation: agent.ratingDeviation,
+    volatility: agent.ratingVolatility
+  };
+}
+
+// House bots are named as such; in older matches they are the players without an agent or wallet
+function isHouseBot(player: IMatchPlayer | IMatchSetPlayer): boolean {
+  return !!player.houseBot || (!player.agent && !player.walletAddress);
+}
+
+async function resolveAgent(player: IMatchPlayer | IMatchSetPlayer): Promise<IAgent | null> {
+  if (player.agent) return Agent.findById(player.agent);
+  // Older matches only name the wallet, which identifies an agent only while it owns just one
+  const agents = await Agent.find({ walletAddress: player.walletAddress }).limit(2);
+  return agents.length === 1 ? agents[0] : null;
+}
+
+interface RatedSide {
+  player: IMatchPlayer | IMatchSetPlayer;
+  agent: IAgent | null;
+  before: GlickoRating;
+  // One score per game: 1 for a win, 0.5 for a draw, 0 for a loss
+  scores: number[];
+}
+
+// Scores each player's results; null when a player's agent cannot be found
+async function resolveSides(
+  players: (IMatchPlayer | IMatchSetPlayer)[],
+  winners: number[],
+  context: Record<string, unknown>
+): Promise<RatedSide[] | null> {
+  const sides: RatedSide[] = [];
+  for (const player of [...players].sort((a, b) => a.player - b.player)) {
+    const agent = isHouseBot(player) ? null : await resolveAgent(player);
+    if (!agent && !isHouseBot(player)) {
+      console.warn('Skipping rating update, agent not found:', { ...context, player: player.player });
+      return null;
+    }
+    const scores = winners.map(winner => winner === 0 ? 0.5 : winner === player.player ? 1 : 0);
+    sides.push({ player, agent, before: agent ? ratingOf(agent) : HOUSE_BOT_RATING, scores });
+  }
+  return sides;
+}
+
+// Writes an agent's rating after a period against an opponent. The write only lands if no other
+// period was rated for the agent since its rating was read, e.g. a ladder set and a tournament game
+// finishing together; otherwise the rating is read again and the period applied on top.
+async function writeRating(
+  agent: IAgent,
+  opponent: GlickoRating,
+  scores: number[]
+): Promise<{ before: GlickoRating; after: GlickoRating } | null> {
+  let current: IAgent | null = agent;
+  for (let attempt = 0; attempt < MAX_RATING_ATTEMPTS && current; attempt++) {
+    const before = ratingOf(current);
+    const after = updateRating(before, scores.map(score => ({ opponent, score })));
+    const written = await Agent.updateOne(
+      // Agents from before ratedGames existed have no count stored
+      { _id: current._id, ratedGames: current.ratedGames || { $in: [0, null] } },
+      {
+        $set: {
+          rating: after.rating,
+          ratingDeviation: after.deviation,
+          ratingVolatility: after.volatility,
+          lastRatedAt: new Date()
+        },
+        $inc: { ratedGames: scores.length }
+      }
+    );
+    if (written.modifiedCount === 1) return { before, after };
+    current = await Agent.findById(agent._id);
+  }
+  return null;
+}
+
+// All games of a match or set count as one rating period, so the set is rated as a unit. Each side
+// is rated against the opponent's rating as it was when the games ended.
+async function applyRatings(
+  sides: RatedSide[],
+  record: { match: mongoose.Types.ObjectId; matchSet?: mongoose.Types.ObjectId }
+): Promise<void> {
+  for (const [index, side] of sides.entries()) {
+    if (!side.agent) continue;
+    const opponent = sides[1 - index];
+    const score = side.scores.reduce((sum, value) => sum + value, 0) / side.scores.length;
+
+    const written = await writeRating(side.agent, opponent.before, side.scores);
+    if (!written) {
+      console.error('Gave up updating a rating after repeated conflicts:', { agentId: String(side.agent._id), ...record });
+      continue;
+    }
+    const { before, after } = written;
+
+    await RatingHistory.create({
+      agent: side.agent._id,
+      walletAddress: side.agent.walletAddress,
+      match: record.match,
+      matchSet: record.matchSet,
+      games: side.scores.length,
+      opponent: {
+        agent: opponent.agent?._id,
+        name: opponent.agent?.name || opponent.player.name,
+        rating: opponent.before.rating,
+        deviation: opponent.before.deviation
+      },
+      score,
+      ratingBefore: before.rating,
+      deviationBefore: before.deviation,
+      rating: after.rating,
+      deviation: after.deviation,
+      volatility: after.volatility
+    });
+
+    console.log('Agent rating updated:', {
+      walletAddress: side.agent.walletAddress,
+      rating: Math.round(after.rating),
+      change: Math.round(after.rating - before.rating)
+    });
+  }
+}
+
+// Applies a completed match to both players' ratings. Each match is rated at most once; returns
+// false when it was already rated, is unrated, belongs to a set, or a player's agent cannot be found.
+export async function rateMatch(matchId: string): Promise<boolean> {
+  const match = await Match.findById(matchId);
+  if (!match || match.matchSet || !match.rated || match.status !== MATCH_STATES.COMPLETED || !match.result?.reason || match.ratedAt) {
+    return false;
+  }
+
+  const sides = await resolveSides(match.players, [match.result.winner], { matchId });
+  if (!sides) return false;
+
+  // Claim the match so a retried job cannot rate it twice
+  const claimed = await Match.findOneAndUpdate(
+    { _id: match._id, ratedAt: { $exists: false } },
+    { $set: { ratedAt: new Date() } }
+  );
+  if (!claimed) return false;
+
+  await applyRatings(sides, { match: match._id as mongoose.Types.ObjectId });
+  return true;
+}
+
+// Applies a completed match set to both players' ratings, every game counting. Like matches, a
+// set is rated at most once, and unrated sets never.
+export async function rateMatchSet(setId: string): Promise<boolean> {
+  const set = await MatchSet.findById(setId);
+  if (!set || !set.rated || set.status !== MATCH_SET_STATES.COMPLETED || set.ratedAt) {
+    return false;
+  }
+
+  const games = await Match.find({ _id: { $in: set.matches } }).sort({ game: 1 }).select('result');
+  if (games.length === 0) return false;
+  const winners = games.map(game => game.result?.winner ?? 0);
+  const sides = await resolveSides(set.players, winners, { setId });
+  if (!sides) return false;
+
+  const claimed = await MatchSet.findOneAndUpdate(
+    { _id: set._id, ratedAt: { $exists: false } },
+    { $set: { ratedAt: new Date() } }
+  );
+  if (!claimed) return false;
+
+  await applyRatings(sides, { match: games[0]._id as mongoose.Types.ObjectId, matchSet: set._id as mongoose.Types.ObjectId });
+  return true;
+}
@@ -0,0 +1,286 @@
+// src/services/submissions.ts
+// Competition entries. Users join a competition, submit a version of one of their agents to it and
+// may swap or withdraw it until the competition starts. From then on the Submission follows the agent
+// through the tournament: validated when the entrants are fixed, scored when it is over. The
+// version's source is built and run through the UCI conformance check on submission; a version that
+// fails is recorded as a failed submission, with the report, but not entered. Tournament games play
+// the submitted version, whatever the agent's active version is by then.
+import path from 'path';
+import mongoose from 'mongoose';
+import Agent, { IAgent } from '../models/Agent';
+import AgentVersion, { IAgentVersion } from '../models/AgentVersion';
+import Competition, { ICompetition } from '../models/Competition';
+import Submission, { ISubmission, SUBMISSION_STATES } from '../models/Submission';
+import User, { IUser } from '../models/User';
+import { recordActivity } from './activity';
+import { AgentSelectionError, resolveOwnedAgent } from './agents';
+import { uploadedSourcePath, validateSource } from './builds';
+import { ServiceError } from './errors';
+
+export class SubmissionError extends ServiceError {}
+
+// Entries can change until the competition starts and locks them
+const OPEN_FOR_ENTRIES = { status: 'upcoming', submissionsLockedAt: { $exists: false } };
+
+async function findCompetition(competitionId: string): Promise<ICompetition> {
+  const competition = mongoose.Types.ObjectId.isValid(competitionId)
+    ? await Competition.findById(competitionId)
+    : null;
+  if (!competition) {
+    throw new SubmissionError('Competition not found', 404);
+  }
+  return competition;
+}
+
+async function findUser(walletAddress: string): Promise<IUser> {
+  const user = await User.findOne({ walletAddress });
+  if (!user) {
+    throw new SubmissionError('User not found', 404);
+  }
+  return user;
+}
+
+function isParticipant(competition: ICompetition, user: IUser): boolean {
+  return competition.participants.some(id => String(id) === String(user._id));
+}
+
+function assertOpen(competition: ICompetition): void {
+  if (competition.status !== 'upcoming' || competition.submissionsLockedAt) {
+    throw new SubmissionError('Competition is no longer open for entries', 409);
+  }
+}
+
+export async function joinCompetition(competitionId: string, walletAddress: string): Promise<ICompetition> {
+  const competition = await findCompetition(competitionId);
+  const user = await findUser(walletAddress);
+  if (isParticipant(competition, user)) {
+    throw new SubmissionError('Already joined this competition', 409);
+  }
+  assertOpen(competition);
+
+  const joined = await Competition.findOneAndUpdate(
+    { _id: competition._id, ...OPEN_FOR_ENTRIES },
+    { $addToSet: { participants: user._id } },
+    { new: true }
+  );
+  if (!joined) {
+    throw new SubmissionError('Competition is no longer open for entries', 409);
+  }
+  await User.updateOne({ _id: user._id }, { $addToSet: { competitions: competition._id } });
+
+  await recordActivity(walletAddress, 'competition_join', 'Joined a competition', `Joined ${competition.title}`, {
+    competitionId: competition._id as mongoose.Types.ObjectId
+  });
+  return joined;
+}
+
+// Withdraws the user and their submission
+export async function leaveCompetition(competitionId: string, walletAddress: string): Promise<ICompetition> {
+  const competition = await findCompetition(competitionId);
+  const user = await findUser(walletAddress);
+  if (!isParticipant(competition, user)) {
+    throw new SubmissionError('Not a participant of this competition', 409);
+  }
+  assertOpen(competition);
+
+  const submission = await Submission.findOne({ competition: competition._id, user: user._id });
+  const left = await Competition.findOneAndUpdate(
+    { _id: competition._id, ...OPEN_FOR_ENTRIES },
+    {
+      $pull: {
+        participants: user._id,
+        ...(submission ? { submissions: { agent: submission.agent } } : {})
+      }
+    },
+    { new: true }
+  );
+  if (!left) {
+    throw new SubmissionError('Competition is no longer open for entries', 409);
+  }
+
+  if (submission) {
+    await Submission.deleteOne({ _id: submission._id });
+  }
+  await User.updateOne(
+    { _id: user._id },
+    { $pull: { competitions: competition._id, ...(submission ? { submissions: submission._id } : {}) } }
+  );
+
+  await recordActivity(walletAddress, 'competition_leave', 'Left a competition', `Left ${competition.title}`, {
+    competitionId: competition._id as mongoose.Types.ObjectId
+  });
+  return left;
+}
+
+// The version to enter: the one asked for, or the agent's active version. Null for an agent from
+// before versions, which only has its fileId.
+async function resolveEntryVersion(agent: IAgent, versionId?: string): Promise<IAgentVersion | null> {
+  if (versionId === undefined) {
+    return agent.activeVersion ? AgentVersion.findById(agent.activeVersion) : null;
+  }
+  const version = mongoose.Types.ObjectId.isValid(versionId)
+    ? await AgentVersion.findOne({ _id: versionId, agent: agent._id })
+    : null;
+  if (!version) {
+    throw new SubmissionError('Version not found', 404);
+  }
+  return version;
+}
+
+// Enters a version (the active one if versionId is left out) of one of the user's agents (the only
+// one if agentId is left out), replacing any agent they submitted before
+export async function submitAgent(
+  competitionId: string,
+  walletAddress: string,
+  agentId?: string,
+  versionId?: string
+): Promise<ISubmission> {
+  const competition = await findCompetition(competitionId);
+  const user = await findUser(walletAddress);
+  if (!isParticipant(competition, user)) {
+    throw new SubmissionError('Join the competition before submitting an agent', 409);
+  }
+  assertOpen(competition);
+
+  const agent = await resolveOwnedAgent(walletAddress, agentId).catch(error => {
+    throw error instanceof AgentSelectionError ? new SubmissionError(error.message, error.status) : error;
+  });
+  if (agent.status !== 'active') {
+    throw new SubmissionError(`Agent ${agent.name} is inactive`, 409);
+  }
+  const version = await resolveEntryVersion(agent, versionId);
+  const entryName = version ? `Version ${version.version} of ${agent.name}` : agent.name;
+  const fileId = version?.fileId ?? agent.fileId;
+  const sourcePath = fileId ? uploadedSourcePath(fileId) : null;
+  if (!fileId || !sourcePath) {
+    throw new SubmissionError(`${entryName} has no uploaded source`, 409);
+  }
+
+  const { conformance } = await validateSource(sourcePath);
+  let failure: string | null = null;
+  if (!conformance) {
+    failure = `The source of ${entryName} did not build`;
+  } else if (!conformance.passed) {
+    const failedChecks = conformance.checks.filter(check => !check.passed).map(check => check.name);
+    failure = `${entryName} failed the UCI check: ${failedChecks.join(', ')}`;
+  }
+
+  const previous = await Submission.findOne({ competition: competition._id, user: user._id });
+  const replaced = [agent._id, ...(previous ? [previous.agent] : [])];
+  const now = new Date();
+
+  // The competition's entry list is what the tournament is built from; a failed submission still
+  // replaces the previous entry, as the user meant to swap it out
+  const withdrawn = await Competition.findOneAndUpdate(
+    { _id: competition._id, ...OPEN_FOR_ENTRIES },
+    { $pull: { submissions: { agent: { $in: replaced } } } }
+  );
+  const entered = failure
+    ? withdrawn
+    : await Competition.findOneAndUpdate(
+        { _id: competition._id, ...OPEN_FOR_ENTRIES },
+        { $push: { submissions: { agent: agent._id, ...(version ? { version: version._id } : {}), submittedAt: now } } },
+        { new: true }
+      );
+  if (!entered) {
+    throw new SubmissionError('Competition is no longer open for entries', 409);
+  }
+
+  const submission = await Submission.findOneAndUpdate(
+    { competition: competition._id, user: user._id },
+    {
+      $set: {
+        walletAddress,
+        agent: agent._id,
+        fileId,
+        fileUrl: `/agents/${path.basename(sourcePath)}`,
+        submittedAt: now,
+        score: 0,
+        status: failure ? SUBMISSION_STATES.FAILED : SUBMISSION_STATES.PENDING,
+        ...(failure ? { notes: failure } : {}),
+        ...(conformance ? { conformance } : {}),
+        ...(version ? { version: version._id } : {})
+      },
+      $unset: {
+        ...(failure ? {} : { notes: 1 }),
+        ...(conformance ? {} : { conformance: 1 }),
+        ...(version ? {} : { version: 1 })
+      }
+    },
+    { upsert: true, new: true }
+  );
+  await User.updateOne({ _id: user._id }, { $addToSet: { submissions: submission!._id } });
+
+  await recordActivity(walletAddress, 'agent_submit', 'Submitted an agent', `Submitted ${entryName} to ${competition.title}`, {
+    competitionId: competition._id as mongoose.Types.ObjectId,
+    agentId: agent._id as mongoose.Types.ObjectId,
+    status: failure ? SUBMISSION_STATES.FAILED : SUBMISSION_STATES.PENDING
+  });
+  return submission!;
+}
+
+export async function listSubmissions(competitionId: string) {
+  const competition = await findCompetition(competitionId);
+  const submissions = await Submission.find({ competition: competition._id })
+    .populate('agent', 'name rating')
+    .populate('version', 'version')
+    .populate('user', 'username walletAddress')
+    .sort({ score: -1, submittedAt: 1 })
+    .lean();
+
+  return {
+    competitionId: String(competition._id),
+    status: competition.status,
+    submissionsLockedAt: competition.submissionsLockedAt,
+    submissions
+  };
+}
+
+// The tournament's entrants are fixed: their submissions are playing, the others failed validation
+export async function markSubmissionsPlaying(
+  competitionId: mongoose.Types.ObjectId | string,
+  entrantIds: (mongoose.Types.ObjectId | string)[]
+): Promise<void> {
+  await Submission.updateMany(
+    { competition: competitionId, status: SUBMISSION_STATES.PENDING, agent: { $in: entrantIds } },
+    { $set: { status: SUBMISSION_STATES.PROCESSING } }
+  );
+  await Submission.updateMany(
+    { competition: competitionId, status: SUBMISSION_STATES.PENDING, agent: { $nin: entrantIds } },
+    { $set: { status: SUBMISSION_STATES.FAILED, notes: 'The agent was inactive or had no uploaded source when the tournament started' } }
+  );
+}
+
+// The source an entrant plays in the tournament: the version it was submitted with, or for entries
+// from before versions were pinned, the agent's active one. Null when the version is gone.
+export async function entrantFileId(competition: ICompetition, agent: IAgent): Promise<string | null> {
+  const tournament = competition.tournament;
+  const index = tournament?.entrants.findIndex(id => String(id) === String(agent._id)) ?? -1;
+  const versionId = index >= 0 ? tournament?.entrantVersions?.[index] : null;
+  if (!versionId) return agent.fileId ?? null;
+
+  const version = await AgentVersion.findById(versionId).select('fileId');
+  return version?.fileId ?? null;
+}
+
+// Nothing will be played, e.g. the tournament could not start
+export async function failPendingSubmissions(competitionId: mongoose.Types.ObjectId | string, reason: string): Promise<void> {
+  await Submission.updateMany(
+    { competition: competitionId, status: SUBMISSION_STATES.PENDING },
+    { $set: { status: SUBMISSION_STATES.FAILED, notes: reason } }
+  );
+}
+
+// Final scores, keyed by agent id
+export async function completeSubmissions(
+  competitionId: mongoose.Types.ObjectId | string,
+  scores: Map<string, number>
+): Promise<void> {
+  const submissions = await Submission.find({ competition: competitionId, status: SUBMISSION_STATES.PROCESSING });
+  for (const submission of submissions) {
+    await Submission.updateOne(
+      { _id: submission._id, status: SUBMISSION_STATES.PROCESSING },
+      { $set: { status: SUBMISSION_STATES.COMPLETED, score: scores.get(String(submission.agent)) ?? 0 } }
+    );
+  }
+}
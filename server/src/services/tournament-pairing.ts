@@ -0,0 +1,261 @@
+// src/services/tournament-pairing.ts
+// Pairings and standings for round-robin, double round-robin and Swiss tournaments. Players are
+// plain string IDs in seed order, so everything can be recomputed from stored games on every tick.
+
+export const TOURNAMENT_FORMATS = ['round_robin', 'double_round_robin', 'swiss'] as const;
+
+export type TournamentFormat = typeof TOURNAMENT_FORMATS[number];
+
+export interface Pairing {
+  white: string;
+  // null when white sits the round out with a bye
+  black: string | null;
+}
+
+export interface PlayedGame extends Pairing {
+  round: number;
+  // null until the game has finished; a bye scores 1 for white
+  whiteScore: number | null;
+  blackScore: number | null;
+}
+
+export interface Standing {
+  player: string;
+  rank: number;
+  points: number;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  byes: number;
+  // Sum of the points of every opponent faced
+  buchholz: number;
+  // Points of beaten opponents plus half the points of drawn ones
+  sonnebornBerger: number;
+}
+
+// Upper bound on the Swiss backtracking search before rematches are allowed
+const MAX_PAIRING_STEPS = 100000;
+
+export function roundCount(format: TournamentFormat, players: number, swissRounds?: number): number {
+  const singleCycle = players % 2 === 0 ? players - 1 : players;
+  if (format === 'round_robin') return singleCycle;
+  if (format === 'double_round_robin') return singleCycle * 2;
+  return swissRounds ?? Math.max(1, Math.ceil(Math.log2(players)));
+}
+
+// Every round of a (double) round robin, using the circle method. Colors alternate from round to
+// round; the second cycle replays the first with colors swapped.
+export function roundRobinRounds(players: string[], double = false): Pairing[][] {
+  const circle: (string | null)[] = [...players];
+  if (circle.length % 2 === 1) circle.push(null);
+  const size = circle.length;
+
+  const rounds: Pairing[][] = [];
+  for (let round = 0; round < size - 1; round++) {
+    const pairings: Pairing[] = [];
+    let bye: Pairing | null = null;
+
+    for (let board = 0; board < size / 2; board++) {
+      const home = circle[board];
+      const away = circle[size - 1 - board];
+      if (home === null || away === null) {
+        bye = { white: (home ?? away) as string, black: null };
+        continue;
+      }
+      // The fixed first seat swaps colors every round; the rest alternate by board
+      const homeIsWhite = board === 0 ? round % 2 === 0 : board % 2 === 1;
+      pairings.push(homeIsWhite ? { white: home, black: away } : { white: away, black: home });
+    }
+
+    if (bye) pairings.push(bye);
+    rounds.push(pairings);
+    circle.splice(1, 0, circle.pop() as string | null);
+  }
+
+  if (!double) return rounds;
+  return [
+    ...rounds,
+    ...rounds.map(round => round.map(pairing => (
+      pairing.black === null ? pairing : { white: pairing.black, black: pairing.white }
+    )))
+  ];
+}
+
+interface PlayerRecord {
+  points: number;
+  opponents: string[];
+  colors: ('w' | 'b')[];
+  byes: number;
+}
+
+function recordsOf(players: string[], games: PlayedGame[]): Map<string, PlayerRecord> {
+  const records = new Map<string, PlayerRecord>(
+    players.map(player => [player, { points: 0, opponents: [], colors: [], byes: 0 }])
+  );
+
+  for (const game of [...games].sort((a, b) => a.round - b.round)) {
+    const white = records.get(game.white);
+    if (!white) continue;
+    if (game.black === null) {
+      white.byes++;
+      white.points += game.whiteScore ?? 0;
+      continue;
+    }
+    const black = records.get(game.black);
+    if (!black) continue;
+    white.opponents.push(game.black);
+    white.colors.push('w');
+    black.opponents.push(game.white);
+    black.colors.push('b');
+    white.points += game.whiteScore ?? 0;
+    black.points += game.blackScore ?? 0;
+  }
+
+  return records;
+}
+
+// Pairs the highest-ranked unpaired player with the next-best opponent they have not met,
+// backtracking when the rest of the field cannot be paired
+function pairWithoutRematches(
+  pool: string[],
+  haveMet: (a: string, b: string) => boolean,
+  budget: { steps: number }
+): [string, string][] | null {
+  if (pool.length === 0) return [];
+  if (--budget.steps < 0) return null;
+
+  const [first, ...rest] = pool;
+  for (let i = 0; i < rest.length; i++) {
+    if (haveMet(first, rest[i])) continue;
+    const pairs = pairWithoutRematches(rest.filter((_, j) => j !== i), haveMet, budget);
+    if (pairs) return [[first, rest[i]], ...pairs];
+  }
+  return null;
+}
+
+// Within each score group the top half is lined up against the bottom half (1 v 5, 2 v 6, ...)
+function foldScoreGroups(ranked: string[], pointsOf: (player: string) => number): string[] {
+  const folded: string[] = [];
+  let start = 0;
+  while (start < ranked.length) {
+    let end = start;
+    while (end < ranked.length && pointsOf(ranked[end]) === pointsOf(ranked[start])) end++;
+
+    const group = ranked.slice(start, end);
+    const half = Math.floor(group.length / 2);
+    for (let i = 0; i < half; i++) {
+      folded.push(group[i], group[half + i]);
+    }
+    folded.push(...group.slice(half * 2));
+    start = end;
+  }
+  return folded;
+}
+
+// White goes to the player who has had white less often, then to whoever had black last
+function assignColors(a: string, b: string, records: Map<string, PlayerRecord>): Pairing {
+  const balance = (player: string) => {
+    const colors = records.get(player)?.colors ?? [];
+    return colors.filter(color => color === 'w').length - colors.filter(color => color === 'b').length;
+  };
+  const last = (player: string) => records.get(player)?.colors.slice(-1)[0];
+
+  if (balance(a) !== balance(b)) {
+    return balance(a) < balance(b) ? { white: a, black: b } : { white: b, black: a };
+  }
+  if (last(a) !== last(b)) {
+    return last(a) === 'b' || last(b) === 'w' ? { white: a, black: b } : { white: b, black: a };
+  }
+  return { white: a, black: b };
+}
+
+// Pairings for the next Swiss round: players are ranked by points (then seed), each score group's top
+// half is paired against its bottom half without rematches where possible, and the lowest-ranked
+// player without a bye sits out an odd round.
+export function swissPairings(players: string[], games: PlayedGame[]): Pairing[] {
+  const records = recordsOf(players, games);
+  const seed = new Map(players.map((player, index) => [player, index]));
+  const ranked = [...players].sort((a, b) => (
+    (records.get(b)?.points ?? 0) - (records.get(a)?.points ?? 0) || (seed.get(a) ?? 0) - (seed.get(b) ?? 0)
+  ));
+
+  let pool = ranked;
+  let bye: Pairing | null = null;
+  if (pool.length % 2 === 1) {
+    const byePlayer = [...pool].reverse().find(player => records.get(player)?.byes === 0) ?? pool[pool.length - 1];
+    bye = { white: byePlayer, black: null };
+    pool = pool.filter(player => player !== byePlayer);
+  }
+  pool = foldScoreGroups(pool, player => records.get(player)?.points ?? 0);
+
+  const haveMet = (a: string, b: string) => records.get(a)?.opponents.includes(b) ?? false;
+  const pairs = pairWithoutRematches(pool, haveMet, { steps: MAX_PAIRING_STEPS })
+    ?? pool.reduce<[string, string][]>((acc, player, index) => (
+      index % 2 === 0 ? [...acc, [player, pool[index + 1]]] : acc
+    ), []);
+
+  const pairings = pairs.map(([a, b]) => assignColors(a, b, records));
+  return bye ? [...pairings, bye] : pairings;
+}
+
+// Final or running standings. Ties are broken by Buchholz then Sonneborn-Berger in Swiss, the other
+// way round in round robins (where every Buchholz is the same), then by wins and finally seed.
+export function computeStandings(players: string[], games: PlayedGame[], format: TournamentFormat): Standing[] {
+  const finished = games.filter(game => game.whiteScore !== null);
+  const records = recordsOf(players, finished);
+  const pointsOf = (player: string) => records.get(player)?.points ?? 0;
+
+  const standings = players.map(player => {
+    const standing: Standing = {
+      player,
+      rank: 0,
+      points: pointsOf(player),
+      played: 0,
+      wins: 0,
+      draws: 0,
+      losses: 0,
+      byes: records.get(player)?.byes ?? 0,
+      buchholz: 0,
+      sonnebornBerger: 0
+    };
+
+    for (const game of finished) {
+      if (game.black === null) continue;
+      const isWhite = game.white === player;
+      if (!isWhite && game.black !== player) continue;
+
+      const opponent = isWhite ? game.black : game.white;
+      const score = (isWhite ? game.whiteScore : game.blackScore) ?? 0;
+      standing.played++;
+      standing.buchholz += pointsOf(opponent);
+      if (score === 1) {
+        standing.wins++;
+        standing.sonnebornBerger += pointsOf(opponent);
+      } else if (score === 0.5) {
+        standing.draws++;
+        standing.sonnebornBerger += pointsOf(opponent) / 2;
+      } else {
+        standing.losses++;
+      }
+    }
+
+    return standing;
+  });
+
+  const seed = new Map(players.map((player, index) => [player, index]));
+  const tiebreaks: (keyof Standing)[] = format === 'swiss'
+    ? ['points', 'buchholz', 'sonnebornBerger', 'wins']
+    : ['points', 'sonnebornBerger', 'buchholz', 'wins'];
+
+  standings.sort((a, b) => {
+    for (const key of tiebreaks) {
+      const diff = (b[key] as number) - (a[key] as number);
+      if (diff !== 0) return diff;
+    }
+    return (seed.get(a.player) ?? 0) - (seed.get(b.player) ?? 0);
+  });
+  standings.forEach((standing, index) => { standing.rank = index + 1; });
+
+  return standings;
+}
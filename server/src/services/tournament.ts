@@ -0,0 +1,529 @@
+// src/services/tournament.ts
+// Runs a competition as a tournament between its submitted agents. advanceTournament is an
+// idempotent tick: it records finished games, queues unplayed ones and pairs the next round once
+// the current one is over, so it can be called after every match and from a periodic sweep.
+// Knockout formats are handed to knockout.ts.
+import mongoose from 'mongoose';
+import { parseAdjudicationRules } from '../engine/adjudication';
+import { DEFAULT_TIME_CONTROL, parseTimeControl } from '../engine/time-control';
+import Agent, { IAgent } from '../models/Agent';
+import AgentVersion from '../models/AgentVersion';
+import Competition, { ICompetition } from '../models/Competition';
+import Match, { MATCH_STATES } from '../models/Match';
+import MatchSet, { MATCH_SET_STATES } from '../models/MatchSet';
+import TournamentPairing, { ITournamentPairing } from '../models/TournamentPairing';
+import User from '../models/User';
+import { recordSystemActivity } from './activity';
+import { cancelCompetitionJobs } from './match-queue';
+import { uploadedSourcePath } from './builds';
+import { ServiceError } from './errors';
+import { createAgentMatch, createAgentMatchSet } from './matchmaking';
+import { competitionOpenings, pairingOpening } from './openings';
+import { KnockoutFormat, KnockoutTiebreak } from './bracket';
+import { advanceKnockout, bracketScores, createBracket, getBracket, isKnockoutFormat, knockoutRounds } from './knockout';
+import { completeSubmissions, entrantFileId, markSubmissionsPlaying } from './submissions';
+import {
+  Pairing,
+  PlayedGame,
+  Standing,
+  TournamentFormat,
+  computeStandings,
+  roundCount,
+  roundRobinRounds,
+  swissPairings
+} from './tournament-pairing';
+
+// A claimed pairing whose games were never queued (e.g. the process died) is queued again after this
+const SCHEDULE_STALE_AFTER_MS = 5 * 60 * 1000;
+
+// Games of a pairing's match set, one with each color
+const PAIRING_GAMES = 2;
+
+export class TournamentError extends ServiceError {}
+
+export interface StartTournamentOptions {
+  format: TournamentFormat | KnockoutFormat;
+  // Swiss only; defaults to log2 of the field size
+  rounds?: number;
+  // Knockouts only; defaults to armageddon
+  tiebreak?: KnockoutTiebreak;
+}
+
+function toPlayedGame(pairing: ITournamentPairing): PlayedGame {
+  return {
+    round: pairing.round,
+    white: String(pairing.white),
+    black: pairing.black ? String(pairing.black) : null,
+    whiteScore: pairing.completedAt ? pairing.whiteScore ?? 0 : null,
+    blackScore: pairing.completedAt && pairing.black ? pairing.blackScore ?? 0 : null
+  };
+}
+
+async function playedGames(competitionId: mongoose.Types.ObjectId | string): Promise<PlayedGame[]> {
+  const pairings = await TournamentPairing.find({ competition: competitionId }).sort({ round: 1, board: 1 });
+  return pairings.map(toPlayedGame);
+}
+
+interface Entrant {
+  agent: IAgent;
+  // The submitted version; missing for entries from before versions were pinned
+  version?: mongoose.Types.ObjectId;
+}
+
+// Submitted agents whose entered version can play, strongest first
+async function collectEntrants(competition: ICompetition): Promise<Entrant[]> {
+  const entries = new Map(competition.submissions
+    .filter(submission => mongoose.Types.ObjectId.isValid(String(submission.agent)))
+    .map(submission => [String(submission.agent), submission.version]));
+  const agents = await Agent.find({ _id: { $in: [...entries.keys()] }, status: 'active' })
+    .sort({ rating: -1, createdAt: 1 });
+  const versions = await AgentVersion.find({ _id: { $in: [...entries.values()].filter(Boolean) } }).select('fileId');
+  const fileIds = new Map(versions.map(version => [String(version._id), version.fileId]));
+
+  return agents.flatMap(agent => {
+    const version = entries.get(String(agent._id)) ?? undefined;
+    const fileId = version ? fileIds.get(String(version)) : agent.fileId;
+    return fileId && uploadedSourcePath(fileId) ? [{ agent, version }] : [];
+  });
+}
+
+export async function startTournament(
+  competitionId: string,
+  options: StartTournamentOptions
+): Promise<ICompetition> {
+  const competition = mongoose.Types.ObjectId.isValid(competitionId)
+    ? await Competition.findById(competitionId)
+    : null;
+  if (!competition) {
+    throw new TournamentError('Competition not found', 404);
+  }
+  if (competition.tournament?.format) {
+    throw new TournamentError('Tournament has already been started', 409);
+  }
+  if (competition.status === 'completed') {
+    throw new TournamentError('Competition is already completed', 409);
+  }
+
+  const entrants = await collectEntrants(competition);
+  if (entrants.length < 2) {
+    throw new TournamentError('At least two submitted agents with an uploaded source are needed', 409);
+  }
+  if (options.format === 'swiss' && options.rounds !== undefined
+    && (!Number.isInteger(options.rounds) || options.rounds < 1 || options.rounds >= entrants.length + (entrants.length % 2))) {
+    throw new TournamentError(`A Swiss tournament of ${entrants.length} agents needs between 1 and ${entrants.length - 1 + (entrants.length % 2)} rounds`, 400);
+  }
+
+  const knockout = isKnockoutFormat(options.format);
+  const now = new Date();
+  const started = await Competition.findOneAndUpdate(
+    { _id: competition._id, 'tournament.format': { $exists: false } },
+    {
+      // The entrants are fixed from here on, even when the tournament starts before startDate
+      $min: { submissionsLockedAt: now },
+      $set: {
+        status: 'active',
+        tournament: {
+          format: options.format,
+          tiebreak: knockout ? options.tiebreak ?? 'armageddon' : undefined,
+          rounds: isKnockoutFormat(options.format)
+            ? knockoutRounds(entrants.length)
+            : roundCount(options.format, entrants.length, options.rounds),
+          currentRound: 0,
+          entrants: entrants.map(({ agent }) => agent._id),
+          entrantVersions: entrants.map(({ version }) => version ?? null),
+          startedAt: now
+        }
+      }
+    },
+    { new: true }
+  );
+  if (!started) {
+    throw new TournamentError('Tournament has already been started', 409);
+  }
+
+  if (knockout) {
+    await createBracket(started);
+  }
+  await markSubmissionsPlaying(started._id as mongoose.Types.ObjectId, entrants.map(({ agent }) => agent._id as mongoose.Types.ObjectId));
+
+  console.log('Tournament started:', {
+    competitionId,
+    format: options.format,
+    entrants: entrants.length,
+    rounds: started.tournament?.rounds
+  });
+
+  await advanceTournament(competitionId);
+  return started;
+}
+
+async function pairRound(competition: ICompetition, round: number): Promise<ITournamentPairing[]> {
+  const tournament = competition.tournament!;
+  const entrants = tournament.entrants.map(String);
+  const format = tournament.format as TournamentFormat;
+
+  let pairings: Pairing[];
+  if (tournament.format === 'swiss') {
+    const previous = (await playedGames(competition._id as mongoose.Types.ObjectId))
+      .filter(game => game.round < round);
+    pairings = swissPairings(entrants, previous);
+  } else {
+    pairings = roundRobinRounds(entrants, format === 'double_round_robin')[round - 1] ?? [];
+  }
+
+  const now = new Date();
+  try {
+    await TournamentPairing.insertMany(pairings.map((pairing, index) => ({
+      competition: competition._id,
+      round,
+      board: index + 1,
+      white: pairing.white,
+      black: pairing.black ?? undefined,
+      // A bye is a point without playing
+      ...(pairing.black === null ? { whiteScore: 1, completedAt: now } : {})
+    })), { ordered: false });
+  } catch (error) {
+    // Another tick paired the round first; its pairings stand
+    if ((error as { code?: number }).code !== 11000) throw error;
+  }
+
+  console.log('Tournament round paired:', { competitionId: String(competition._id), round, boards: pairings.length });
+  return TournamentPairing.find({ competition: competition._id, round }).sort({ board: 1 });
+}
+
+// The winning player of a pairing's finished game or set, 0 for a draw, or null when it failed.
+// Undefined while it is still being played.
+async function pairingWinner(pairing: ITournamentPairing): Promise<number | null | undefined> {
+  if (pairing.matchSet) {
+    const set = await MatchSet.findById(pairing.matchSet).select('status winner');
+    if (set?.status === MATCH_SET_STATES.COMPLETED) return set.winner ?? 0;
+    return set?.status === MATCH_SET_STATES.ERROR ? null : undefined;
+  }
+
+  const match = await Match.findById(pairing.match).select('status result');
+  if (match?.status === MATCH_STATES.COMPLETED && match.result?.reason) return match.result.winner ?? 0;
+  return match?.status === MATCH_STATES.ERROR ? null : undefined;
+}
+
+// Copies finished game and set results onto their pairings
+async function recordResults(pairings: ITournamentPairing[]): Promise<void> {
+  for (const pairing of pairings) {
+    if (pairing.completedAt || (!pairing.match && !pairing.matchSet)) continue;
+
+    const winner = await pairingWinner(pairing);
+    if (winner === undefined) continue;
+
+    // Tournament games and sets always put white in the player 1 seat. A game that failed even
+    // after retries, or fails its set, scores nothing for either side.
+    const scores = winner === null
+      ? { whiteScore: 0, blackScore: 0, forfeit: true }
+      : {
+        whiteScore: winner === 1 ? 1 : winner === 2 ? 0 : 0.5,
+        blackScore: winner === 2 ? 1 : winner === 1 ? 0 : 0.5,
+        forfeit: false
+      };
+
+    const completedAt = new Date();
+    await TournamentPairing.updateOne(
+      { _id: pairing._id, completedAt: { $exists: false } },
+      { $set: { ...scores, completedAt } }
+    );
+    Object.assign(pairing, scores, { completedAt });
+  }
+}
+
+// Queues the games of every pairing of the round that does not have them yet
+async function scheduleMatches(competition: ICompetition, pairings: ITournamentPairing[]): Promise<void> {
+  const timeControl = competition.timeControl?.type ? parseTimeControl(competition.timeControl) : DEFAULT_TIME_CONTROL;
+  const adjudication = parseAdjudicationRules(competition.adjudication);
+  const openings = competitionOpenings(competition.openings);
+
+  for (const pairing of pairings) {
+    if (pairing.completedAt || pairing.match || pairing.matchSet || !pairing.black) continue;
+
+    const now = new Date();
+    const claimed = await TournamentPairing.findOneAndUpdate(
+      {
+        _id: pairing._id,
+        match: { $exists: false },
+        matchSet: { $exists: false },
+        completedAt: { $exists: false },
+        $or: [
+          { scheduledAt: { $exists: false } },
+          { scheduledAt: { $lt: new Date(now.getTime() - SCHEDULE_STALE_AFTER_MS) } }
+        ]
+      },
+      { $set: { scheduledAt: now } },
+      { new: true }
+    );
+    if (!claimed) continue;
+
+    const [white, black] = await Promise.all([Agent.findById(pairing.white), Agent.findById(pairing.black)]);
+    const whiteFileId = white ? await entrantFileId(competition, white) : null;
+    const blackFileId = black ? await entrantFileId(competition, black) : null;
+    const whiteReady = !!whiteFileId && !!uploadedSourcePath(whiteFileId);
+    const blackReady = !!blackFileId && !!uploadedSourcePath(blackFileId);
+
+    // An agent whose entered source has gone missing forfeits the pairing
+    if (!whiteReady || !blackReady) {
+      const scores = { whiteScore: whiteReady ? 1 : 0, blackScore: blackReady ? 1 : 0, forfeit: true, completedAt: now };
+      await TournamentPairing.updateOne({ _id: pairing._id }, { $set: scores });
+      Object.assign(pairing, scores);
+      console.warn('Tournament game forfeited, agent source missing:', {
+        competitionId: String(competition._id),
+        round: pairing.round,
+        board: pairing.board
+      });
+      continue;
+    }
+
+    // The second leg of a double round robin plays the pairing's opening with colors swapped
+    if (competition.tournament?.format === 'double_round_robin') {
+      const opening = await pairingOpening(openings, String(competition._id), [String(white!._id), String(black!._id)]);
+      const { match } = await createAgentMatch(white!, black!, timeControl, competition._id as mongoose.Types.ObjectId, opening, adjudication, {
+        white: whiteFileId!,
+        black: blackFileId!
+      });
+      await TournamentPairing.updateOne({ _id: pairing._id }, { $set: { match: match._id } });
+      pairing.match = match._id as mongoose.Types.ObjectId;
+      continue;
+    }
+
+    const { set } = await createAgentMatchSet(white!, black!, timeControl, PAIRING_GAMES, competition._id as mongoose.Types.ObjectId, openings, adjudication, {
+      first: whiteFileId!,
+      second: blackFileId!
+    });
+    await TournamentPairing.updateOne({ _id: pairing._id }, { $set: { matchSet: set._id } });
+    pairing.matchSet = set._id as mongoose.Types.ObjectId;
+  }
+}
+
+async function finishTournament(
+  competition: ICompetition,
+  winnerAgentId: mongoose.Types.ObjectId | string | null,
+  cutShort: boolean = false
+): Promise<void> {
+  const winnerAgent = winnerAgentId ? await Agent.findById(winnerAgentId) : null;
+  const winnerUser = winnerAgent ? await User.findOne({ walletAddress: winnerAgent.walletAddress }) : null;
+
+  const finished = await Competition.findOneAndUpdate(
+    { _id: competition._id, 'tournament.completedAt': { $exists: false } },
+    {
+      $set: {
+        status: 'completed',
+        winner: winnerUser?._id,
+        'tournament.winnerAgent': winnerAgent?._id,
+        'tournament.completedAt': new Date()
+      }
+    }
+  );
+  if (!finished) return;
+
+  const scores = isKnockoutFormat(competition.tournament!.format)
+    ? await bracketScores(competition)
+    : new Map(computeStandings(
+      competition.tournament!.entrants.map(String),
+      await playedGames(competition._id as mongoose.Types.ObjectId),
+      competition.tournament!.format as TournamentFormat
+    ).map(standing => [standing.player, standing.points]));
+  await completeSubmissions(competition._id as mongoose.Types.ObjectId, scores);
+
+  if (winnerUser) {
+    await User.updateOne({ _id: winnerUser._id }, { $inc: { 'stats.competitionsWon': 1 } });
+  }
+
+  console.log('Tournament completed:', {
+    competitionId: String(competition._id),
+    format: competition.tournament?.format,
+    winner: winnerAgent?.name,
+    cutShort
+  });
+
+  const outcome = winnerAgent
+    ? `${winnerAgent.name} won the tournament.`
+    : 'The tournament ended without a winner.';
+  await recordSystemActivity(
+    `${competition.title} completed`,
+    cutShort ? `The competition ended before its tournament finished. ${outcome}` : outcome,
+    { competitionId: competition._id as mongoose.Types.ObjectId, agentId: winnerAgent?._id as mongoose.Types.ObjectId | undefined, status: 'completed' }
+  );
+}
+
+export async function advanceTournament(competitionId: mongoose.Types.ObjectId | string): Promise<void> {
+  const competition = await Competition.findById(competitionId);
+  const tournament = competition?.tournament;
+  if (!competition || !tournament?.format || tournament.completedAt) return;
+
+  if (isKnockoutFormat(tournament.format)) {
+    const champion = await advanceKnockout(competition);
+    if (champion) {
+      await finishTournament(competition, champion);
+    }
+    return;
+  }
+
+  const round = tournament.currentRound;
+  if (round > 0) {
+    let pairings: ITournamentPairing[] = await TournamentPairing.find({ competition: competition._id, round }).sort({ board: 1 });
+    // The round was claimed but pairing it was interrupted
+    if (pairings.length === 0) {
+      pairings = await pairRound(competition, round);
+    }
+
+    await recordResults(pairings);
+    await scheduleMatches(competition, pairings);
+    if (pairings.some(pairing => !pairing.completedAt)) return;
+  }
+
+  if (round >= tournament.rounds) {
+    const standings = computeStandings(
+      tournament.entrants.map(String),
+      await playedGames(competition._id as mongoose.Types.ObjectId),
+      tournament.format as TournamentFormat
+    );
+    await finishTournament(competition, standings[0]?.player ?? null);
+    return;
+  }
+
+  // Only one tick gets to open the next round
+  const claimed = await Competition.findOneAndUpdate(
+    { _id: competition._id, 'tournament.currentRound': round },
+    { $set: { 'tournament.currentRound': round + 1 } },
+    { new: true }
+  );
+  if (!claimed) return;
+
+  const pairings = await pairRound(claimed, round + 1);
+  await scheduleMatches(claimed, pairings);
+
+  // A round made up only of byes is already over
+  if (pairings.every(pairing => pairing.completedAt)) {
+    await advanceTournament(competitionId);
+  }
+}
+
+// Ends a tournament that is still running when its competition closes. Finished games count and
+// unplayed ones are cancelled: a league goes to the current leader, a knockout without a champion
+// has no winner.
+export async function closeTournament(competitionId: mongoose.Types.ObjectId | string): Promise<void> {
+  const competition = await Competition.findById(competitionId);
+  const tournament = competition?.tournament;
+  if (!competition || !tournament?.format || tournament.completedAt) return;
+
+  const cancelled = await cancelCompetitionJobs(competition._id as mongoose.Types.ObjectId, 'Competition ended before the match was played');
+  if (cancelled > 0) {
+    console.log('Cancelled queued tournament matches:', { competitionId: String(competition._id), cancelled });
+  }
+
+  let winner: string | null = null;
+  if (!isKnockoutFormat(tournament.format)) {
+    await recordResults(await TournamentPairing.find({ competition: competition._id, round: tournament.currentRound }));
+    const games = await playedGames(competition._id as mongoose.Types.ObjectId);
+    // Byes alone do not make a leader
+    if (games.some(game => game.black !== null && game.whiteScore !== null)) {
+      winner = computeStandings(tournament.entrants.map(String), games, tournament.format as TournamentFormat)[0]?.player ?? null;
+    }
+  }
+  await finishTournament(competition, winner, true);
+}
+
+// Periodic sweep over every running tournament, picking up results the per-match hook missed
+export async function advanceActiveTournaments(): Promise<number> {
+  const competitions = await Competition.find({
+    'tournament.format': { $exists: true },
+    'tournament.completedAt': { $exists: false }
+  }).select('_id');
+
+  for (const competition of competitions) {
+    try {
+      await advanceTournament(competition._id as mongoose.Types.ObjectId);
+    } catch (error) {
+      console.error('Failed to advance tournament:', { competitionId: String(competition._id), error });
+    }
+  }
+  return competitions.length;
+}
+
+export interface TournamentStanding extends Standing {
+  agentId: string;
+  name: string;
+  walletAddress?: string;
+}
+
+// Current standings plus every pairing, round by round
+async function findStartedTournament(competitionId: string): Promise<ICompetition> {
+  const competition = mongoose.Types.ObjectId.isValid(competitionId)
+    ? await Competition.findById(competitionId).select('title status tournament')
+    : null;
+  if (!competition) {
+    throw new TournamentError('Competition not found', 404);
+  }
+  if (!competition.tournament?.format) {
+    throw new TournamentError('Tournament has not been started', 409);
+  }
+  return competition;
+}
+
+export async function getTournamentStandings(competitionId: string) {
+  const competition = await findStartedTournament(competitionId);
+  const tournament = competition.tournament!;
+  if (isKnockoutFormat(tournament.format)) {
+    throw new TournamentError('Knockout tournaments have a bracket instead of standings', 409);
+  }
+
+  const pairings = await TournamentPairing.find({ competition: competition._id }).sort({ round: 1, board: 1 });
+  const agents = await Agent.find({ _id: { $in: tournament.entrants } }).select('name walletAddress');
+  const agentById = new Map(agents.map(agent => [String(agent._id), agent]));
+
+  const standings: TournamentStanding[] = computeStandings(
+    tournament.entrants.map(String),
+    pairings.map(toPlayedGame),
+    tournament.format
+  ).map(standing => ({
+    ...standing,
+    agentId: standing.player,
+    name: agentById.get(standing.player)?.name || 'Unknown agent',
+    walletAddress: agentById.get(standing.player)?.walletAddress
+  }));
+
+  const rounds: { round: number; pairings: Record<string, unknown>[] }[] = [];
+  for (const pairing of pairings) {
+    if (rounds[rounds.length - 1]?.round !== pairing.round) {
+      rounds.push({ round: pairing.round, pairings: [] });
+    }
+    rounds[rounds.length - 1].pairings.push({
+      board: pairing.board,
+      white: { agentId: String(pairing.white), name: agentById.get(String(pairing.white))?.name },
+      black: pairing.black ? { agentId: String(pairing.black), name: agentById.get(String(pairing.black))?.name } : null,
+      matchId: pairing.match ? String(pairing.match) : undefined,
+      setId: pairing.matchSet ? String(pairing.matchSet) : undefined,
+      whiteScore: pairing.whiteScore,
+      blackScore: pairing.blackScore,
+      forfeit: pairing.forfeit,
+      completed: !!pairing.completedAt
+    });
+  }
+
+  return {
+    competitionId,
+    title: competition.title,
+    status: competition.status,
+    format: tournament.format,
+    rounds: tournament.rounds,
+    currentRound: tournament.currentRound,
+    winnerAgent: tournament.winnerAgent ? String(tournament.winnerAgent) : undefined,
+    startedAt: tournament.startedAt,
+    completedAt: tournament.completedAt,
+    standings,
+    pairings: rounds
+  };
+}
+
+// The bracket of a knockout tournament
+export async function getTournamentBracket(competitionId: string) {
+  const competition = await findStartedTournament(competitionId);
+  if (!isKnockoutFormat(competition.tournament!.format)) {
+    throw new TournamentError('Only knockout tournaments have a bracket', 409);
+  }
+  return getBracket(competition);
+}
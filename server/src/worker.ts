@@ -0,0 +1,161 @@
+// src/worker.ts
+// Match worker: claims queued match jobs from MongoDB and plays them. Run one or more of these
+// next to the API server (`npm run worker`); the API only enqueues jobs.
+import dotenv from 'dotenv';
+import path from 'path';
+import os from 'os';
+
+// Load environment variables based on NODE_ENV
+if (process.env.NODE_ENV === 'production') {
+  dotenv.config({ path: path.resolve(process.cwd(), '.env.production') });
+} else {
+  dotenv.config();
+}
+
+import dbConnect from './lib/mongodb';
+import { IMatchJob } from './models/MatchJob';
+import { JobLockLostError, claimNextJob, completeJob, failJob, heartbeatJob, requeueStaleJobs } from './services/match-queue';
+import { MatchAbortedError } from './engine/chess-engine';
+import { runMatchJob } from './services/match-runner';
+import { parseSetGames, scheduleRound } from './services/matchmaking';
+import { advanceActiveTournaments } from './services/tournament';
+import { DEFAULT_TIME_CONTROL } from './engine/time-control';
+
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+const CONCURRENCY = Math.max(1, Number(process.env.WORKER_CONCURRENCY) || 1);
+const POLL_INTERVAL_MS = 2000;
+const HEARTBEAT_INTERVAL_MS = 10000;
+// A job is considered abandoned after missing several heartbeats
+const STALE_AFTER_MS = 6 * HEARTBEAT_INTERVAL_MS;
+// How often idle agents are paired up automatically; 0 turns automatic matchmaking off
+const MATCHMAKING_INTERVAL_MS = Number(process.env.MATCHMAKING_INTERVAL_MS ?? 5 * 60 * 1000);
+// Games in each automatically scheduled match set; must be even
+const MATCHMAKING_SET_GAMES = parseSetGames(process.env.MATCHMAKING_SET_GAMES);
+// Tournaments also advance after each of their matches; the sweep catches failed matches and restarts
+const TOURNAMENT_SWEEP_INTERVAL_MS = 30000;
+
+let shuttingDown = false;
+const active = new Set<Promise<void>>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function processJob(job: IMatchJob): Promise<void> {
+  const jobId = String(job._id);
+  console.log(`Worker ${WORKER_ID} claimed job ${jobId} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+  // Another worker may already be replaying a job whose lock was lost, so the game stops at once
+  const lock = new AbortController();
+  const heartbeat = setInterval(async () => {
+    try {
+      if (!(await heartbeatJob(jobId, WORKER_ID))) {
+        console.warn(`Worker ${WORKER_ID} lost the lock on job ${jobId}; aborting the game`);
+        lock.abort();
+      }
+    } catch (error) {
+      console.error(`Heartbeat failed for job ${jobId}:`, error);
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    await runMatchJob(job, WORKER_ID, lock.signal);
+    await completeJob(jobId, WORKER_ID);
+    console.log(`Job ${jobId} completed`);
+  } catch (error) {
+    if (error instanceof JobLockLostError || error instanceof MatchAbortedError) {
+      // The job is no longer this worker's to complete or fail
+      console.warn(`Job ${jobId} abandoned:`, error.message);
+      return;
+    }
+    console.error(`Job ${jobId} failed:`, error);
+    try {
+      await failJob(job, WORKER_ID, error);
+    } catch (dbError) {
+      // The stale-job sweep will pick the job up again
+      console.error(`Failed to record failure of job ${jobId}:`, dbError);
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function run(): Promise<void> {
+  await dbConnect();
+  console.log(`Match worker ${WORKER_ID} started with concurrency ${CONCURRENCY}`);
+
+  const sweeper = setInterval(async () => {
+    try {
+      const requeued = await requeueStaleJobs(STALE_AFTER_MS);
+      if (requeued > 0) {
+        console.log(`Recovered ${requeued} stale job(s)`);
+      }
+    } catch (error) {
+      console.error('Stale job sweep failed:', error);
+    }
+  }, STALE_AFTER_MS);
+
+  const matchmaker = MATCHMAKING_INTERVAL_MS > 0 ? setInterval(async () => {
+    try {
+      const scheduled = await scheduleRound(DEFAULT_TIME_CONTROL, MATCHMAKING_SET_GAMES);
+      if (scheduled.length > 0) {
+        console.log(`Matchmaking queued ${scheduled.length} match set(s) of ${MATCHMAKING_SET_GAMES} games`);
+      }
+    } catch (error) {
+      console.error('Matchmaking round failed:', error);
+    }
+  }, MATCHMAKING_INTERVAL_MS) : null;
+
+  const tournamentSweeper = setInterval(async () => {
+    try {
+      await advanceActiveTournaments();
+    } catch (error) {
+      console.error('Tournament sweep failed:', error);
+    }
+  }, TOURNAMENT_SWEEP_INTERVAL_MS);
+
+  while (!shuttingDown) {
+    if (active.size >= CONCURRENCY) {
+      await Promise.race(active);
+      continue;
+    }
+
+    let job: IMatchJob | null = null;
+    try {
+      job = await claimNextJob(WORKER_ID);
+    } catch (error) {
+      console.error('Failed to claim job:', error);
+    }
+
+    if (!job) {
+      await sleep(POLL_INTERVAL_MS);
+      continue;
+    }
+
+    const task: Promise<void> = processJob(job).finally(() => active.delete(task));
+    active.add(task);
+  }
+
+  clearInterval(sweeper);
+  if (matchmaker) clearInterval(matchmaker);
+  clearInterval(tournamentSweeper);
+  console.log(`Worker ${WORKER_ID} waiting for ${active.size} running job(s) before exiting`);
+  await Promise.all(active);
+  process.exit(0);
+}
+
+// Finish the jobs in hand on deploys instead of abandoning them
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    if (shuttingDown) {
+      process.exit(1);
+    }
+    console.log(`Received ${signal}, shutting down worker`);
+    shuttingDown = true;
+  });
+}
+
+run().catch(error => {
+  console.error('Worker crashed:', error);
+  process.exit(1);
+});
@@ -7,4 +7,34 @@ export interface Competition {
   endDate: string
   status: 'upcoming' | 'active' | 'completed'
   participants: string[]
+  openings?: {
+    suite: string
+    selection?: 'sample' | 'fixed'
+    position?: number
+  }
+  adjudication?: {
+    resignCp?: number
+    resignPlies?: number
+    drawCp?: number
+    drawAfterMove?: number
+    drawPlies?: number
+    endgamePieces?: number
+    nodes?: number
+  }
+  tournamentOptions?: {
+    format: 'round_robin' | 'double_round_robin' | 'swiss' | 'single_elimination' | 'double_elimination'
+    rounds?: number
+    tiebreak?: 'armageddon' | 'color_swapped_pair'
+  }
+  // Set once the competition has started and its entries are final
+  submissionsLockedAt?: string
+  // Present once the competition has been started as a tournament
+  tournament?: {
+    format: 'round_robin' | 'double_round_robin' | 'swiss' | 'single_elimination' | 'double_elimination'
+    tiebreak?: 'armageddon' | 'color_swapped_pair'
+    rounds: number
+    currentRound: number
+    startedAt: string
+    completedAt?: string
+  }
 } 
\ No newline at end of file